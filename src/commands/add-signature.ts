@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Command to add externally produced signatures to a pending transaction
+ * @module commands/add-signature
+ */
+
+import chalk from 'chalk';
+import { shortTxId } from '../utils/pending.js';
+import { openVaultClient } from '../utils/client.js';
+import { selectPendingTransaction, requireInteractive } from '../utils/prompts.js';
+import { printAddedSignatures, printSignatureChecks } from '../utils/display.js';
+import { readSignatureInputs } from '../utils/signatures.js';
+import type { SignatureInputOptions } from '../utils/signatures.js';
+import { isAccepted } from '../services/signature.js';
+import { VaultError } from '../utils/errors.js';
+import { printJson, printError, print, prompt } from '../utils/output.js';
+import type { VaultClient, AddSignaturesOutcome } from '../services/client.js';
+import type { PendingTransaction, Signature } from '../types.js';
+
+/**
+ * Adds signatures produced on another machine to a pending transaction.
+ * Prompts for one signer/signature pair when none is given as options.
+ * Signatures that do not verify against the hash and the vault's SIGNERS are rejected;
+ * the command fails when all of them are.
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
+ * @param {SignatureInputOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function addSignature(
+  selector: string | undefined,
+  options: SignatureInputOptions
+): Promise<void> {
+  let pending: PendingTransaction;
+  let client: VaultClient;
+  let signatures: Signature[];
+  try {
+    signatures = readSignatureInputs(options);
+    if (signatures.length === 0) {
+      requireInteractive('--signer/--signature or --signatures-file');
+    }
+    pending = await selectPendingTransaction(selector);
+    client = openVaultClient(pending.walletName, pending.networkName);
+  } catch (error) {
+    printError('add-signature', error);
+    return;
+  }
+
+  print(chalk.bold(`\nPending Transaction ${chalk.cyan(shortTxId(pending.hashTxId))}`));
+  print(chalk.gray(`  Hash: ${pending.hashTxId}`));
+
+  if (signatures.length === 0) {
+    const answer = await prompt([
+      {
+        type: 'input',
+        name: 'signer',
+        message: 'Signer address (0x...):',
+      },
+      {
+        type: 'input',
+        name: 'signature',
+        message: 'Signature (0x...):',
+      },
+    ]);
+
+    try {
+      signatures = readSignatureInputs({ signer: [answer.signer], signature: [answer.signature] });
+    } catch (error) {
+      printError('add-signature', error);
+      return;
+    }
+  }
+
+  let outcome: AddSignaturesOutcome;
+  try {
+    outcome = await client.addSignatures(pending, signatures);
+  } catch (error) {
+    printError('add-signature', error);
+    return;
+  }
+
+  const { checks, result } = outcome;
+  if (!checks.some(isAccepted)) {
+    printSignatureChecks(checks);
+    printError(
+      'add-signature',
+      new VaultError('None of the signatures could be verified; nothing was saved.', 'INVALID_SIGNATURE', {
+        rejected: checks,
+      })
+    );
+    return;
+  }
+
+  printAddedSignatures(result, checks);
+
+  print(chalk.white('\n  Signatures:'));
+  print(chalk.yellow(`    ${result.signers} of ${pending.requiredSignatures} required`));
+
+  if (result.thresholdReached) {
+    print(chalk.green('\n  Threshold reached! Ready to send.'));
+    print(chalk.gray(`\n  Run: bako-vault send-tx ${shortTxId(pending.hashTxId)}\n`));
+  } else {
+    const missing = pending.requiredSignatures - result.signers;
+    print(chalk.yellow(`\n  Need ${missing} more signature(s).\n`));
+  }
+
+  printJson('add-signature', {
+    hashTxId: pending.hashTxId,
+    added: result.added.map(s => s.signer),
+    duplicates: result.duplicates.map(s => s.signer),
+    replaced: result.replaced.map(s => s.signer),
+    rejected: checks.filter(c => !isAccepted(c)),
+    signers: result.signers,
+    requiredSignatures: pending.requiredSignatures,
+    thresholdReached: result.thresholdReached,
+  });
+}
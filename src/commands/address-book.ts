@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Commands to manage the address book of named recipients
+ * @module commands/address-book
+ */
+
+import chalk from 'chalk';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  loadAddressBook,
+  loadContact,
+  addContact,
+  removeContact,
+  importContacts,
+  parseContacts,
+  contactAddress,
+} from '../utils/address-book.js';
+import { confirmAction } from '../utils/prompts.js';
+import { printJson, printError, isJsonMode, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { Contact } from '../types.js';
+
+/**
+ * Options for address-book add
+ * @interface AddressBookAddOptions
+ */
+interface AddressBookAddOptions {
+  /** Network the address is for (default: every network) */
+  network?: string;
+  /** Note to store with the contact */
+  note?: string;
+  /** Replace an existing address */
+  force?: boolean;
+}
+
+/**
+ * Options for address-book list
+ * @interface AddressBookListOptions
+ */
+interface AddressBookListOptions {
+  /** Only show the address used on this network */
+  network?: string;
+}
+
+/**
+ * Options for address-book import
+ * @interface AddressBookImportOptions
+ */
+interface AddressBookImportOptions {
+  /** Replace contacts that already exist */
+  force?: boolean;
+}
+
+/**
+ * Options for address-book export
+ * @interface AddressBookExportOptions
+ */
+interface AddressBookExportOptions {
+  /** Write to a file instead of the console */
+  output?: string;
+}
+
+/**
+ * Prints a contact with all its addresses, or only the one used on a network
+ * @param {Contact} contact - Contact
+ * @param {string} [network] - Network to show the address of
+ * @private
+ */
+function printContact(contact: Contact, network?: string): void {
+  print(chalk.cyan(`  ${contact.name}`));
+  if (network) {
+    print(chalk.gray(`    Address: ${contactAddress(contact, network) ?? `none on ${network}`}`));
+  } else {
+    if (contact.address) {
+      print(chalk.gray(`    Address: ${contact.address}`));
+    }
+    for (const [name, address] of Object.entries(contact.networks ?? {})) {
+      print(chalk.gray(`    ${name}: ${address}`));
+    }
+  }
+  if (contact.note) {
+    print(chalk.gray(`    Note: ${contact.note}`));
+  }
+}
+
+/**
+ * Adds a contact, or an address to an existing contact
+ * @param {string} name - Contact name
+ * @param {string} address - Address (0x + 64 hex characters)
+ * @param {AddressBookAddOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function addressBookAdd(
+  name: string,
+  address: string,
+  options: AddressBookAddOptions
+): Promise<void> {
+  try {
+    const contact = addContact(name, address, options);
+
+    print(chalk.bold.green('\nContact saved!\n'));
+    printContact(contact);
+    print(chalk.gray(`\n  Send to it with: bako-vault create-tx -t ${contact.name} -a <amount>\n`));
+    printJson('address-book add', { contact });
+  } catch (error) {
+    printError('address-book add', error);
+  }
+}
+
+/**
+ * Lists the contacts of the address book
+ * @param {AddressBookListOptions} [options={}] - Command options
+ * @returns {Promise<void>}
+ */
+export async function addressBookList(options: AddressBookListOptions = {}): Promise<void> {
+  let contacts: Contact[];
+  try {
+    contacts = loadAddressBook();
+  } catch (error) {
+    printError('address-book list', error);
+    return;
+  }
+
+  const { network } = options;
+  printJson('address-book list', {
+    contacts: network ? contacts.map(c => ({ ...c, resolved: contactAddress(c, network) })) : contacts,
+  });
+
+  if (contacts.length === 0) {
+    print(chalk.yellow('\nNo contacts.'));
+    print(chalk.gray('Add one with: bako-vault address-book add <name> <address>\n'));
+    return;
+  }
+
+  print(chalk.bold(`\nAddress Book${network ? ` (${network})` : ''}:\n`));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const contact of contacts) {
+    printContact(contact, network);
+    print('');
+  }
+
+  print(chalk.gray('─'.repeat(70)));
+  print(chalk.gray(`Total: ${contacts.length} contact(s)\n`));
+}
+
+/**
+ * Removes a contact after confirmation
+ * @param {string} name - Contact name
+ * @returns {Promise<void>}
+ */
+export async function addressBookRemove(name: string): Promise<void> {
+  let contact: Contact;
+  try {
+    contact = loadContact(name);
+  } catch (error) {
+    printError('address-book remove', error);
+    return;
+  }
+
+  print('');
+  printContact(contact);
+  print('');
+
+  let remove: boolean;
+  try {
+    remove = await confirmAction(`Remove contact "${contact.name}"?`, false);
+  } catch (error) {
+    printError('address-book remove', error);
+    return;
+  }
+
+  if (remove) {
+    removeContact(contact.name);
+    print(chalk.gray('\nContact removed.\n'));
+  } else {
+    print(chalk.gray('\nKeeping contact.\n'));
+  }
+
+  printJson('address-book remove', { name: contact.name, removed: remove });
+}
+
+/**
+ * Imports contacts from a JSON file (`{ "contacts": [...] }`, as exported, or an array)
+ * @param {string} file - File to import
+ * @param {AddressBookImportOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function addressBookImport(file: string, options: AddressBookImportOptions): Promise<void> {
+  try {
+    if (!existsSync(file)) {
+      throw new VaultError(`File not found: ${file}`, 'INVALID_INPUT');
+    }
+    let content: unknown;
+    try {
+      content = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new VaultError(`Invalid contacts file: ${(error as Error).message}`, 'INVALID_INPUT');
+    }
+    const result = importContacts(parseContacts(content), options.force);
+
+    print(chalk.bold.green('\nContacts imported!\n'));
+    for (const name of result.added) {
+      print(chalk.green(`  + ${name}`));
+    }
+    for (const name of result.replaced) {
+      print(chalk.yellow(`  ~ ${name} (replaced)`));
+    }
+    for (const name of result.skipped) {
+      print(chalk.gray(`  = ${name} (already in the address book, skipped)`));
+    }
+    if (result.skipped.length > 0) {
+      print(chalk.gray('\n  Use --force to replace existing contacts.'));
+    }
+    print('');
+    printJson('address-book import', result);
+  } catch (error) {
+    printError('address-book import', error);
+  }
+}
+
+/**
+ * Exports the address book as JSON, in the format read by address-book import
+ * @param {AddressBookExportOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function addressBookExport(options: AddressBookExportOptions): Promise<void> {
+  try {
+    const contacts = loadAddressBook();
+    const output = JSON.stringify({ contacts }, null, 2);
+
+    if (options.output) {
+      writeFileSync(options.output, output + '\n');
+      print(chalk.green(`\n${contacts.length} contact(s) exported to ${options.output}\n`));
+    } else if (!isJsonMode()) {
+      print(output);
+    }
+
+    printJson('address-book export', { contacts, ...(options.output && { output: options.output }) });
+  } catch (error) {
+    printError('address-book export', error);
+  }
+}
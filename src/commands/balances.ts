@@ -4,76 +4,211 @@
  */
 
 import chalk from 'chalk';
-import ora from 'ora';
 import { listWalletFiles, listNetworkFiles, loadWalletConfig, loadNetworkConfig } from '../utils/config.js';
-import { getVaultBalances } from '../services/vault.js';
-import type { VaultConfig } from '../types.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { formatAssetAmount } from '../utils/assets.js';
+import { FileBalanceCache } from '../utils/balance-cache.js';
+import { VaultError } from '../utils/errors.js';
+import {
+  queryBalances,
+  DEFAULT_BALANCE_CONCURRENCY,
+  DEFAULT_BALANCE_TIMEOUT_MS,
+} from '../services/balances.js';
+import type { BalanceQuery } from '../services/balances.js';
+import type { AssetBalance } from '../services/client.js';
+import type { NetworkConfig, WalletConfig } from '../types.js';
 
 /**
- * Lists balances for all configured wallets across all configured networks
- * @returns {Promise<void>}
+ * Options for the balances command
+ * @interface BalancesOptions
  */
-export async function balances(): Promise<void> {
-  const wallets = listWalletFiles();
-  const networks = listNetworkFiles();
+interface BalancesOptions {
+  /** Only this wallet (default: all) */
+  wallet?: string;
+  /** Only this network (default: all) */
+  network?: string;
+  /** Number of vaults queried at a time */
+  concurrency?: string;
+  /** Time limit of each node request, in seconds */
+  timeout?: string;
+  /** Reuse balances fetched less than this many seconds ago */
+  cache?: string;
+}
 
-  if (wallets.length === 0) {
-    console.log(chalk.yellow('\nNo wallets configured.'));
-    console.log(chalk.gray('Create a wallet file in wallets/<name>.json\n'));
+/**
+ * Balances of one wallet on one network, as reported in JSON output
+ * @interface WalletBalances
+ * @private
+ */
+interface WalletBalances {
+  wallet: string;
+  network?: string;
+  address?: string;
+  balances: AssetBalance[];
+  /** ISO timestamp of the query the balances come from */
+  fetchedAt?: string;
+  /** True if the balances were served from the cache */
+  cached?: boolean;
+  /** Error message if the balances could not be loaded */
+  error?: string;
+}
+
+/**
+ * Lists balances for all configured wallets across all configured networks (or the selected ones).
+ * Vaults are queried concurrently, each request is time-bounded, and `--cache` reuses recent results.
+ * @param {BalancesOptions} [options={}] - Command options
+ * @returns {Promise<void>}
+ */
+export async function balances(options: BalancesOptions = {}): Promise<void> {
+  let walletNames: string[];
+  let networkNames: string[];
+  let concurrency: number;
+  let timeout: number;
+  let maxAge: number;
+  try {
+    walletNames = options.wallet ? [options.wallet] : listWalletFiles();
+    networkNames = options.network ? [options.network] : listNetworkFiles();
+    concurrency = parseCount(options.concurrency, '--concurrency', DEFAULT_BALANCE_CONCURRENCY);
+    timeout = parseSeconds(options.timeout, '--timeout', DEFAULT_BALANCE_TIMEOUT_MS / 1000) * 1000;
+    maxAge = parseSeconds(options.cache, '--cache', 0) * 1000;
+  } catch (error) {
+    printError('balances', error);
     return;
   }
 
-  if (networks.length === 0) {
-    console.log(chalk.yellow('\nNo networks configured.'));
-    console.log(chalk.gray('Create a network file in networks/<name>.json\n'));
-    return;
+  if (walletNames.length === 0 || networkNames.length === 0) {
+    printJson('balances', { balances: [] });
   }
 
-  console.log(chalk.bold('\nWallet Balances\n'));
-  console.log(chalk.gray('─'.repeat(70)));
+  if (walletNames.length === 0) {
+    print(chalk.yellow('\nNo wallets configured.'));
+    print(chalk.gray('Create a wallet file in wallets/<name>.json\n'));
+    return;
+  }
 
-  for (const walletName of wallets) {
-    console.log(chalk.bold.cyan(`\n  ${walletName}`));
+  if (networkNames.length === 0) {
+    print(chalk.yellow('\nNo networks configured.'));
+    print(chalk.gray('Create a network file in networks/<name>.json\n'));
+    return;
+  }
 
-    const walletConfig = loadWalletConfig(walletName);
+  // Configuration errors are reported per wallet or per pair, without querying anything
+  const walletErrors = new Map<string, WalletBalances>();
+  const results = new Map<string, WalletBalances>();
+  const wallets: WalletConfig[] = [];
+  for (const name of walletNames) {
+    try {
+      wallets.push(loadWalletConfig(name));
+    } catch (error) {
+      walletErrors.set(name, { wallet: name, balances: [], error: (error as Error).message });
+    }
+  }
+  const networks: NetworkConfig[] = [];
+  for (const name of networkNames) {
+    try {
+      networks.push(loadNetworkConfig(name));
+    } catch (error) {
+      for (const wallet of wallets) {
+        results.set(`${wallet.name}/${name}`, {
+          wallet: wallet.name,
+          network: name,
+          balances: [],
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
 
-    for (const networkName of networks) {
-      const spinner = ora(`  Loading ${networkName}...`).start();
+  const queries: BalanceQuery[] = wallets.flatMap(wallet => networks.map(network => ({ wallet, network })));
+  const spinner = startSpinner(`Loading balances (0/${queries.length})...`);
+  const fetched = await queryBalances(queries, {
+    concurrency,
+    timeout,
+    cache: maxAge > 0 ? new FileBalanceCache() : undefined,
+    maxAge,
+    onResult: (_, done, total) => {
+      spinner.text = `Loading balances (${done}/${total})...`;
+    },
+  });
+  spinner.stop();
+  for (const result of fetched) {
+    results.set(`${result.wallet}/${result.network}`, result);
+  }
 
-      try {
-        const networkConfig = loadNetworkConfig(networkName);
+  print(chalk.bold('\nWallet Balances\n'));
+  print(chalk.gray('─'.repeat(70)));
 
-        const config: VaultConfig = {
-          ...walletConfig,
-          network: networkConfig,
-        };
+  const networksByName = new Map(networks.map(n => [n.name, n]));
+  const ordered: WalletBalances[] = [];
+  for (const walletName of walletNames) {
+    print(chalk.bold.cyan(`\n  ${walletName}`));
 
-        const balanceList = await getVaultBalances(config);
+    const walletError = walletErrors.get(walletName);
+    if (walletError) {
+      print(chalk.red(`    Error: ${walletError.error}`));
+      ordered.push(walletError);
+      continue;
+    }
 
-        spinner.stop();
+    for (const networkName of networkNames) {
+      const result = results.get(`${walletName}/${networkName}`)!;
+      ordered.push(result);
 
-        console.log(chalk.white(`\n    ${networkName}:`));
+      const cached = result.cached ? chalk.gray(` (cached ${result.fetchedAt})`) : '';
+      print(chalk.white(`\n    ${networkName}:`) + cached);
 
-        if (balanceList.length === 0) {
-          console.log(chalk.gray('      No balances'));
-        } else {
-          for (const b of balanceList) {
-            let assetLabel = b.assetId.slice(0, 10) + '...';
-            if (b.assetId === networkConfig.assets.ETH) {
-              assetLabel = 'ETH';
-            } else if (b.assetId === networkConfig.assets.USDC) {
-              assetLabel = 'USDC';
-            }
-            console.log(chalk.gray(`      ${assetLabel}: ${b.amount}`));
-          }
+      const network = networksByName.get(networkName);
+      if (result.error || !network) {
+        print(chalk.red(`      Error: ${result.error}`));
+      } else if (result.balances.length === 0) {
+        print(chalk.gray('      No balances'));
+      } else {
+        for (const b of result.balances) {
+          print(chalk.gray(`      ${formatAssetAmount(network, b.assetId, b.amount)}`));
         }
-      } catch (error) {
-        spinner.stop();
-        console.log(chalk.white(`\n    ${networkName}:`));
-        console.log(chalk.red(`      Error: ${(error as Error).message}`));
       }
     }
   }
 
-  console.log(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+  print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+  printJson('balances', { balances: ordered });
+}
+
+/**
+ * Parses a positive integer option
+ * @param {string | undefined} value - Option value
+ * @param {string} option - Option name, for the error message
+ * @param {number} fallback - Value when the option is not given
+ * @returns {number} Parsed value
+ * @throws {VaultError} INVALID_INPUT if the value is not a positive integer
+ * @private
+ */
+function parseCount(value: string | undefined, option: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new VaultError(`${option} must be a positive integer, got "${value}"`, 'INVALID_INPUT');
+  }
+  return Number(value);
+}
+
+/**
+ * Parses a duration option in seconds
+ * @param {string | undefined} value - Option value
+ * @param {string} option - Option name, for the error message
+ * @param {number} fallback - Value when the option is not given
+ * @returns {number} Duration in seconds
+ * @throws {VaultError} INVALID_INPUT if the value is not a non-negative number
+ * @private
+ */
+function parseSeconds(value: string | undefined, option: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new VaultError(`${option} must be a number of seconds, got "${value}"`, 'INVALID_INPUT');
+  }
+  return Number(value);
 }
@@ -4,18 +4,19 @@
  */
 
 import chalk from 'chalk';
-import ora from 'ora';
-import inquirer from 'inquirer';
 import { readFileSync, existsSync } from 'fs';
-import {
-  loadWalletConfig,
-  loadNetworkConfig,
-  hasPendingTransaction,
-  deletePendingTransaction,
-  loadPendingTransaction,
-} from '../utils/config.js';
-import { createTransaction } from '../services/transaction.js';
-import type { TransactionInput, TransactionFile, VaultConfig } from '../types.js';
+import { shortTxId } from '../utils/pending.js';
+import { openVaultClient } from '../utils/client.js';
+import { printTransfers, printSimulation } from '../utils/display.js';
+import { readTransfersCsv } from '../utils/csv.js';
+import { formatAssetAmount } from '../utils/assets.js';
+import { AMOUNT_UNITS } from '../utils/amounts.js';
+import { resolveRecipient } from '../utils/address-book.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError, toVaultError } from '../utils/errors.js';
+import type { VaultClient, AssetBalance } from '../services/client.js';
+import type { SimulationResult } from '../services/simulate.js';
+import type { AmountUnits, TransactionInput, TransactionFile, TransferInput } from '../types.js';
 
 /**
  * Options for the create-tx command
@@ -26,14 +27,20 @@ interface CreateTxOptions {
   wallet?: string;
   /** Network name */
   network?: string;
-  /** Recipient address */
-  to?: string;
-  /** Amount to transfer (decimal string) */
-  amount?: string;
-  /** Asset ID (optional) */
-  asset?: string;
+  /** Recipient addresses or contact names (repeatable, one per transfer) */
+  to?: string[];
+  /** Amounts to transfer (repeatable, one per transfer) */
+  amount?: string[];
+  /** Asset symbols or IDs (optional; one for all transfers or one per transfer) */
+  asset?: string[];
   /** Path to JSON file with transaction details */
   file?: string;
+  /** Path to CSV file with transfers (recipient, amount, asset, memo) */
+  csv?: string;
+  /** Unit of the amounts: decimal or base (default: decimal, or the `units` of the JSON file) */
+  units?: string;
+  /** Dry-run the new transaction (default: true, disabled with --no-simulate) */
+  simulate?: boolean;
 }
 
 /**
@@ -42,114 +49,312 @@ interface CreateTxOptions {
  * @returns {Promise<void>}
  */
 export async function createTx(options: CreateTxOptions): Promise<void> {
-  // Check for existing pending transaction
-  if (hasPendingTransaction()) {
-    const pending = loadPendingTransaction();
-    console.log(chalk.yellow('\nThere is already a pending transaction:\n'));
-    console.log(chalk.gray(`  Wallet: ${pending.walletName}`));
-    console.log(chalk.gray(`  To: ${pending.transaction.to}`));
-    console.log(chalk.gray(`  Amount: ${pending.transaction.amount}`));
-    console.log(chalk.gray(`  Created: ${pending.createdAt}\n`));
-
-    const answer = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'replace',
-        message: 'Replace the pending transaction?',
-        default: false,
-      },
-    ]);
-
-    if (!answer.replace) {
-      console.log(chalk.gray('\nKeeping existing transaction. Use "bako-vault sign" to sign it.\n'));
-      return;
-    }
-
-    deletePendingTransaction();
-    console.log(chalk.gray('Previous transaction discarded.\n'));
-  }
-
   // Validate required options
   if (!options.wallet) {
-    console.log(chalk.red('\nError: --wallet (-w) is required\n'));
-    console.log(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
+    printError('create-tx', new VaultError('--wallet (-w) is required', 'INVALID_INPUT'));
+    print(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
     return;
   }
 
   if (!options.network) {
-    console.log(chalk.red('\nError: --network (-n) is required\n'));
-    console.log(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
+    printError('create-tx', new VaultError('--network (-n) is required', 'INVALID_INPUT'));
+    print(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
+    return;
+  }
+
+  let client: VaultClient;
+  let units: AmountUnits | undefined;
+  try {
+    units = parseUnitsOption(options.units);
+    client = openVaultClient(options.wallet, options.network);
+  } catch (error) {
+    printError('create-tx', error);
     return;
   }
 
   let txInput: TransactionInput;
 
   // Get transaction details
-  if (options.file) {
+  if (options.csv) {
+    try {
+      // CSV amounts are returned as decimal amounts
+      txInput = { transfers: await readCsvTransfers(options.csv, client, units) };
+    } catch (error) {
+      printError('create-tx', error, 'INVALID_INPUT');
+      return;
+    }
+  } else if (options.file) {
     if (!existsSync(options.file)) {
-      console.log(chalk.red(`\nError: File not found: ${options.file}\n`));
+      printError('create-tx', new VaultError(`File not found: ${options.file}`, 'INVALID_INPUT'));
       return;
     }
 
-    const content = readFileSync(options.file, 'utf-8');
-    const txFile = JSON.parse(content) as TransactionFile;
-
-    txInput = {
-      to: txFile.to,
-      amount: txFile.amount,
-      assetId: txFile.assetId,
-    };
-  } else if (options.to && options.amount) {
-    txInput = {
-      to: options.to,
-      amount: options.amount,
-      assetId: options.asset,
-    };
+    try {
+      const content = readFileSync(options.file, 'utf-8');
+      txInput = parseTransactionFile(JSON.parse(content));
+      txInput.units = units ?? txInput.units;
+    } catch (error) {
+      printError(
+        'create-tx',
+        new VaultError(`Invalid transaction file: ${(error as Error).message}`, 'INVALID_INPUT')
+      );
+      return;
+    }
+  } else if (options.to?.length && options.amount?.length) {
+    try {
+      txInput = { transfers: pairTransferFlags(options.to, options.amount, options.asset ?? []), units };
+    } catch (error) {
+      printError('create-tx', error);
+      return;
+    }
   } else {
-    console.log(chalk.red('\nError: --to (-t) and --amount (-a) are required\n'));
-    console.log(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
-    console.log(chalk.gray('   or: bako-vault create-tx -w <wallet> -n <network> -f <file.json>'));
+    printError('create-tx', new VaultError('--to (-t) and --amount (-a) are required', 'INVALID_INPUT'));
+    print(chalk.gray('Usage: bako-vault create-tx -w <wallet> -n <network> -t <to> -a <amount>'));
+    print(chalk.gray('   or: bako-vault create-tx -w <wallet> -n <network> -f <file.json>'));
+    print(chalk.gray('   or: bako-vault create-tx -w <wallet> -n <network> --csv <payroll.csv>'));
     return;
   }
 
-  const spinner = ora('Creating transaction...').start();
-
+  // Contact names become their address on the network; the pending transaction stores addresses
   try {
-    const walletConfig = loadWalletConfig(options.wallet);
-    const networkConfig = loadNetworkConfig(options.network);
+    const network = client.config.network.name;
+    txInput.transfers = txInput.transfers.map(t => ({ ...t, to: resolveRecipient(t.to, network) }));
+  } catch (error) {
+    printError('create-tx', error);
+    return;
+  }
 
-    const config: VaultConfig = {
-      ...walletConfig,
-      network: networkConfig,
-    };
+  const spinner = startSpinner('Creating transaction...');
 
-    const result = await createTransaction(config, txInput);
+  try {
+    const result = await client.createTransaction(txInput);
 
     spinner.stop();
 
-    console.log(chalk.bold.green('\nTransaction created!\n'));
-    console.log(chalk.gray('─'.repeat(70)));
+    // Preview only: the transaction is stored either way, a failed dry run is reported as a warning
+    let simulation: SimulationResult | undefined;
+    let simulationError: string | undefined;
+    if (options.simulate !== false) {
+      const simSpinner = startSpinner('Simulating transaction...');
+      try {
+        simulation = await client.simulate(result.pending);
+        simSpinner.stop();
+      } catch (error) {
+        simulationError = (error as Error).message;
+        simSpinner.warn(`Could not simulate the transaction: ${simulationError}`);
+      }
+    }
+
+    print(chalk.bold.green('\nTransaction created!\n'));
+    print(chalk.gray('─'.repeat(70)));
+
+    print(chalk.white('\n  Vault Address:'));
+    print(chalk.gray(`    ${result.vaultAddress}`));
+
+    // Stored transfers have asset IDs and exact decimal amounts
+    const { transfers } = result.pending.transaction;
 
-    console.log(chalk.white('\n  Vault Address:'));
-    console.log(chalk.gray(`    ${result.vaultAddress}`));
+    print(chalk.white('\n  Transaction Details:'));
+    printTransfers(transfers, client.config.network);
 
-    console.log(chalk.white('\n  Transaction Details:'));
-    console.log(chalk.gray(`    To: ${txInput.to}`));
-    console.log(chalk.gray(`    Amount: ${txInput.amount}`));
-    console.log(chalk.gray(`    Asset: ${txInput.assetId || 'ETH (default)'}`));
+    print(chalk.white('\n  Signatures Required:'));
+    print(chalk.yellow(`    ${result.signersRequired}`));
 
-    console.log(chalk.white('\n  Signatures Required:'));
-    console.log(chalk.yellow(`    ${result.signersRequired}`));
+    print(chalk.bold.white('\n  Hash to Sign:'));
+    print(chalk.cyan(`    ${result.hashTxId}`));
 
-    console.log(chalk.bold.white('\n  Hash to Sign:'));
-    console.log(chalk.cyan(`    ${result.hashTxId}`));
+    if (simulation) {
+      printSimulation(simulation, client.config.network);
+      if (!simulation.success) {
+        print(chalk.yellow('\n  Warning: the dry run reverts, this transaction would fail if sent.'));
+      }
+    }
+
+    print(chalk.gray('\n' + '─'.repeat(70)));
 
-    console.log(chalk.gray('\n' + '─'.repeat(70)));
+    print(chalk.white('\n  Next Step:'));
+    print(chalk.gray(`    Run: bako-vault sign ${shortTxId(result.hashTxId)}\n`));
 
-    console.log(chalk.white('\n  Next Step:'));
-    console.log(chalk.gray('    Run: bako-vault sign\n'));
+    printJson('create-tx', {
+      hashTxId: result.hashTxId,
+      wallet: options.wallet,
+      network: options.network,
+      vaultAddress: result.vaultAddress,
+      transfers,
+      requiredSignatures: result.signersRequired,
+      ...(simulation && { simulation }),
+      ...(simulationError && { simulationError }),
+    });
   } catch (error) {
     spinner.fail('Failed to create transaction');
-    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    printError('create-tx', error, 'NETWORK_ERROR');
   }
 }
+
+/**
+ * Checks the --units option
+ * @param {string} [value] - Option value
+ * @returns {AmountUnits | undefined} Units, or undefined if not given
+ * @throws {VaultError} INVALID_INPUT for an unknown unit
+ * @private
+ */
+function parseUnitsOption(value?: string): AmountUnits | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!AMOUNT_UNITS.includes(value as AmountUnits)) {
+    throw new VaultError(`--units must be one of ${AMOUNT_UNITS.join(', ')}, got "${value}"`, 'INVALID_INPUT');
+  }
+  return value as AmountUnits;
+}
+
+/**
+ * Extracts the transfers and the unit of their amounts from a parsed transaction file
+ * @param {TransactionFile | TransferInput[]} txFile - Parsed JSON file content
+ * @returns {TransactionInput} Transfers described by the file
+ * @throws {VaultError} If the file has no transfers, a transfer is incomplete or the units are unknown
+ * @private
+ */
+function parseTransactionFile(txFile: TransactionFile | TransferInput[]): TransactionInput {
+  let transfers: TransferInput[];
+
+  if (Array.isArray(txFile)) {
+    transfers = txFile;
+  } else if (Array.isArray(txFile.transfers)) {
+    transfers = txFile.transfers;
+  } else {
+    transfers = [{ to: txFile.to!, amount: txFile.amount!, assetId: txFile.assetId }];
+  }
+
+  if (transfers.length === 0) {
+    throw new VaultError('no transfers found', 'INVALID_INPUT');
+  }
+
+  const units = Array.isArray(txFile) ? undefined : txFile.units;
+  if (units !== undefined && !AMOUNT_UNITS.includes(units)) {
+    throw new VaultError(`"units" must be one of ${AMOUNT_UNITS.join(', ')}`, 'INVALID_INPUT');
+  }
+
+  return {
+    transfers: transfers.map((t, i) => {
+      if (!t || !t.to || !t.amount) {
+        throw new VaultError(`transfer ${i + 1} must have "to" and "amount"`, 'INVALID_INPUT');
+      }
+      return { to: t.to, amount: String(t.amount), assetId: t.assetId };
+    }),
+    units,
+  };
+}
+
+/**
+ * Pairs repeated --to/--amount/--asset flags into transfers.
+ * A single --asset applies to every transfer.
+ * @param {string[]} to - Recipient addresses or contact names
+ * @param {string[]} amount - Amounts
+ * @param {string[]} asset - Asset symbols or IDs (none, one, or one per transfer)
+ * @returns {TransferInput[]} Transfers in flag order
+ * @throws {VaultError} If the flag counts do not line up
+ * @private
+ */
+function pairTransferFlags(to: string[], amount: string[], asset: string[]): TransferInput[] {
+  if (to.length !== amount.length) {
+    throw new VaultError(
+      `Got ${to.length} --to and ${amount.length} --amount values, they must match`,
+      'INVALID_INPUT'
+    );
+  }
+
+  if (asset.length > 1 && asset.length !== to.length) {
+    throw new VaultError(
+      `Got ${asset.length} --asset values for ${to.length} transfers, use one or one per transfer`,
+      'INVALID_INPUT'
+    );
+  }
+
+  return to.map((address, i) => ({
+    to: address,
+    amount: amount[i],
+    assetId: asset.length > 1 ? asset[i] : asset[0],
+  }));
+}
+
+/**
+ * Reads a transfers CSV, reports every row error at once, and checks the
+ * per-asset totals against the vault balance
+ * @param {string} path - Path to the CSV file
+ * @param {VaultClient} client - Client of the vault
+ * @param {AmountUnits} [units] - Unit of the amount column (default: decimal)
+ * @returns {Promise<TransferInput[]>} Validated transfers, with decimal amounts
+ * @throws {VaultError} INVALID_INPUT if the file is missing, unreadable, not UTF-8 or has invalid rows,
+ *   NETWORK_ERROR if the balances cannot be loaded, INSUFFICIENT_BALANCE if they do not cover the totals
+ * @private
+ */
+async function readCsvTransfers(
+  path: string,
+  client: VaultClient,
+  units?: AmountUnits
+): Promise<TransferInput[]> {
+  if (!existsSync(path)) {
+    throw new VaultError(`File not found: ${path}`, 'INVALID_INPUT');
+  }
+
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(readFileSync(path));
+  } catch (error) {
+    const reason = error instanceof TypeError ? 'it is not UTF-8 text' : (error as Error).message;
+    throw new VaultError(`Cannot read ${path}: ${reason}`, 'INVALID_INPUT');
+  }
+
+  const spinner = startSpinner('Loading vault balances...');
+  let balances: AssetBalance[];
+  try {
+    balances = await client.getBalances();
+  } catch (error) {
+    throw toVaultError(error, 'NETWORK_ERROR');
+  } finally {
+    spinner.stop();
+  }
+
+  const { transfers, errors } = readTransfersCsv(
+    content,
+    client.config.network,
+    balances.map(b => b.assetId),
+    units
+  );
+
+  if (errors.length > 0) {
+    print(chalk.red(`\nFound ${errors.length} error(s) in ${path}:\n`));
+    for (const e of errors) {
+      print(chalk.red(`  Row ${e.row}: ${e.message}`));
+    }
+    throw new VaultError(
+      `${errors.length} invalid row(s) in ${path}, no transaction was created`,
+      'INVALID_INPUT',
+      { rows: errors }
+    );
+  }
+
+  const totals = await client.getTransferTotals(transfers, balances);
+
+  print(chalk.bold(`\nImported ${transfers.length} transfer(s) from ${path}\n`));
+  print(chalk.white('  Totals per Asset:'));
+  const { network } = client.config;
+  for (const t of totals) {
+    const status = t.sufficient ? chalk.green('OK') : chalk.red('INSUFFICIENT');
+    print(
+      chalk.gray(
+        `    ${formatAssetAmount(network, t.assetId, t.total)} in ${t.count} transfer(s), ` +
+          `balance ${formatAssetAmount(network, t.assetId, t.balance)} `
+      ) + status
+    );
+  }
+
+  if (totals.some(t => !t.sufficient)) {
+    throw new VaultError('The vault balance does not cover the totals above', 'INSUFFICIENT_BALANCE', {
+      totals,
+    });
+  }
+
+  return transfers;
+}
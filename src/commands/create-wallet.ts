@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Command to create a new vault configuration file
+ * @module commands/create-wallet
+ */
+
+import chalk from 'chalk';
+import { hexlify, randomBytes } from 'fuels';
+import {
+  buildWalletConfig,
+  saveWalletConfig,
+  listWalletFiles,
+  loadNetworkConfig,
+} from '../utils/config.js';
+import { PREDICATE_SIGNERS_LENGTH } from '../utils/schema.js';
+import { getVaultAddress } from '../services/vault.js';
+import { evmAddressToB256 } from '../services/signature.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { NetworkConfig, WalletConfig } from '../types.js';
+
+/** Wallet name format (it becomes a filename) */
+const WALLET_NAME_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/** EVM address format */
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Options for the create-wallet command
+ * @interface CreateWalletOptions
+ */
+interface CreateWalletOptions {
+  /** Signer addresses (Fuel B256 or EVM) */
+  signer: string[];
+  /** Number of signatures required */
+  threshold?: string;
+  /** Predicate version hash */
+  predicateVersion?: string;
+  /** Network used to build the predicate */
+  network?: string;
+  /** Predicate salt (default: random) */
+  hashPredicate?: string;
+  /** Overwrite an existing wallet file */
+  force?: boolean;
+}
+
+/**
+ * Creates `wallets/<name>.json` for a new vault from its signers, threshold and predicate version,
+ * and prints the vault address. SIGNERS is padded to the predicate's fixed length with zero addresses.
+ * @param {string | undefined} name - Wallet name
+ * @param {CreateWalletOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function createWallet(name: string | undefined, options: CreateWalletOptions): Promise<void> {
+  const { threshold, predicateVersion, network: networkName } = options;
+  if (!name || options.signer.length === 0 || !threshold || !predicateVersion || !networkName) {
+    printError(
+      'create-wallet',
+      new VaultError(
+        'wallet name, --signer (-s), --threshold (-t), --predicate-version and --network (-n) are required',
+        'INVALID_INPUT'
+      )
+    );
+    print(
+      chalk.gray(
+        'Usage: bako-vault create-wallet <name> -s <address> [-s <address>...] -t <n> ' +
+          '--predicate-version <hash> -n <network>'
+      )
+    );
+    return;
+  }
+
+  let wallet: WalletConfig;
+  let network: NetworkConfig;
+  try {
+    if (!WALLET_NAME_REGEX.test(name)) {
+      throw new VaultError(
+        `Invalid wallet name "${name}". Use letters, digits, - and _ only.`,
+        'INVALID_INPUT'
+      );
+    }
+    if (!options.force && listWalletFiles().includes(name)) {
+      throw new VaultError(
+        `Wallet "${name}" already exists at wallets/${name}.json. Use --force to overwrite it.`,
+        'INVALID_INPUT'
+      );
+    }
+    if (!/^\d+$/.test(threshold)) {
+      throw new VaultError(
+        `--threshold must be a positive integer, got "${threshold}"`,
+        'INVALID_INPUT'
+      );
+    }
+
+    wallet = buildWalletConfig(
+      name,
+      options.signer.map(toSignerAddress),
+      Number(threshold),
+      predicateVersion,
+      options.hashPredicate ?? hexlify(randomBytes(32))
+    );
+    network = loadNetworkConfig(networkName);
+  } catch (error) {
+    printError('create-wallet', error);
+    return;
+  }
+
+  const spinner = startSpinner('Computing vault address...');
+  let address: string;
+  try {
+    address = await getVaultAddress({ ...wallet, network });
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Could not build the vault predicate');
+    printError('create-wallet', error, 'INVALID_CONFIG');
+    print(chalk.gray('Check that the predicate version is one supported by the BakoSafe SDK.'));
+    return;
+  }
+
+  let path: string;
+  try {
+    path = saveWalletConfig({ ...wallet, address }, options.force);
+  } catch (error) {
+    printError('create-wallet', error);
+    return;
+  }
+
+  const signers = wallet.config.SIGNERS.slice(0, options.signer.length);
+
+  print(chalk.bold(`\nWallet Created: ${chalk.cyan(name)}\n`));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('  Address:'));
+  print(chalk.green(`    ${address}`));
+  print('');
+
+  print(chalk.white('  Predicate Version:'));
+  print(chalk.gray(`    ${wallet.version}`));
+  print('');
+
+  print(chalk.white(`  Signers (${signers.length} of ${PREDICATE_SIGNERS_LENGTH} slots):`));
+  signers.forEach((signer, i) => {
+    print(chalk.gray(`    ${i + 1}. ${signer}`));
+  });
+  print('');
+
+  print(chalk.white('  Required Signatures:'));
+  print(chalk.yellow(`    ${wallet.config.SIGNATURES_COUNT} of ${signers.length}`));
+  print('');
+
+  print(chalk.gray('─'.repeat(70)));
+  print(chalk.green(`Saved to ${path}`));
+  print(chalk.gray(`Check it with: bako-vault info ${name} -n ${networkName}\n`));
+
+  printJson('create-wallet', {
+    wallet: name,
+    network: networkName,
+    address,
+    signers,
+    signaturesRequired: wallet.config.SIGNATURES_COUNT,
+    version: wallet.version,
+    hashPredicate: wallet.config.HASH_PREDICATE,
+    path,
+  });
+}
+
+/**
+ * Converts a signer given on the command line to its SIGNERS form (EVM addresses are padded to B256)
+ * @param {string} address - Fuel B256 or EVM address
+ * @returns {string} B256 address
+ * @private
+ */
+function toSignerAddress(address: string): string {
+  return EVM_ADDRESS_REGEX.test(address) ? evmAddressToB256(address) : address;
+}
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Command to check wallet/network pairs: node reachability, chain ID, predicate version
+ * and vault address
+ * @module commands/doctor
+ */
+
+import chalk from 'chalk';
+import { listWalletFiles, listNetworkFiles, loadWalletConfig, loadNetworkConfig } from '../utils/config.js';
+import { checkNetwork, checkVault } from '../services/doctor.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { DoctorCheck, DoctorStatus } from '../services/doctor.js';
+import type { NetworkConfig, WalletConfig } from '../types.js';
+
+/** Display label of each check status */
+const STATUS_LABELS: Record<DoctorStatus, string> = {
+  pass: chalk.green('PASS'),
+  fail: chalk.red('FAIL'),
+  skip: chalk.gray('SKIP'),
+};
+
+/**
+ * Options for the doctor command
+ * @interface DoctorOptions
+ */
+interface DoctorOptions {
+  /** Only this wallet (default: all) */
+  wallet?: string;
+  /** Only this network (default: all) */
+  network?: string;
+}
+
+/**
+ * Report of one wallet on one network
+ * @interface PairReport
+ */
+interface PairReport {
+  /** Wallet name */
+  wallet: string;
+  /** Network name */
+  network: string;
+  /** Derived vault address, if it could be computed */
+  address?: string;
+  /** Whether no check failed */
+  ok: boolean;
+  /** Checks, in order: config, network, chainId, version, address */
+  checks: DoctorCheck[];
+}
+
+/**
+ * Checks every wallet/network pair (or the selected ones): the node answers and is on the
+ * configured chain, the predicate version is supported by the BakoSafe SDK, and the derived
+ * vault address matches the expected `address` of the wallet file. Prints a pass/fail report.
+ * @param {DoctorOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function doctor(options: DoctorOptions): Promise<void> {
+  let walletNames: string[];
+  let networkNames: string[];
+  try {
+    walletNames = options.wallet ? [options.wallet] : listWalletFiles();
+    networkNames = options.network ? [options.network] : listNetworkFiles();
+  } catch (error) {
+    printError('doctor', error);
+    return;
+  }
+
+  if (walletNames.length === 0 || networkNames.length === 0) {
+    printError(
+      'doctor',
+      new VaultError('Nothing to check: add files to wallets/ and networks/', 'INVALID_CONFIG')
+    );
+    return;
+  }
+
+  const spinner = startSpinner('Checking networks...');
+
+  // Each node is queried once, whatever the number of wallets
+  const networks = new Map<string, { config?: NetworkConfig; checks: DoctorCheck[] }>();
+  for (const name of networkNames) {
+    try {
+      const config = loadNetworkConfig(name);
+      spinner.text = `Checking network ${name}...`;
+      networks.set(name, { config, checks: await checkNetwork(config) });
+    } catch (error) {
+      networks.set(name, { checks: [configFailure(error)] });
+    }
+  }
+
+  const reports: PairReport[] = [];
+  for (const walletName of walletNames) {
+    let wallet: WalletConfig | undefined;
+    let walletError: DoctorCheck | undefined;
+    try {
+      wallet = loadWalletConfig(walletName);
+    } catch (error) {
+      walletError = configFailure(error);
+    }
+
+    for (const networkName of networkNames) {
+      const network = networks.get(networkName)!;
+      const checks = [...network.checks];
+      let address: string | undefined;
+      if (walletError) {
+        checks.unshift(walletError);
+      } else if (wallet && network.config) {
+        spinner.text = `Checking ${walletName} on ${networkName}...`;
+        const result = await checkVault({ ...wallet, network: network.config });
+        checks.push(...result.checks);
+        address = result.address;
+      }
+      reports.push({
+        wallet: walletName,
+        network: networkName,
+        address,
+        ok: checks.every(c => c.status !== 'fail'),
+        checks,
+      });
+    }
+  }
+
+  spinner.stop();
+
+  print(chalk.bold('\nConfig Doctor\n'));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const report of reports) {
+    const title = `${report.wallet} on ${report.network}`;
+    print(report.ok ? chalk.cyan(`  ${title}`) : chalk.red(`  ${title}`));
+    for (const check of report.checks) {
+      const name = chalk.white(check.name.padEnd(8));
+      print(`    ${STATUS_LABELS[check.status]}  ${name} ${chalk.gray(check.message)}`);
+    }
+    print('');
+  }
+
+  const failed = reports.filter(r => !r.ok);
+
+  print(chalk.gray('─'.repeat(70)));
+
+  if (failed.length > 0) {
+    // Configuration problems take precedence: they do not go away by retrying
+    const onlyNetwork = failed.every(r =>
+      r.checks.filter(c => c.status === 'fail').every(c => c.name === 'network')
+    );
+    printError(
+      'doctor',
+      new VaultError(
+        `${failed.length} of ${reports.length} wallet/network pair(s) failed`,
+        onlyNetwork ? 'NETWORK_ERROR' : 'INVALID_CONFIG',
+        { reports }
+      )
+    );
+    return;
+  }
+
+  print(chalk.green(`All ${reports.length} wallet/network pair(s) passed\n`));
+  printJson('doctor', { reports });
+}
+
+/**
+ * Turns a configuration loading error into a failed `config` check
+ * @param {unknown} error - Error thrown by a config loader
+ * @returns {DoctorCheck} Failed check
+ * @private
+ */
+function configFailure(error: unknown): DoctorCheck {
+  return { name: 'config', status: 'fail', message: (error as Error).message };
+}
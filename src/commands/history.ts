@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Command to show the local history of created, signed, sent and failed transactions
+ * @module commands/history
+ */
+
+import chalk from 'chalk';
+import { shortTxId } from '../utils/pending.js';
+import { getLedger } from '../utils/client.js';
+import { loadNetworkConfig } from '../utils/config.js';
+import { summarizeTransfers } from '../utils/display.js';
+import { printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import { parseDateOption } from '../utils/dates.js';
+import { buildHistory, filterHistory, HISTORY_STATUSES } from '../services/history.js';
+import type { HistoryFilter, HistoryRecord, HistoryStatus } from '../services/history.js';
+
+/** Explorer used when a network has no explorerUrl */
+const DEFAULT_EXPLORER_URL = 'https://app.fuel.network';
+
+/** Display color of each history status */
+const STATUS_COLORS: Record<HistoryStatus, (text: string) => string> = {
+  pending: chalk.yellow,
+  sent: chalk.green,
+  failed: chalk.red,
+  discarded: chalk.gray,
+};
+
+/**
+ * Options for the history command
+ * @interface HistoryOptions
+ */
+interface HistoryOptions {
+  /** Only transactions of this wallet */
+  wallet?: string;
+  /** Only transactions on this network */
+  network?: string;
+  /** Only transactions with this status */
+  status?: string;
+  /** Only transactions created on or after this date */
+  from?: string;
+  /** Only transactions created on or before this date */
+  to?: string;
+}
+
+/**
+ * Lists the transactions recorded in the local ledger, most recent first,
+ * with explorer links for the ones that were sent
+ * @param {HistoryOptions} options - Command options (filters)
+ * @returns {Promise<void>}
+ */
+export async function history(options: HistoryOptions): Promise<void> {
+  let filter: HistoryFilter;
+  let records: HistoryRecord[];
+  try {
+    filter = parseFilter(options);
+    records = filterHistory(buildHistory(await getLedger().list()), filter);
+  } catch (error) {
+    printError('history', error);
+    return;
+  }
+
+  const explorerUrls = new Map<string, string>();
+  const explorerLink = (record: HistoryRecord): string | undefined => {
+    if (!record.transactionId) {
+      return undefined;
+    }
+    if (!explorerUrls.has(record.network)) {
+      let explorerUrl = DEFAULT_EXPLORER_URL;
+      try {
+        explorerUrl = loadNetworkConfig(record.network).explorerUrl || DEFAULT_EXPLORER_URL;
+      } catch {
+        // The network file may have been removed since; fall back to the default explorer
+      }
+      explorerUrls.set(record.network, explorerUrl);
+    }
+    return `${explorerUrls.get(record.network)}/tx/${record.transactionId}`;
+  };
+
+  printJson('history', {
+    history: records.map(r => ({ ...r, explorerUrl: explorerLink(r) })),
+  });
+
+  if (records.length === 0) {
+    print(chalk.yellow('\nNo transactions in the history.'));
+    print(chalk.gray('Transactions are recorded when they are created, signed and sent.\n'));
+    return;
+  }
+
+  print(chalk.bold('\nTransaction History:\n'));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const r of records) {
+    print(`  ${chalk.cyan(shortTxId(r.hashTxId))}  ${STATUS_COLORS[r.status](r.status)}`);
+    print(chalk.gray(`    Wallet: ${r.wallet} (${r.network})`));
+    print(chalk.gray(`    Transfer: ${summarizeTransfers(r.transfers)}`));
+    print(chalk.gray(`    Signers: ${r.signers.length > 0 ? r.signers.join(', ') : 'none'}`));
+    print(chalk.gray(`    Created: ${r.createdAt}`));
+    if (r.updatedAt !== r.createdAt) {
+      print(chalk.gray(`    Updated: ${r.updatedAt}`));
+    }
+    if (r.rebuiltFrom) {
+      print(chalk.gray(`    Rebuilt From: ${shortTxId(r.rebuiltFrom)}`));
+    }
+    if (r.replacedBy) {
+      print(chalk.gray(`    Replaced By: ${shortTxId(r.replacedBy)}`));
+    }
+    if (r.error) {
+      print(chalk.red(`    Error: ${r.error}`));
+    }
+    if (r.transactionId) {
+      print(chalk.gray(`    Transaction ID: ${r.transactionId}`));
+      print(chalk.gray(`    View: ${explorerLink(r)}`));
+    }
+    print('');
+  }
+
+  print(chalk.gray('─'.repeat(70)));
+  print(chalk.gray(`Total: ${records.length} transaction(s)\n`));
+}
+
+/**
+ * Validates the filter options
+ * @param {HistoryOptions} options - Command options
+ * @returns {HistoryFilter} Parsed filter
+ * @throws {VaultError} INVALID_INPUT if the status or a date is invalid
+ * @private
+ */
+function parseFilter(options: HistoryOptions): HistoryFilter {
+  if (options.status && !HISTORY_STATUSES.includes(options.status as HistoryStatus)) {
+    throw new VaultError(
+      `Unknown status "${options.status}". Use ${HISTORY_STATUSES.join(', ')}.`,
+      'INVALID_INPUT'
+    );
+  }
+
+  return {
+    wallet: options.wallet,
+    network: options.network,
+    status: options.status as HistoryStatus | undefined,
+    from: options.from ? parseDateOption(options.from, '--from', false) : undefined,
+    to: options.to ? parseDateOption(options.to, '--to', true) : undefined,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Command to decode the transaction request of a pending transaction
+ * @module commands/inspect
+ */
+
+import chalk from 'chalk';
+import { bn } from 'fuels';
+import { openVaultClient } from '../utils/client.js';
+import { selectPendingTransaction } from '../utils/prompts.js';
+import { printJson, printError, print } from '../utils/output.js';
+import { assetDecimals } from '../utils/assets.js';
+import { formatAmount } from '../utils/amounts.js';
+import { contactLabels } from '../utils/address-book.js';
+import type { DecodedTransaction, DecodedInput, DecodedOutput } from '../services/inspect.js';
+import type { NetworkConfig, PendingTransaction } from '../types.js';
+
+/**
+ * Shows exactly what signers approve: the inputs, outputs, witnesses, gas limit,
+ * max fee and maturity of a pending transaction's stored request
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
+ * @returns {Promise<void>}
+ */
+export async function inspect(selector: string | undefined): Promise<void> {
+  let pending: PendingTransaction;
+  let network: NetworkConfig;
+  let decoded: DecodedTransaction;
+  try {
+    pending = await selectPendingTransaction(selector);
+    const client = openVaultClient(pending.walletName, pending.networkName);
+    network = client.config.network;
+    decoded = client.inspect(pending);
+  } catch (error) {
+    printError('inspect', error);
+    return;
+  }
+
+  // Predicate inputs are owned by the vault, so outputs back to it (e.g. change) are labeled,
+  // and so are addresses of the address book
+  const vaultOwners = new Set(decoded.inputs.filter(i => i.predicate).map(i => i.owner));
+  const contacts = contactLabels(network.name);
+  const addressLabel = (address?: string) => {
+    if (address && vaultOwners.has(address)) {
+      return `${address} ${chalk.cyan('(vault)')}`;
+    }
+    const contact = address && contacts.get(address.toLowerCase());
+    return contact ? `${address} ${chalk.cyan(`(${contact})`)}` : address;
+  };
+
+  print(chalk.bold('\nTransaction Request'));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${pending.walletName}`));
+  print(chalk.gray(`    Network: ${pending.networkName}`));
+  print(chalk.gray(`    Hash: ${pending.hashTxId}`));
+
+  print(chalk.white(`\n  Inputs (${decoded.inputs.length}):`));
+  for (const input of decoded.inputs) {
+    const unlock = input.predicate ? 'predicate' : `witness ${input.witnessIndex}`;
+    if (input.type === 'contract') {
+      print(chalk.gray(`    ${input.index}. contract ${input.contractId}`));
+      continue;
+    }
+    const amount = formatCoinAmount(input, network);
+    print(chalk.gray(`    ${input.index}. ${input.type} ${amount}`));
+    print(chalk.gray(`       Owner: ${addressLabel(input.owner)}`));
+    if (input.sender) {
+      print(chalk.gray(`       Sender: ${input.sender}`));
+    }
+    print(chalk.gray(`       ${input.type === 'coin' ? 'UTXO' : 'Nonce'}: ${input.id}`));
+    print(chalk.gray(`       Unlocked by: ${unlock}`));
+  }
+
+  print(chalk.white(`\n  Outputs (${decoded.outputs.length}):`));
+  for (const output of decoded.outputs) {
+    switch (output.type) {
+      case 'coin':
+        print(
+          chalk.gray(`    ${output.index}. coin ${formatCoinAmount(output, network)}`)
+        );
+        print(chalk.gray(`       To: ${addressLabel(output.to)}`));
+        break;
+      case 'change':
+      case 'variable':
+        print(
+          chalk.gray(`    ${output.index}. ${output.type} ${assetLabel(output.assetId, output.asset)}`)
+        );
+        print(chalk.gray(`       To: ${addressLabel(output.to)}`));
+        break;
+      case 'contract':
+        print(chalk.gray(`    ${output.index}. contract (input ${output.inputIndex})`));
+        break;
+      default:
+        print(chalk.gray(`    ${output.index}. contract created ${output.contractId}`));
+    }
+  }
+
+  print(chalk.white(`\n  Witnesses (${decoded.witnesses.length}):`));
+  if (decoded.witnesses.length === 0) {
+    print(chalk.gray('    None (signatures are attached when the transaction is sent)'));
+  }
+  for (const witness of decoded.witnesses) {
+    print(chalk.gray(`    ${witness.index}. ${witness.size} bytes`));
+  }
+
+  print(chalk.white('\n  Limits:'));
+  print(chalk.gray(`    Gas Limit: ${decoded.gasLimit}`));
+  print(chalk.gray(`    Max Fee: ${bn(decoded.maxFee).formatUnits()} (${decoded.maxFee} base units)`));
+  if (decoded.tip !== '0') {
+    print(chalk.gray(`    Tip: ${bn(decoded.tip).formatUnits()}`));
+  }
+  print(chalk.gray(`    Maturity: ${decoded.maturity === 0 ? 'none' : `block ${decoded.maturity}`}`));
+  if (decoded.expiration !== undefined) {
+    print(chalk.gray(`    Expiration: block ${decoded.expiration}`));
+  }
+  if (decoded.witnessLimit !== undefined) {
+    print(chalk.gray(`    Witness Limit: ${decoded.witnessLimit} bytes`));
+  }
+  print(chalk.gray(`    Script: ${decoded.scriptSize} bytes, data ${decoded.scriptDataSize} bytes`));
+
+  print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+  printJson('inspect', {
+    hashTxId: pending.hashTxId,
+    wallet: pending.walletName,
+    network: pending.networkName,
+    ...decoded,
+  });
+}
+
+/**
+ * Formats an asset for display: its symbol, or the shortened asset ID
+ * @param {string} [assetId] - Asset ID
+ * @param {string} [symbol] - Symbol from the network config
+ * @returns {string} Display label
+ * @private
+ */
+function assetLabel(assetId?: string, symbol?: string): string {
+  if (symbol) {
+    return symbol;
+  }
+  return assetId ? `${assetId.slice(0, 10)}...` : 'any asset';
+}
+
+/**
+ * Formats the amount of a coin input or output with its asset, in the decimals of the network's registry
+ * @param {DecodedInput | DecodedOutput} coin - Decoded coin (amount in base units, asset ID and symbol)
+ * @param {NetworkConfig} network - Network configuration
+ * @returns {string} Display text like "0.001 ETH"
+ * @private
+ */
+function formatCoinAmount(coin: DecodedInput | DecodedOutput, network: NetworkConfig): string {
+  const decimals = assetDecimals(network, coin.assetId);
+  return `${formatAmount(coin.amount ?? 0, decimals)} ${assetLabel(coin.assetId, coin.asset)}`;
+}
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Commands to manage signer keys in the encrypted local keystore
+ * @module commands/keys
+ */
+
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { Wallet } from 'fuels';
+import { listKeys, loadKey, saveKey, unlockKey, removeKey } from '../utils/keystore.js';
+import {
+  promptNewPassphrase,
+  promptPassphrase,
+  promptPrivateKey,
+  selectMnemonicAccount,
+  confirmAction,
+} from '../utils/prompts.js';
+import { listWalletFiles, loadWalletConfig } from '../utils/config.js';
+import { getVaultSigners } from '../services/signature.js';
+import { printJson, printError, isJsonMode, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { MnemonicOptions } from '../utils/mnemonic.js';
+import type { StoredKey, StoredKeyKind } from '../types.js';
+
+/**
+ * Options for keys import and keys generate
+ * @interface KeyTypeOptions
+ */
+interface KeyTypeOptions {
+  /** Key type: fuel or evm (default: fuel) */
+  type?: string;
+  /** File containing the passphrase to encrypt the key with */
+  passphraseFile?: string;
+}
+
+/**
+ * Options for keys import
+ * @interface KeyImportOptions
+ */
+interface KeyImportOptions extends KeyTypeOptions, MnemonicOptions {
+  /** Derive the key from a mnemonic (prompted) instead of a private key */
+  mnemonic?: boolean;
+  /** File containing the mnemonic (implies --mnemonic) */
+  mnemonicFile?: string;
+  /** File containing the private key to import */
+  pkFile?: string;
+}
+
+/**
+ * Options for keys export
+ * @interface KeyExportOptions
+ */
+interface KeyExportOptions {
+  /** Reveal the decrypted private key instead of the encrypted keystore */
+  privateKey?: boolean;
+  /** Write the output to a file instead of the console */
+  output?: string;
+  /** File containing the passphrase of the key (with --private-key) */
+  passphraseFile?: string;
+}
+
+/**
+ * Parses the key type option
+ * @param {string} [type] - Key type option
+ * @returns {StoredKeyKind} Key kind (default: fuel)
+ * @throws {VaultError} If the type is neither fuel nor evm
+ * @private
+ */
+function parseKeyType(type?: string): StoredKeyKind {
+  if (type === undefined || type === 'fuel' || type === 'evm') {
+    return type ?? 'fuel';
+  }
+  throw new VaultError(`Unknown key type "${type}". Use fuel or evm.`, 'INVALID_INPUT');
+}
+
+/**
+ * Collects the signers of all configured wallets
+ * @returns {Map<string, string>} Signer address (lowercase) mapped to the wallet names it signs for
+ * @private
+ */
+function knownSigners(): Map<string, string> {
+  const signers = new Map<string, string>();
+  for (const name of listWalletFiles()) {
+    try {
+      for (const signer of getVaultSigners(loadWalletConfig(name))) {
+        const wallets = signers.get(signer);
+        signers.set(signer, wallets ? `${wallets}, ${name}` : `signer of ${name}`);
+      }
+    } catch {
+      // Invalid wallet configs are reported by list-wallets
+    }
+  }
+  return signers;
+}
+
+/**
+ * Summarizes a stored key for JSON output (without the encrypted keystore)
+ * @param {StoredKey} key - Stored key
+ * @returns {Omit<StoredKey, 'keystore'>} Key summary
+ * @private
+ */
+function keySummary(key: StoredKey): Omit<StoredKey, 'keystore'> {
+  const { keystore: _keystore, ...summary } = key;
+  return summary;
+}
+
+/**
+ * Prints the summary of a stored key
+ * @param {StoredKey} key - Stored key
+ * @private
+ */
+function printKey(key: StoredKey): void {
+  print(chalk.cyan(`  ${key.alias}`));
+  print(chalk.gray(`    Type: ${key.kind}`));
+  print(chalk.gray(`    Signer: ${key.signer}`));
+  if (key.derivationPath) {
+    print(chalk.gray(`    Path: ${key.derivationPath}`));
+  }
+  print(chalk.gray(`    Created: ${key.createdAt}`));
+}
+
+/**
+ * Imports an existing private key into the keystore, or a key derived from a mnemonic.
+ * With a mnemonic, the derived address that signs for a configured wallet is selected automatically.
+ * @param {string} alias - Alias to store the key under
+ * @param {KeyImportOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function keysImport(alias: string, options: KeyImportOptions): Promise<void> {
+  try {
+    const kind = parseKeyType(options.type);
+
+    if (options.mnemonic || options.mnemonicFile) {
+      if (kind !== 'fuel') {
+        throw new VaultError(
+          '--mnemonic derives Fuel keys and cannot be combined with --type ' + kind,
+          'INVALID_INPUT'
+        );
+      }
+      const account = await selectMnemonicAccount(options, knownSigners(), options.mnemonicFile);
+      const passphrase = await promptNewPassphrase(options.passphraseFile);
+      const key = await saveKey(alias, kind, account.privateKey, passphrase, account.path);
+
+      print(chalk.bold.green('\nKey imported!\n'));
+      printKey(key);
+      print(chalk.gray(`\n  Sign with: bako-vault sign --key ${key.alias}\n`));
+      printJson('keys import', { key: keySummary(key) });
+      return;
+    }
+
+    const privateKey = await promptPrivateKey(
+      `Private key to import (${kind === 'evm' ? 'EVM' : 'Fuel'}, 0x...):`,
+      options.pkFile
+    );
+    const passphrase = await promptNewPassphrase(options.passphraseFile);
+    const key = await saveKey(alias, kind, privateKey, passphrase);
+
+    print(chalk.bold.green('\nKey imported!\n'));
+    printKey(key);
+    print(chalk.gray(`\n  Sign with: bako-vault sign --key ${key.alias}\n`));
+    printJson('keys import', { key: keySummary(key) });
+  } catch (error) {
+    printError('keys import', error);
+  }
+}
+
+/**
+ * Generates a new private key and stores it in the keystore
+ * @param {string} alias - Alias to store the key under
+ * @param {KeyTypeOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function keysGenerate(alias: string, options: KeyTypeOptions): Promise<void> {
+  try {
+    const kind = parseKeyType(options.type);
+    const passphrase = await promptNewPassphrase(options.passphraseFile);
+    const key = await saveKey(alias, kind, Wallet.generate().privateKey, passphrase);
+
+    print(chalk.bold.green('\nKey generated!\n'));
+    printKey(key);
+    print(chalk.yellow('\n  Add the signer address to a vault to use this key.'));
+    print(chalk.yellow('  Back up the key with "bako-vault keys export" - it cannot be recovered otherwise.\n'));
+    printJson('keys generate', { key: keySummary(key) });
+  } catch (error) {
+    printError('keys generate', error);
+  }
+}
+
+/**
+ * Lists all keys in the keystore
+ * @returns {Promise<void>}
+ */
+export async function keysList(): Promise<void> {
+  let keys: StoredKey[];
+  try {
+    keys = listKeys();
+  } catch (error) {
+    printError('keys list', error);
+    return;
+  }
+  printJson('keys list', { keys: keys.map(keySummary) });
+
+  if (keys.length === 0) {
+    print(chalk.yellow('\nNo keys stored.'));
+    print(chalk.gray('Import one with: bako-vault keys import <alias>\n'));
+    return;
+  }
+
+  print(chalk.bold('\nStored Keys:\n'));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const key of keys) {
+    printKey(key);
+    print('');
+  }
+
+  print(chalk.gray('─'.repeat(70)));
+  print(chalk.gray(`Total: ${keys.length} key(s)\n`));
+}
+
+/**
+ * Removes a key from the keystore after confirmation
+ * @param {string} alias - Key alias
+ * @returns {Promise<void>}
+ */
+export async function keysRemove(alias: string): Promise<void> {
+  let key: StoredKey;
+  try {
+    key = loadKey(alias);
+  } catch (error) {
+    printError('keys remove', error);
+    return;
+  }
+
+  print('');
+  printKey(key);
+  print('');
+
+  let remove: boolean;
+  try {
+    remove = await confirmAction(`Remove key "${alias}"? Without a backup it cannot be recovered.`, false);
+  } catch (error) {
+    printError('keys remove', error);
+    return;
+  }
+
+  if (remove) {
+    removeKey(alias);
+    print(chalk.gray('\nKey removed.\n'));
+  } else {
+    print(chalk.gray('\nKeeping key.\n'));
+  }
+
+  printJson('keys remove', { alias, removed: remove });
+}
+
+/**
+ * Exports a key as its encrypted keystore JSON, or as the raw private key
+ * @param {string} alias - Key alias
+ * @param {KeyExportOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function keysExport(alias: string, options: KeyExportOptions): Promise<void> {
+  try {
+    const key = loadKey(alias);
+
+    let output: string;
+    if (options.privateKey) {
+      if (!(await confirmAction('This reveals the unencrypted private key. Continue?', false))) {
+        throw new VaultError('Export cancelled', 'CANCELLED');
+      }
+      output = await unlockKey(key, await promptPassphrase(alias, options.passphraseFile));
+    } else {
+      output = JSON.stringify(key.keystore, null, 2);
+    }
+
+    if (options.output) {
+      writeFileSync(options.output, output + '\n', { mode: 0o600 });
+      print(chalk.green(`\nKey "${alias}" exported to ${options.output}\n`));
+    } else if (!isJsonMode()) {
+      print(`\n${output}\n`);
+    }
+
+    printJson('keys export', {
+      alias,
+      ...(options.output
+        ? { output: options.output }
+        : options.privateKey
+          ? { privateKey: output }
+          : { keystore: key.keystore }),
+    });
+  } catch (error) {
+    printError('keys export', error);
+  }
+}
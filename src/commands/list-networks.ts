@@ -5,6 +5,9 @@
 
 import chalk from 'chalk';
 import { listNetworkFiles, loadNetworkConfig } from '../utils/config.js';
+import { issuesOf } from '../utils/schema.js';
+import { listAssets } from '../utils/assets.js';
+import { printJson, print } from '../utils/output.js';
 
 /**
  * Lists all configured networks with their basic information
@@ -12,36 +15,49 @@ import { listNetworkFiles, loadNetworkConfig } from '../utils/config.js';
  */
 export async function listNetworks(): Promise<void> {
   const networks = listNetworkFiles();
+  const entries: Record<string, unknown>[] = [];
 
   if (networks.length === 0) {
-    console.log(chalk.yellow('\nNo networks found.'));
-    console.log(chalk.gray('Create a network config file in the networks/ directory.'));
-    console.log(chalk.gray('Example: networks/mainnet.json\n'));
+    print(chalk.yellow('\nNo networks found.'));
+    print(chalk.gray('Create a network config file in the networks/ directory.'));
+    print(chalk.gray('Example: networks/mainnet.json\n'));
+    printJson('list-networks', { networks: entries });
     return;
   }
 
-  console.log(chalk.bold('\nConfigured Networks:\n'));
-  console.log(chalk.gray('─'.repeat(60)));
+  print(chalk.bold('\nConfigured Networks:\n'));
+  print(chalk.gray('─'.repeat(60)));
 
   for (const name of networks) {
     try {
       const config = loadNetworkConfig(name);
-      console.log(chalk.cyan(`  ${name}`));
-      console.log(chalk.gray(`    URL: ${config.url}`));
+      print(chalk.cyan(`  ${name}`));
+      print(chalk.gray(`    URL: ${config.url}`));
+      for (const url of config.fallbackUrls ?? []) {
+        print(chalk.gray(`    Fallback: ${url}`));
+      }
       if (config.explorerUrl) {
-        console.log(chalk.gray(`    Explorer: ${config.explorerUrl}`));
+        print(chalk.gray(`    Explorer: ${config.explorerUrl}`));
+      }
+      for (const asset of listAssets(config)) {
+        const details = [asset.name, `${asset.decimals} decimals`].filter(Boolean).join(', ');
+        print(chalk.gray(`    ${asset.symbol}: ${asset.assetId.slice(0, 10)}... (${details})`));
       }
-      console.log(chalk.gray(`    ETH: ${config.assets.ETH.slice(0, 10)}...`));
-      if (config.assets.USDC) {
-        console.log(chalk.gray(`    USDC: ${config.assets.USDC.slice(0, 10)}...`));
+      print('');
+      entries.push({ valid: true, ...config });
+    } catch (error) {
+      const issues = issuesOf(error);
+      print(chalk.red(`  ${name} (invalid config)`));
+      for (const issue of issues) {
+        print(chalk.red(`    ${issue.path ? `${issue.path}: ` : ''}${issue.message}`));
       }
-      console.log('');
-    } catch {
-      console.log(chalk.red(`  ${name} (invalid config)`));
-      console.log('');
+      print('');
+      entries.push({ name, valid: false, error: (error as Error).message, issues });
     }
   }
 
-  console.log(chalk.gray('─'.repeat(60)));
-  console.log(chalk.gray(`Total: ${networks.length} network(s)\n`));
+  print(chalk.gray('─'.repeat(60)));
+  print(chalk.gray(`Total: ${networks.length} network(s)\n`));
+
+  printJson('list-networks', { networks: entries });
 }
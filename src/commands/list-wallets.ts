@@ -5,6 +5,8 @@
 
 import chalk from 'chalk';
 import { listWalletFiles, loadWalletConfig } from '../utils/config.js';
+import { issuesOf } from '../utils/schema.js';
+import { printJson, print } from '../utils/output.js';
 
 /**
  * Lists all configured wallets with their basic information
@@ -12,16 +14,18 @@ import { listWalletFiles, loadWalletConfig } from '../utils/config.js';
  */
 export async function listWallets(): Promise<void> {
   const wallets = listWalletFiles();
+  const entries: Record<string, unknown>[] = [];
 
   if (wallets.length === 0) {
-    console.log(chalk.yellow('\nNo wallets found.'));
-    console.log(chalk.gray('Create a wallet config file in the wallets/ directory.'));
-    console.log(chalk.gray('Example: wallets/my-vault.json\n'));
+    print(chalk.yellow('\nNo wallets found.'));
+    print(chalk.gray('Create a wallet config file in the wallets/ directory.'));
+    print(chalk.gray('Example: wallets/my-vault.json\n'));
+    printJson('list-wallets', { wallets: entries });
     return;
   }
 
-  console.log(chalk.bold('\nConfigured Wallets:\n'));
-  console.log(chalk.gray('─'.repeat(60)));
+  print(chalk.bold('\nConfigured Wallets:\n'));
+  print(chalk.gray('─'.repeat(60)));
 
   for (const name of wallets) {
     try {
@@ -29,17 +33,31 @@ export async function listWallets(): Promise<void> {
       const validSigners = config.config.SIGNERS.filter(
         s => s !== '0x0000000000000000000000000000000000000000000000000000000000000000'
       );
-      console.log(chalk.cyan(`  ${name}`));
-      console.log(chalk.gray(`    Signers: ${validSigners.length}`));
-      console.log(chalk.gray(`    Required: ${config.config.SIGNATURES_COUNT} signature(s)`));
-      console.log(chalk.gray(`    Version: ${config.version.slice(0, 10)}...`));
-      console.log('');
-    } catch {
-      console.log(chalk.red(`  ${name} (invalid config)`));
-      console.log('');
+      print(chalk.cyan(`  ${name}`));
+      print(chalk.gray(`    Signers: ${validSigners.length}`));
+      print(chalk.gray(`    Required: ${config.config.SIGNATURES_COUNT} signature(s)`));
+      print(chalk.gray(`    Version: ${config.version.slice(0, 10)}...`));
+      print('');
+      entries.push({
+        name,
+        valid: true,
+        signers: validSigners,
+        signaturesRequired: config.config.SIGNATURES_COUNT,
+        version: config.version,
+      });
+    } catch (error) {
+      const issues = issuesOf(error);
+      print(chalk.red(`  ${name} (invalid config)`));
+      for (const issue of issues) {
+        print(chalk.red(`    ${issue.path ? `${issue.path}: ` : ''}${issue.message}`));
+      }
+      print('');
+      entries.push({ name, valid: false, error: (error as Error).message, issues });
     }
   }
 
-  console.log(chalk.gray('─'.repeat(60)));
-  console.log(chalk.gray(`Total: ${wallets.length} wallet(s)\n`));
+  print(chalk.gray('─'.repeat(60)));
+  print(chalk.gray(`Total: ${wallets.length} wallet(s)\n`));
+
+  printJson('list-wallets', { wallets: entries });
 }
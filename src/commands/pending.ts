@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Command to list, show and discard pending transactions
+ * @module commands/pending
+ */
+
+import chalk from 'chalk';
+import { shortTxId } from '../utils/pending.js';
+import { ledgerEntry } from '../utils/ledger.js';
+import { getPendingStore, getLedger, openVaultClient } from '../utils/client.js';
+import { printTransfers, printStaleness, summarizeTransfers } from '../utils/display.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { confirmAction, selectPendingTransaction } from '../utils/prompts.js';
+import { VaultError } from '../utils/errors.js';
+import type { StalenessCheck } from '../services/staleness.js';
+import type { ProviderOptions } from '../services/vault.js';
+import type { PendingTransaction } from '../types.js';
+
+/** Node limits of the staleness checks: an unreachable node must not hold up the listing */
+const STALENESS_CHECK_OPTIONS: ProviderOptions = { timeout: 5_000, retries: 0 };
+
+/**
+ * Options for the pending command
+ * @interface PendingOptions
+ */
+interface PendingOptions {
+  /** Discard the selected pending transaction */
+  discard?: boolean;
+}
+
+/**
+ * Lists all pending transactions, or shows/discards the one matching the selector
+ * @param {string} [selector] - Pending transaction hash or unique prefix
+ * @param {PendingOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function pending(selector: string | undefined, options: PendingOptions): Promise<void> {
+  if (!selector) {
+    if (options.discard) {
+      printError('pending', new VaultError('a transaction id is required to discard', 'INVALID_INPUT'));
+      print(chalk.gray('Usage: bako-vault pending <tx> --discard'));
+      return;
+    }
+    await listPending();
+    return;
+  }
+
+  let tx: PendingTransaction;
+  try {
+    tx = await selectPendingTransaction(selector);
+  } catch (error) {
+    printError('pending', error);
+    return;
+  }
+
+  const staleness = await checkPendingStaleness([tx]);
+  showPending(tx, staleness.get(tx.hashTxId)!);
+
+  if (!options.discard) {
+    const check = staleness.get(tx.hashTxId);
+    printJson('pending', { transaction: tx, staleness: check instanceof Error ? undefined : check });
+    return;
+  }
+
+  let discard: boolean;
+  try {
+    discard = await confirmAction(
+      'Discard this pending transaction? Collected signatures will be lost.',
+      false
+    );
+  } catch (error) {
+    printError('pending', error);
+    return;
+  }
+
+  if (discard) {
+    await getPendingStore().delete(tx.hashTxId);
+    await getLedger().append(ledgerEntry('discarded', tx));
+    print(chalk.gray('\nPending transaction discarded.\n'));
+  } else {
+    print(chalk.gray('\nKeeping pending transaction.\n'));
+  }
+
+  printJson('pending', { hashTxId: tx.hashTxId, discarded: discard });
+}
+
+/**
+ * Prints a summary line for every pending transaction
+ * @returns {Promise<void>}
+ * @private
+ */
+async function listPending(): Promise<void> {
+  let all: PendingTransaction[];
+  try {
+    all = await getPendingStore().list();
+  } catch (error) {
+    printError('pending', error);
+    return;
+  }
+  const staleness = await checkPendingStaleness(all);
+
+  printJson('pending', {
+    pending: all.map(tx => {
+      const check = staleness.get(tx.hashTxId);
+      return {
+        hashTxId: tx.hashTxId,
+        wallet: tx.walletName,
+        network: tx.networkName,
+        transfers: tx.transaction.transfers,
+        signers: countSigners(tx),
+        requiredSignatures: tx.requiredSignatures,
+        createdAt: tx.createdAt,
+        stale: check instanceof Error ? undefined : check?.stale,
+        ...(tx.rebuiltFrom && { rebuiltFrom: tx.rebuiltFrom }),
+      };
+    }),
+  });
+
+  if (all.length === 0) {
+    print(chalk.yellow('\nNo pending transactions.'));
+    print(chalk.gray('Create one with: bako-vault create-tx\n'));
+    return;
+  }
+
+  print(chalk.bold('\nPending Transactions:\n'));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const tx of all) {
+    const signers = countSigners(tx);
+    print(chalk.cyan(`  ${shortTxId(tx.hashTxId)}`));
+    print(chalk.gray(`    Wallet: ${tx.walletName} (${tx.networkName})`));
+    print(chalk.gray(`    Transfer: ${summarizeTransfers(tx.transaction.transfers)}`));
+    print(chalk.gray(`    Signatures: ${signers ?? '?'} of ${tx.requiredSignatures}`));
+    print(chalk.gray(`    Created: ${tx.createdAt}`));
+    const check = staleness.get(tx.hashTxId);
+    if (check instanceof Error) {
+      print(chalk.yellow(`    Inputs: could not be checked (${check.message})`));
+    } else if (check?.stale) {
+      print(chalk.red(`    Inputs: STALE, rebuild with: bako-vault rebuild ${shortTxId(tx.hashTxId)}`));
+    } else {
+      print(chalk.gray('    Inputs: unspent'));
+    }
+    print('');
+  }
+
+  print(chalk.gray('─'.repeat(70)));
+  print(chalk.gray(`Total: ${all.length} pending transaction(s)\n`));
+}
+
+/**
+ * Counts the vault members with a verified signature on a pending transaction, as send-tx does
+ * @param {PendingTransaction} tx - Pending transaction
+ * @returns {number | undefined} Verified signers, or undefined if the vault configuration cannot be loaded
+ * @private
+ */
+function countSigners(tx: PendingTransaction): number | undefined {
+  try {
+    return openVaultClient(tx.walletName, tx.networkName).countVerifiedSigners(tx);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks concurrently whether the vault inputs of pending transactions are still unspent,
+ * with a short timeout and no retries
+ * @param {PendingTransaction[]} transactions - Pending transactions to check
+ * @returns {Promise<Map<string, StalenessCheck | Error>>} Check result, or the error, per hashTxId
+ * @private
+ */
+async function checkPendingStaleness(
+  transactions: PendingTransaction[]
+): Promise<Map<string, StalenessCheck | Error>> {
+  const results = new Map<string, StalenessCheck | Error>();
+  if (transactions.length === 0) {
+    return results;
+  }
+
+  const spinner = startSpinner('Checking transaction inputs...');
+  await Promise.all(
+    transactions.map(async tx => {
+      try {
+        const client = openVaultClient(tx.walletName, tx.networkName);
+        results.set(tx.hashTxId, await client.checkStaleness(tx, STALENESS_CHECK_OPTIONS));
+      } catch (error) {
+        results.set(tx.hashTxId, error as Error);
+      }
+    })
+  );
+  spinner.stop();
+
+  return results;
+}
+
+/**
+ * Prints the details of one pending transaction
+ * @param {PendingTransaction} tx - Pending transaction to show
+ * @param {StalenessCheck | Error} staleness - Staleness check result, or the error that prevented it
+ * @private
+ */
+function showPending(tx: PendingTransaction, staleness: StalenessCheck | Error): void {
+  print(chalk.bold('\nPending Transaction'));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${tx.walletName}`));
+  print(chalk.gray(`    Network: ${tx.networkName}`));
+  print(chalk.gray(`    Created: ${tx.createdAt}`));
+  if (tx.rebuiltFrom) {
+    print(chalk.gray(`    Rebuilt From: ${tx.rebuiltFrom}`));
+  }
+  printTransfers(tx.transaction.transfers);
+
+  print(chalk.white('\n  Hash:'));
+  print(chalk.cyan(`    ${tx.hashTxId}`));
+
+  const signers = countSigners(tx);
+  print(chalk.white(`\n  Signatures (${signers ?? '?'} verified of ${tx.requiredSignatures}):`));
+  if (tx.signatures.length === 0) {
+    print(chalk.gray('    None yet'));
+  } else {
+    tx.signatures.forEach((s, i) => {
+      print(chalk.gray(`    ${i + 1}. ${s.signer}`));
+    });
+  }
+
+  if (staleness instanceof Error) {
+    print(chalk.white('\n  Inputs:'));
+    print(chalk.yellow(`    Could not be checked (${staleness.message})`));
+  } else {
+    printStaleness(staleness);
+    if (staleness.stale) {
+      print(chalk.gray(`    Rebuild with: bako-vault rebuild ${shortTxId(tx.hashTxId)}`));
+    }
+  }
+
+  print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+}
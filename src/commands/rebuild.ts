@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Command to re-create a stale pending transaction with fresh inputs
+ * @module commands/rebuild
+ */
+
+import chalk from 'chalk';
+import { shortTxId } from '../utils/pending.js';
+import { openVaultClient } from '../utils/client.js';
+import { selectPendingTransaction, confirmAction } from '../utils/prompts.js';
+import { printTransfers, printStaleness } from '../utils/display.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { VaultClient } from '../services/client.js';
+import type { StalenessCheck } from '../services/staleness.js';
+import type { PendingTransaction } from '../types.js';
+
+/**
+ * Options for the rebuild command
+ * @interface RebuildOptions
+ */
+interface RebuildOptions {
+  /** Rebuild even if the inputs are still unspent */
+  force?: boolean;
+}
+
+/**
+ * Re-creates the transfers of a pending transaction with fresh vault inputs and
+ * replaces it. The new transaction has a new hash, so the signatures collected
+ * for the old one are invalidated and every signer must sign again.
+ * Refuses to replace a transaction whose inputs are still unspent unless --force is given.
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
+ * @param {RebuildOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function rebuild(selector: string | undefined, options: RebuildOptions): Promise<void> {
+  let pending: PendingTransaction;
+  let client: VaultClient;
+  try {
+    pending = await selectPendingTransaction(selector);
+    client = openVaultClient(pending.walletName, pending.networkName);
+  } catch (error) {
+    printError('rebuild', error);
+    return;
+  }
+
+  const checkSpinner = startSpinner('Checking transaction inputs...');
+  let check: StalenessCheck;
+  try {
+    check = await client.checkStaleness(pending);
+    checkSpinner.stop();
+  } catch (error) {
+    checkSpinner.fail('Could not check the transaction inputs');
+    printError('rebuild', error, 'NETWORK_ERROR');
+    return;
+  }
+
+  const signers = [...new Set(pending.signatures.map(s => s.signer))];
+
+  print(chalk.bold('\nPending Transaction'));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${pending.walletName}`));
+  print(chalk.gray(`    Network: ${pending.networkName}`));
+  print(chalk.gray(`    Hash: ${pending.hashTxId}`));
+  printTransfers(pending.transaction.transfers, client.config.network);
+  printStaleness(check);
+
+  print(chalk.white(`\n  Collected Signatures (${signers.length} of ${pending.requiredSignatures}):`));
+  if (signers.length === 0) {
+    print(chalk.gray('    None yet'));
+  }
+  for (const signer of signers) {
+    print(chalk.gray(`    ${signer}`));
+  }
+
+  print(chalk.gray('\n' + '─'.repeat(70)));
+
+  if (!check.stale && !options.force) {
+    printError(
+      'rebuild',
+      new VaultError('The transaction inputs are still unspent, it does not need a rebuild', 'INVALID_INPUT')
+    );
+    print(chalk.gray(`Rebuild anyway with: bako-vault rebuild ${shortTxId(pending.hashTxId)} --force\n`));
+    return;
+  }
+
+  const warning =
+    signers.length > 0
+      ? `Rebuild this transaction? The ${signers.length} collected signature(s) will be invalidated.`
+      : 'Rebuild this transaction?';
+  try {
+    if (!(await confirmAction(warning, true))) {
+      throw new VaultError('Rebuild cancelled', 'CANCELLED');
+    }
+  } catch (error) {
+    printError('rebuild', error);
+    return;
+  }
+
+  const spinner = startSpinner('Rebuilding transaction...');
+
+  try {
+    const result = await client.rebuild(pending);
+
+    spinner.succeed('Transaction rebuilt!');
+
+    print(chalk.gray('\n' + '─'.repeat(70)));
+
+    print(chalk.white('\n  Replaced:'));
+    print(chalk.gray(`    ${result.previousHashTxId} (removed)`));
+
+    print(chalk.bold.white('\n  New Hash to Sign:'));
+    print(chalk.cyan(`    ${result.hashTxId}`));
+
+    print(chalk.white('\n  Signatures:'));
+    if (signers.length > 0) {
+      print(chalk.red(`    ${signers.length} signature(s) invalidated, they signed the old hash.`));
+      print(chalk.yellow(`    Every signer must sign again: 0 of ${result.signersRequired} collected.`));
+    } else {
+      print(chalk.yellow(`    0 of ${result.signersRequired} collected`));
+    }
+
+    print(chalk.gray('\n' + '─'.repeat(70)));
+
+    print(chalk.white('\n  Next Step:'));
+    print(chalk.gray(`    Run: bako-vault sign ${shortTxId(result.hashTxId)}\n`));
+
+    printJson('rebuild', {
+      hashTxId: result.hashTxId,
+      previousHashTxId: result.previousHashTxId,
+      wallet: pending.walletName,
+      network: pending.networkName,
+      vaultAddress: result.vaultAddress,
+      transfers: pending.transaction.transfers,
+      requiredSignatures: result.signersRequired,
+      staleness: check,
+      invalidatedSignatures: result.invalidatedSignatures.map(s => s.signer),
+    });
+  } catch (error) {
+    spinner.fail('Failed to rebuild transaction');
+    printError('rebuild', error, 'NETWORK_ERROR');
+  }
+}
@@ -4,114 +4,184 @@
  */
 
 import chalk from 'chalk';
-import ora from 'ora';
-import inquirer from 'inquirer';
+import { shortTxId } from '../utils/pending.js';
+import { openVaultClient } from '../utils/client.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import { selectPendingTransaction, confirmAction } from '../utils/prompts.js';
 import {
-  hasPendingTransaction,
-  loadPendingTransaction,
-  loadWalletConfig,
-  loadNetworkConfig,
-} from '../utils/config.js';
-import { sendTransaction } from '../services/transaction.js';
-import type { VaultConfig } from '../types.js';
+  printTransfers,
+  printAddedSignatures,
+  printSignatureChecks,
+  printSimulation,
+} from '../utils/display.js';
+import { readSignatureInputs } from '../utils/signatures.js';
+import type { SignatureInputOptions } from '../utils/signatures.js';
+import { countVerifiedSigners } from '../services/signature.js';
+import type { VaultClient } from '../services/client.js';
+import type { SimulationResult } from '../services/simulate.js';
+import type { PendingTransaction } from '../types.js';
 
 /**
  * Options for the send-tx command
  * @interface SendTxOptions
  */
-interface SendTxOptions {
+interface SendTxOptions extends SignatureInputOptions {
   /** Network name (optional, uses pending tx network if not provided) */
   network?: string;
+  /** Dry-run before sending (default: true, disabled with --no-simulate) */
+  simulate?: boolean;
 }
 
 /**
- * Sends a pending transaction with the provided signatures
+ * Sends a pending transaction with the provided signatures.
+ * Signatures given with --signer/--signature or --signatures-file are merged
+ * into the pending transaction first. The transaction is not sent if its vault
+ * inputs were spent elsewhere, and it is dry-run before the confirmation and not
+ * sent if the dry run reverts.
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
  * @param {SendTxOptions} options - Command options
  * @returns {Promise<void>}
  */
-export async function sendTx(options: SendTxOptions): Promise<void> {
-  // Check for pending transaction
-  if (!hasPendingTransaction()) {
-    console.log(chalk.yellow('\nNo pending transaction found.'));
-    console.log(chalk.gray('Create one first with: bako-vault create-tx\n'));
+export async function sendTx(selector: string | undefined, options: SendTxOptions): Promise<void> {
+  let pending: PendingTransaction;
+  let client: VaultClient;
+  try {
+    pending = await selectPendingTransaction(selector);
+    client = openVaultClient(pending.walletName, options.network || pending.networkName);
+  } catch (error) {
+    printError('send-tx', error);
     return;
   }
 
-  // Load the pending transaction
-  const pending = loadPendingTransaction();
+  print(chalk.bold(`\nPending Transaction`));
+  print(chalk.gray('─'.repeat(70)));
 
-  console.log(chalk.bold(`\nPending Transaction`));
-  console.log(chalk.gray('─'.repeat(70)));
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${pending.walletName}`));
+  print(chalk.gray(`    Network: ${pending.networkName}`));
+  printTransfers(pending.transaction.transfers, client.config.network);
 
-  console.log(chalk.white('\n  Details:'));
-  console.log(chalk.gray(`    Wallet: ${pending.walletName}`));
-  console.log(chalk.gray(`    Network: ${pending.networkName}`));
-  console.log(chalk.gray(`    To: ${pending.transaction.to}`));
-  console.log(chalk.gray(`    Amount: ${pending.transaction.amount}`));
+  print(chalk.white('\n  Signatures Required:'));
+  print(chalk.yellow(`    ${pending.requiredSignatures}`));
 
-  console.log(chalk.white('\n  Signatures Required:'));
-  console.log(chalk.yellow(`    ${pending.requiredSignatures}`));
+  print(chalk.white('\n  Hash:'));
+  print(chalk.cyan(`    ${pending.hashTxId}`));
 
-  console.log(chalk.white('\n  Hash:'));
-  console.log(chalk.cyan(`    ${pending.hashTxId}`));
+  try {
+    const external = readSignatureInputs(options);
+    if (external.length > 0) {
+      const { checks, result } = await client.addSignatures(pending, external);
+      printAddedSignatures(result, checks);
+    }
+  } catch (error) {
+    printError('send-tx', error);
+    return;
+  }
 
-  const signatures = pending.signatures;
+  // Verify every signature before paying fees for a transaction the predicate would reject
+  const checks = client.verifySignatures(pending);
+  printSignatureChecks(checks);
 
-  const uniqueSigners = new Set(signatures.map((s) => s.signer));
-  const uniqueCount = uniqueSigners.size;
+  const uniqueCount = countVerifiedSigners(checks);
 
   if (uniqueCount < pending.requiredSignatures) {
-    console.log(
-        chalk.red(`\nError: Need ${pending.requiredSignatures} unique signatures, got ${uniqueCount}\n`)
+    printError(
+      'send-tx',
+      new VaultError(
+        `Need ${pending.requiredSignatures} verified signatures, got ${uniqueCount}`,
+        'THRESHOLD_NOT_MET',
+        { required: pending.requiredSignatures, verified: uniqueCount, checks }
+      )
     );
+    print(chalk.gray('Add signatures with: bako-vault add-signature -s <signer> -S <signature>\n'));
     return;
   }
 
-  // Confirm
-  const confirm = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'send',
-      message: 'Send transaction to blockchain?',
-      default: true,
-    },
-  ]);
-
-  if (!confirm.send) {
-    console.log(chalk.gray('\nTransaction cancelled.\n'));
+  // Inputs spent elsewhere make the node reject the transaction whatever the signatures
+  const stalenessSpinner = startSpinner('Checking transaction inputs...');
+  try {
+    await client.assertNotStale(pending);
+    stalenessSpinner.stop();
+  } catch (error) {
+    stalenessSpinner.fail('Transaction is stale');
+    printError('send-tx', error, 'NETWORK_ERROR');
+    if (error instanceof VaultError && error.code === 'TX_STALE') {
+      print(chalk.gray(`Rebuild it with: bako-vault rebuild ${shortTxId(pending.hashTxId)}\n`));
+    }
     return;
   }
 
-  const spinner = ora('Sending transaction...').start();
+  // Dry-run first, so a transaction that would revert is not paid for
+  let simulation: SimulationResult | undefined;
+  if (options.simulate !== false) {
+    const simSpinner = startSpinner('Simulating transaction...');
+    try {
+      simulation = await client.simulate(pending);
+      simSpinner.stop();
+    } catch (error) {
+      simSpinner.fail('Simulation failed');
+      printError('send-tx', error, 'NETWORK_ERROR');
+      return;
+    }
+
+    printSimulation(simulation, client.config.network);
+
+    if (!simulation.success) {
+      printError(
+        'send-tx',
+        new VaultError(
+          `The transaction would revert: ${simulation.reason ?? 'unknown reason'}`,
+          'TRANSACTION_FAILED',
+          { simulation }
+        )
+      );
+      print(chalk.gray('Send anyway with: bako-vault send-tx <tx> --no-simulate\n'));
+      return;
+    }
+  }
 
+  // Confirm
   try {
-    const walletConfig = loadWalletConfig(pending.walletName);
-    const networkConfig = loadNetworkConfig(options.network || pending.networkName);
+    if (!(await confirmAction('Send transaction to blockchain?', true))) {
+      throw new VaultError('Transaction cancelled', 'CANCELLED');
+    }
+  } catch (error) {
+    printError('send-tx', error);
+    return;
+  }
 
-    const config: VaultConfig = {
-      ...walletConfig,
-      network: networkConfig,
-    };
+  const spinner = startSpinner('Sending transaction...');
 
-    const result = await sendTransaction(config, signatures);
+  try {
+    const result = await client.send(pending);
 
     spinner.succeed('Transaction sent!');
 
-    console.log(chalk.bold.green('\nTransaction submitted successfully!\n'));
-    console.log(chalk.gray('─'.repeat(70)));
+    print(chalk.bold.green('\nTransaction submitted successfully!\n'));
+    print(chalk.gray('─'.repeat(70)));
+
+    print(chalk.white('\n  Transaction ID:'));
+    print(chalk.cyan(`    ${result.transactionId}`));
 
-    console.log(chalk.white('\n  Transaction ID:'));
-    console.log(chalk.cyan(`    ${result.transactionId}`));
+    print(chalk.white('\n  Status:'));
+    print(chalk.green(`    ${result.status}`));
 
-    console.log(chalk.white('\n  Status:'));
-    console.log(chalk.green(`    ${result.status}`));
+    const explorerUrl = client.config.network.explorerUrl || 'https://app.fuel.network';
+    print(chalk.gray(`\n  View: ${explorerUrl}/tx/${result.transactionId}`));
 
-    const explorerUrl = networkConfig.explorerUrl || 'https://app.fuel.network';
-    console.log(chalk.gray(`\n  View: ${explorerUrl}/tx/${result.transactionId}`));
+    print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
 
-    console.log(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+    printJson('send-tx', {
+      hashTxId: pending.hashTxId,
+      transactionId: result.transactionId,
+      status: result.status,
+      explorerUrl: `${explorerUrl}/tx/${result.transactionId}`,
+      checks,
+      ...(simulation && { simulation }),
+    });
   } catch (error) {
     spinner.fail('Failed to send transaction');
-    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    printError('send-tx', error, 'TRANSACTION_FAILED');
   }
 }
@@ -1,185 +1,346 @@
 /**
- * @fileoverview Command to sign a pending transaction using a private key
+ * @fileoverview Command to sign a pending transaction with a Fuel key, an EVM key
+ * or an imported passkey (WebAuthn) assertion
  * @module commands/sign
  */
 
 import chalk from 'chalk';
-import inquirer from 'inquirer';
-import ora from 'ora';
-import { Wallet } from 'fuels';
+import { shortTxId } from '../utils/pending.js';
+import { openVaultClient } from '../utils/client.js';
+import { selectPendingTransaction } from '../utils/prompts.js';
+import { printTransfers, printSignatureChecks } from '../utils/display.js';
+import { readWebAuthnAssertion } from '../utils/signatures.js';
+import { listKeys, loadKey, unlockKey } from '../utils/keystore.js';
 import {
-  hasPendingTransaction,
-  loadPendingTransaction,
-  loadWalletConfig,
-  loadNetworkConfig,
-  savePendingTransaction,
-} from '../utils/config.js';
-import { sendTransaction } from '../services/transaction.js';
-import type { VaultConfig } from '../types.js';
+  promptPassphrase,
+  promptPrivateKey,
+  selectMnemonicAccount,
+  requireInteractive,
+  confirmAction,
+} from '../utils/prompts.js';
+import { PRIVATE_KEY_ENV } from '../utils/secrets.js';
+import type { MnemonicOptions } from '../utils/mnemonic.js';
+import { startSpinner, printJson, printError, print, prompt } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import {
+  verifySignature,
+  countVerifiedSigners,
+  isAccepted,
+  signWithFuelKey,
+  signWithEvmKey,
+} from '../services/signature.js';
+import type { VaultClient } from '../services/client.js';
+import type { PendingTransaction, Signature, SignerKind, StoredKey } from '../types.js';
+
+/** Signer kinds offered by the sign command */
+const SIGNER_TYPES: { name: string; value: SignerKind }[] = [
+  { name: 'Fuel private key', value: 'fuel' },
+  { name: 'EVM private key (personal_sign)', value: 'evm' },
+  { name: 'Passkey (import WebAuthn assertion JSON)', value: 'webauthn' },
+];
 
 /**
  * Options for the sign command
  * @interface SignOptions
  */
-interface SignOptions {
+interface SignOptions extends MnemonicOptions {
   /** Private key (0x...) */
   pk?: string;
+  /** File containing the private key */
+  pkFile?: string;
+  /** Alias of a key in the local keystore */
+  key?: string;
+  /** Derive a Fuel key from a mnemonic (prompted) */
+  mnemonic?: boolean;
+  /** File containing the mnemonic (implies --mnemonic) */
+  mnemonicFile?: string;
+  /** File containing the passphrase of the stored key */
+  passphraseFile?: string;
+  /** Signer type: fuel, evm or webauthn */
+  type?: string;
+  /** Path to a WebAuthn assertion JSON file (passkey signers) */
+  assertion?: string;
 }
 
 /**
- * Signs a pending transaction using a Fuel private key
+ * Signs a pending transaction with a Fuel key, an EVM key or a passkey assertion.
+ * Keys can come from the local keystore (by alias, unlocked with a passphrase)
+ * or be derived from a mnemonic, selecting the derived address that is a vault member.
+ * Prompts for the signer type when it cannot be inferred from the options;
+ * stored keys of vault members are offered first. Secrets can also come from files
+ * or BAKO_* environment variables, which is how it runs with prompts disabled.
+ * Refuses to sign if the stored request does not hash to hashTxId on the network's chain
+ * or its outputs differ from the displayed transfers, and if its vault inputs were spent elsewhere.
  * If threshold is reached, offers to send the transaction
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
  * @param {SignOptions} options - Command options
  * @returns {Promise<void>}
  */
-export async function sign(options: SignOptions): Promise<void> {
-  // Check for pending transaction
-  if (!hasPendingTransaction()) {
-    console.log(chalk.yellow('\nNo pending transaction found.'));
-    console.log(chalk.gray('Create one first with: bako-vault create-tx\n'));
+export async function sign(selector: string | undefined, options: SignOptions): Promise<void> {
+  let pending: PendingTransaction;
+  let client: VaultClient;
+  let storedKey: StoredKey | undefined;
+  let useMnemonic = options.mnemonic === true || options.mnemonicFile !== undefined;
+
+  if (options.type && !SIGNER_TYPES.some(t => t.value === options.type)) {
+    printError(
+      'sign',
+      new VaultError(`Unknown signer type "${options.type}". Use fuel, evm or webauthn.`, 'INVALID_INPUT')
+    );
+    return;
+  }
+
+  try {
+    pending = await selectPendingTransaction(selector);
+    client = openVaultClient(pending.walletName, pending.networkName);
+    if (options.key) {
+      storedKey = loadKey(options.key);
+      if (options.type && options.type !== storedKey.kind) {
+        throw new VaultError(
+          `Key "${storedKey.alias}" is a ${storedKey.kind} key, not ${options.type}`,
+          'INVALID_INPUT'
+        );
+      }
+    }
+    if (useMnemonic && options.type && options.type !== 'fuel') {
+      throw new VaultError(
+        '--mnemonic derives Fuel keys and cannot be combined with --type ' + options.type,
+        'INVALID_INPUT'
+      );
+    }
+  } catch (error) {
+    printError('sign', error);
+    return;
+  }
+
+  // Never sign a hash that differs from the stored request, or a request that differs from what is shown
+  const integritySpinner = startSpinner('Checking transaction integrity...');
+  try {
+    await client.checkIntegrity(pending);
+    integritySpinner.stop();
+  } catch (error) {
+    integritySpinner.fail('Transaction integrity check failed, refusing to sign');
+    printError('sign', error, 'NETWORK_ERROR');
     return;
   }
 
-  // Load the pending transaction
-  const pending = loadPendingTransaction();
+  // A signature over a transaction whose inputs are already spent can never be used
+  const stalenessSpinner = startSpinner('Checking transaction inputs...');
+  try {
+    await client.assertNotStale(pending);
+    stalenessSpinner.stop();
+  } catch (error) {
+    stalenessSpinner.fail('Transaction is stale, refusing to sign');
+    printError('sign', error, 'NETWORK_ERROR');
+    if (error instanceof VaultError && error.code === 'TX_STALE') {
+      print(chalk.gray(`Rebuild it with: bako-vault rebuild ${shortTxId(pending.hashTxId)}\n`));
+    }
+    return;
+  }
 
-  console.log(chalk.bold(`\nPending Transaction`));
-  console.log(chalk.gray('─'.repeat(70)));
+  print(chalk.bold(`\nPending Transaction`));
+  print(chalk.gray('─'.repeat(70)));
 
-  console.log(chalk.white('\n  Details:'));
-  console.log(chalk.gray(`    Wallet: ${pending.walletName}`));
-  console.log(chalk.gray(`    Network: ${pending.networkName}`));
-  console.log(chalk.gray(`    To: ${pending.transaction.to}`));
-  console.log(chalk.gray(`    Amount: ${pending.transaction.amount}`));
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${pending.walletName}`));
+  print(chalk.gray(`    Network: ${pending.networkName}`));
+  printTransfers(pending.transaction.transfers, client.config.network);
 
-  console.log(chalk.white('\n  Hash to Sign:'));
-  console.log(chalk.cyan(`    ${pending.hashTxId}`));
+  print(chalk.white('\n  Hash to Sign:'));
+  print(chalk.cyan(`    ${pending.hashTxId}`));
+  print(chalk.green('    Matches the stored request and the transfers above, inputs unspent'));
+  print(chalk.gray(`    Review the full request: bako-vault inspect ${shortTxId(pending.hashTxId)}`));
 
-  // Get private key
+  // Get signer type (or a stored key)
+  let kind = (storedKey?.kind ?? options.type) as SignerKind | undefined;
   let privateKey = options.pk;
-  if (!privateKey) {
-    const pkAnswer = await inquirer.prompt([
-      {
-        type: 'password',
-        name: 'pk',
-        message: 'Enter your private key (0x...):',
-        mask: '*',
-        validate: (input: string) => {
-          if (!input.startsWith('0x')) {
-            return 'Private key should start with 0x';
-          }
-          return true;
+  let assertionPath = options.assertion;
+
+  try {
+    if (!kind) {
+      if (useMnemonic) {
+        kind = 'fuel';
+      } else if (options.assertion) {
+        kind = 'webauthn';
+      } else if (options.pk || options.pkFile || process.env[PRIVATE_KEY_ENV]) {
+        kind = 'fuel';
+      } else {
+        requireInteractive('A signing source (--key, --pk, --pk-file, --mnemonic or --assertion)');
+        const memberKeys = listKeys().filter(k => client.signers.includes(k.signer.toLowerCase()));
+        const typeAnswer = await prompt([
+          {
+            type: 'list',
+            name: 'source',
+            message: 'Sign with:',
+            choices: [
+              ...memberKeys.map(k => ({ name: `Stored key "${k.alias}" (${k.kind})`, value: k })),
+              SIGNER_TYPES[0],
+              { name: 'Fuel mnemonic (seed phrase)', value: 'mnemonic' },
+              ...SIGNER_TYPES.slice(1),
+            ],
+          },
+        ]);
+        if (typeAnswer.source === 'mnemonic') {
+          useMnemonic = true;
+          kind = 'fuel';
+        } else if (typeof typeAnswer.source === 'string') {
+          kind = typeAnswer.source as SignerKind;
+        } else {
+          storedKey = typeAnswer.source as StoredKey;
+          kind = storedKey.kind;
+        }
+      }
+    }
+
+    // Get private key or passkey assertion
+    if (storedKey) {
+      privateKey = await unlockKey(storedKey, await promptPassphrase(storedKey.alias, options.passphraseFile));
+    } else if (useMnemonic) {
+      const members = new Map(client.signers.map(s => [s, 'vault member']));
+      privateKey = (await selectMnemonicAccount(options, members, options.mnemonicFile)).privateKey;
+    } else if (kind === 'webauthn' && !assertionPath) {
+      requireInteractive('--assertion');
+      const assertionAnswer = await prompt([
+        {
+          type: 'input',
+          name: 'assertion',
+          message: 'Path to the WebAuthn assertion JSON:',
         },
-      },
-    ]);
-    privateKey = pkAnswer.pk;
+      ]);
+      assertionPath = assertionAnswer.assertion;
+    } else if (kind !== 'webauthn' && !privateKey) {
+      privateKey = await promptPrivateKey(
+        `Enter your ${kind === 'evm' ? 'EVM' : 'Fuel'} private key (0x...):`,
+        options.pkFile
+      );
+    }
+  } catch (error) {
+    printError('sign', error);
+    return;
   }
 
   try {
-    // Create wallet from private key
-    const wallet = Wallet.fromPrivateKey(privateKey!);
-    const signerAddress = wallet.address.toB256();
+    let newSignature: Signature;
+    if (kind === 'webauthn') {
+      newSignature = readWebAuthnAssertion(assertionPath!);
+    } else if (kind === 'evm') {
+      newSignature = signWithEvmKey(privateKey!, pending.hashTxId);
+    } else {
+      newSignature = await signWithFuelKey(privateKey!, pending.hashTxId);
+    }
 
-    // Sign the hashTxId directly (same as SDK tests for Fuel wallets)
-    const signature = await wallet.signMessage(pending.hashTxId);
+    const { signer: signerAddress, signature } = newSignature;
+    const signers = client.signers;
 
-    console.log(chalk.bold.green('\n  Signature created!\n'));
-    console.log(chalk.gray('─'.repeat(70)));
+    if (!signers.includes(signerAddress.toLowerCase())) {
+      throw new VaultError(
+        `${signerAddress} is not a signer of vault "${pending.walletName}".`,
+        'NOT_A_SIGNER',
+        { signer: signerAddress }
+      );
+    }
+
+    const check = verifySignature(pending.hashTxId, newSignature, signers);
+    if (!isAccepted(check)) {
+      printSignatureChecks([check]);
+      throw new VaultError('The signature could not be verified and was not saved.', 'INVALID_SIGNATURE', { check });
+    }
 
-    console.log(chalk.white('\n  Signer Address:'));
-    console.log(chalk.cyan(`    ${signerAddress}`));
+    print(chalk.bold.green('\n  Signature created!\n'));
+    print(chalk.gray('─'.repeat(70)));
 
-    console.log(chalk.white('\n  Signature:'));
-    console.log(chalk.green(`    ${signature}`));
+    print(chalk.white('\n  Signer Address:'));
+    print(chalk.cyan(`    ${signerAddress}`));
+    const source = storedKey
+      ? `stored key "${storedKey.alias}"`
+      : useMnemonic
+        ? 'mnemonic'
+        : SIGNER_TYPES.find(t => t.value === kind)!.name;
+    print(chalk.gray(`    Type: ${kind} (${source})`));
+
+    print(chalk.white('\n  Signature:'));
+    print(chalk.green(`    ${signature}`));
 
     // Save this signature to pending
-    const existing = pending.signatures.some(
-        (s) => s.signer === signerAddress
-    );
+    const { result: merge } = await client.addSignatures(pending, [newSignature]);
 
-    if (existing) {
-      console.log(chalk.yellow('\nSignature from this signer already exists.\n'));
-    } else {
-      pending.signatures.push({ signer: signerAddress, signature });
-      savePendingTransaction(pending);
+    if (merge.duplicates.length > 0) {
+      print(chalk.yellow('\nSignature from this signer already exists.\n'));
     }
 
-    // Check threshold
-    const uniqueSigners = new Set(
-        pending.signatures.map((s) => s.signer)
-    );
+    // Check threshold (only verified signatures count)
+    const checks = client.verifySignatures(pending);
+    printSignatureChecks(checks);
 
-    const currentSignatures = uniqueSigners.size;
+    const currentSignatures = countVerifiedSigners(checks);
     const requiredSignatures = pending.requiredSignatures;
 
-    console.log(chalk.white('\n  Signatures:'));
-    console.log(chalk.yellow(`    ${currentSignatures} of ${requiredSignatures} required`));
+    print(chalk.white('\n  Signatures:'));
+    print(chalk.yellow(`    ${currentSignatures} of ${requiredSignatures} required`));
 
-    if (currentSignatures >= requiredSignatures) {
-      console.log(chalk.green('\n  Threshold reached! Ready to send.'));
+    const result = {
+      hashTxId: pending.hashTxId,
+      signer: signerAddress,
+      signature,
+      kind,
+      checks,
+      signers: currentSignatures,
+      requiredSignatures,
+      thresholdReached: currentSignatures >= requiredSignatures,
+    };
 
-      const answer = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'sendNow',
-          message: 'Send transaction now?',
-          default: true,
-        },
-      ]);
+    if (result.thresholdReached) {
+      print(chalk.green('\n  Threshold reached! Ready to send.'));
 
-      if (answer.sendNow) {
-        const spinner = ora('Sending transaction...').start();
+      if (await confirmAction('Send transaction now?', true)) {
+        const spinner = startSpinner('Sending transaction...');
 
         try {
-          const walletConfig = loadWalletConfig(pending.walletName);
-          const networkConfig = loadNetworkConfig(pending.networkName);
-          const config: VaultConfig = {
-            ...walletConfig,
-            network: networkConfig,
-          };
-
-          // Use only pending signatures (already unique)
-          const allSignatures = pending.signatures;
-
-          // Pass raw signature - sendTransaction will encode it
-          const result = await sendTransaction(config, allSignatures);
+          // Pass raw signatures - the client encodes them
+          const sent = await client.send(pending);
 
           spinner.succeed('Transaction sent!');
 
-          console.log(chalk.bold.green('\nTransaction submitted successfully!\n'));
-          console.log(chalk.gray('─'.repeat(70)));
+          print(chalk.bold.green('\nTransaction submitted successfully!\n'));
+          print(chalk.gray('─'.repeat(70)));
 
-          console.log(chalk.white('\n  Transaction ID:'));
-          console.log(chalk.cyan(`    ${result.transactionId}`));
+          print(chalk.white('\n  Transaction ID:'));
+          print(chalk.cyan(`    ${sent.transactionId}`));
 
-          const explorerUrl = networkConfig.explorerUrl || 'https://app.fuel.network';
-          console.log(chalk.gray(`\n  View: ${explorerUrl}/tx/${result.transactionId}`));
+          const explorerUrl = client.config.network.explorerUrl || 'https://app.fuel.network';
+          print(chalk.gray(`\n  View: ${explorerUrl}/tx/${sent.transactionId}`));
 
-          console.log(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+          print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+          printJson('sign', { ...result, sent: { transactionId: sent.transactionId, status: sent.status } });
+          return;
         } catch (error) {
           spinner.fail('Failed to send transaction');
-          console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
-
-          showSendCommand();
+          printError('sign', error, 'TRANSACTION_FAILED');
+          showSendCommand(pending.hashTxId);
+          return;
         }
       } else {
-        showSendCommand();
+        showSendCommand(pending.hashTxId);
       }
     } else {
-      console.log(chalk.yellow(`\n  Need ${requiredSignatures - currentSignatures} more signature(s).`));
-      console.log(chalk.gray('\n  Run "bako-vault sign" again with another signer.\n'));
+      print(chalk.yellow(`\n  Need ${requiredSignatures - currentSignatures} more signature(s).`));
+      print(chalk.gray(`\n  Run "bako-vault sign ${shortTxId(pending.hashTxId)}" again with another signer.\n`));
     }
+
+    printJson('sign', result);
   } catch (error) {
-    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    printError('sign', error);
   }
 }
 
 /**
  * Shows the manual send command for the user
+ * @param {string} hashTxId - Hash of the pending transaction
  * @private
  */
-function showSendCommand(): void {
-  console.log(chalk.gray('\n' + '─'.repeat(70)));
-  console.log(chalk.white('\n  Manual send command:'));
-  console.log(chalk.gray(`    npm run dev -- send-tx\n`));
+function showSendCommand(hashTxId: string): void {
+  print(chalk.gray('\n' + '─'.repeat(70)));
+  print(chalk.white('\n  Manual send command:'));
+  print(chalk.gray(`    npm run dev -- send-tx ${shortTxId(hashTxId)}\n`));
 }
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Command to dry-run a pending transaction and estimate its fee
+ * @module commands/simulate
+ */
+
+import chalk from 'chalk';
+import { openVaultClient } from '../utils/client.js';
+import { selectPendingTransaction } from '../utils/prompts.js';
+import { printTransfers, printSimulation } from '../utils/display.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { VaultClient } from '../services/client.js';
+import type { SimulationResult } from '../services/simulate.js';
+import type { PendingTransaction } from '../types.js';
+
+/**
+ * Options for the simulate command
+ * @interface SimulateOptions
+ */
+interface SimulateOptions {
+  /** Network name (optional, uses pending tx network if not provided) */
+  network?: string;
+}
+
+/**
+ * Dry-runs a pending transaction against the node and reports whether it would succeed,
+ * the gas and fee it would use and the expected balance changes.
+ * Fails with TRANSACTION_FAILED if the dry run reverts.
+ * @param {string | undefined} selector - Pending transaction hash or unique prefix
+ * @param {SimulateOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function simulate(selector: string | undefined, options: SimulateOptions): Promise<void> {
+  let pending: PendingTransaction;
+  try {
+    pending = await selectPendingTransaction(selector);
+  } catch (error) {
+    printError('simulate', error);
+    return;
+  }
+
+  const spinner = startSpinner('Simulating transaction...');
+  let client: VaultClient;
+  let simulation: SimulationResult;
+  try {
+    client = openVaultClient(pending.walletName, options.network || pending.networkName);
+    simulation = await client.simulate(pending);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Simulation failed');
+    printError('simulate', error, 'NETWORK_ERROR');
+    return;
+  }
+
+  print(chalk.bold('\nTransaction Simulation'));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${pending.walletName}`));
+  print(chalk.gray(`    Network: ${options.network || pending.networkName}`));
+  printTransfers(pending.transaction.transfers, client.config.network);
+
+  printSimulation(simulation, client.config.network);
+
+  print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+  if (!simulation.success) {
+    const reason = simulation.reason ?? 'unknown reason';
+    printError(
+      'simulate',
+      new VaultError(`The transaction would revert: ${reason}`, 'TRANSACTION_FAILED', { simulation })
+    );
+    return;
+  }
+
+  printJson('simulate', { hashTxId: pending.hashTxId, ...simulation });
+}
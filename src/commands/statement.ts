@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Command to export the on-chain statement of a vault (incoming and outgoing transfers, fees)
+ * @module commands/statement
+ */
+
+import chalk from 'chalk';
+import { writeFileSync } from 'fs';
+import { openVaultClient } from '../utils/client.js';
+import { formatCsv } from '../utils/csv.js';
+import { assetDecimals, assetLabel, formatAssetAmount } from '../utils/assets.js';
+import { toDecimalAmount } from '../utils/amounts.js';
+import { parseDateOption } from '../utils/dates.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { VaultClient } from '../services/client.js';
+import type { StatementRange, VaultStatement } from '../services/statement.js';
+import type { NetworkConfig } from '../types.js';
+
+/** Export formats of the statement */
+const FORMATS = ['csv', 'json'] as const;
+
+/** Columns of the CSV export */
+const CSV_HEADER = [
+  'date',
+  'transaction_id',
+  'status',
+  'direction',
+  'asset',
+  'asset_id',
+  'amount',
+  'amount_base_units',
+  'counterparty',
+];
+
+/**
+ * Options for the statement command
+ * @interface StatementOptions
+ */
+interface StatementOptions {
+  /** Wallet name */
+  wallet?: string;
+  /** Network name */
+  network?: string;
+  /** Start date (inclusive) */
+  from?: string;
+  /** End date (inclusive) */
+  to?: string;
+  /** Start block height (inclusive) */
+  fromBlock?: string;
+  /** End block height (inclusive) */
+  toBlock?: string;
+  /** Export format: csv or json (default: from the output extension, else csv) */
+  format?: string;
+  /** File to export to */
+  output?: string;
+}
+
+/**
+ * Lists the vault's on-chain transactions in a date or block range, classified as incoming
+ * or outgoing per asset with the fees the vault paid, and optionally exports them as CSV or JSON
+ * @param {StatementOptions} options - Command options
+ * @returns {Promise<void>}
+ */
+export async function statement(options: StatementOptions): Promise<void> {
+  if (!options.wallet || !options.network) {
+    printError(
+      'statement',
+      new VaultError('--wallet (-w) and --network (-n) are required', 'INVALID_INPUT')
+    );
+    print(chalk.gray('Usage: bako-vault statement -w <wallet> -n <network> [--from <date>] [-o <file>]'));
+    return;
+  }
+
+  let client: VaultClient;
+  let range: StatementRange;
+  let format: (typeof FORMATS)[number] | undefined;
+  try {
+    client = openVaultClient(options.wallet, options.network);
+    range = {
+      from: options.from ? parseDateOption(options.from, '--from', false) : undefined,
+      to: options.to ? parseDateOption(options.to, '--to', true) : undefined,
+      fromBlock: options.fromBlock ? parseBlock(options.fromBlock, '--from-block') : undefined,
+      toBlock: options.toBlock ? parseBlock(options.toBlock, '--to-block') : undefined,
+    };
+    if (options.output) {
+      format = parseFormat(options.format, options.output);
+    }
+  } catch (error) {
+    printError('statement', error);
+    return;
+  }
+
+  const spinner = startSpinner('Loading vault transactions...');
+  let result: VaultStatement;
+  try {
+    result = await client.getStatement(range);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to load vault transactions');
+    printError('statement', error, 'NETWORK_ERROR');
+    return;
+  }
+
+  const { network } = client.config;
+  const fee = (amount: string) => formatAssetAmount(network, result.baseAssetId, amount);
+
+  print(chalk.bold('\nVault Statement'));
+  print(chalk.gray('─'.repeat(70)));
+
+  print(chalk.white('\n  Details:'));
+  print(chalk.gray(`    Wallet: ${options.wallet}`));
+  print(chalk.gray(`    Network: ${options.network}`));
+  print(chalk.gray(`    Vault: ${result.vaultAddress}`));
+  print(chalk.gray(`    Range: ${result.from ?? 'beginning'} to ${result.to ?? 'now'}`));
+
+  print(chalk.white(`\n  Transactions (${result.transactions.length}):`));
+  if (result.transactions.length === 0) {
+    print(chalk.gray('    None in this range'));
+  }
+  for (const tx of result.transactions) {
+    const status = tx.status === 'success' ? '' : chalk.red(' (failed)');
+    print(chalk.cyan(`    ${tx.time}  ${tx.transactionId.slice(0, 12)}...`) + status);
+    for (const m of tx.movements) {
+      const amount = formatAssetAmount(network, m.assetId, m.amount);
+      if (m.direction === 'in') {
+        print(chalk.green(`      +${amount}`) + chalk.gray(` from ${m.counterparty}`));
+      } else {
+        print(chalk.red(`      -${amount}`) + chalk.gray(` to ${m.counterparty}`));
+      }
+    }
+    if (tx.fee !== '0') {
+      print(chalk.gray(`      fee ${fee(tx.fee)}`));
+    }
+  }
+
+  print(chalk.white('\n  Totals per Asset:'));
+  if (result.totals.length === 0) {
+    print(chalk.gray('    None'));
+  }
+  for (const t of result.totals) {
+    const amount = (value: string) => formatAssetAmount(network, t.assetId, value);
+    print(
+      chalk.gray(
+        `    ${assetLabel(network, t.assetId)}: received ${amount(t.received)}, sent ${amount(t.sent)}` +
+          (t.fees !== '0' ? `, fees ${amount(t.fees)}` : '')
+      )
+    );
+  }
+
+  if (options.output && format) {
+    try {
+      const content =
+        format === 'json' ? JSON.stringify(result, null, 2) + '\n' : formatCsv(statementRows(result, network));
+      writeFileSync(options.output, content);
+      const count = result.transactions.length;
+      print(chalk.green(`\n  Exported ${count} transaction(s) to ${options.output}`));
+    } catch (error) {
+      printError(
+        'statement',
+        new VaultError(`Could not write ${options.output}: ${(error as Error).message}`, 'INVALID_INPUT')
+      );
+      return;
+    }
+  }
+
+  print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+  printJson('statement', {
+    wallet: options.wallet,
+    network: options.network,
+    ...result,
+    ...(options.output && { output: options.output, format }),
+  });
+}
+
+/**
+ * Flattens a statement into CSV rows: one per movement, and one `fee` row per fee paid.
+ * Amounts are exact, in the decimals of their asset, without thousands separators.
+ * @param {VaultStatement} result - Vault statement
+ * @param {NetworkConfig} network - Network whose asset registry gives the decimals
+ * @returns {string[][]} Header and data rows
+ * @private
+ */
+function statementRows(result: VaultStatement, network: NetworkConfig): string[][] {
+  const rows = [CSV_HEADER];
+  for (const tx of result.transactions) {
+    for (const m of tx.movements) {
+      rows.push([
+        tx.time,
+        tx.transactionId,
+        tx.status,
+        m.direction,
+        m.asset ?? '',
+        m.assetId,
+        toDecimalAmount(m.amount, assetDecimals(network, m.assetId)),
+        m.amount,
+        m.counterparty,
+      ]);
+    }
+    if (tx.fee !== '0') {
+      rows.push([
+        tx.time,
+        tx.transactionId,
+        tx.status,
+        'fee',
+        '',
+        result.baseAssetId,
+        toDecimalAmount(tx.fee, assetDecimals(network, result.baseAssetId)),
+        tx.fee,
+        '',
+      ]);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Parses a block height option
+ * @param {string} value - Option value
+ * @param {string} option - Option name, for the error message
+ * @returns {number} Block height
+ * @throws {VaultError} INVALID_INPUT if the value is not a non-negative integer
+ * @private
+ */
+function parseBlock(value: string, option: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new VaultError(`${option} must be a block height, got "${value}"`, 'INVALID_INPUT');
+  }
+  return Number(value);
+}
+
+/**
+ * Picks the export format: the --format option, else the output file extension, else CSV
+ * @param {string | undefined} format - --format value
+ * @param {string} output - Output file path
+ * @returns {'csv' | 'json'} Export format
+ * @throws {VaultError} INVALID_INPUT for an unknown format
+ * @private
+ */
+function parseFormat(format: string | undefined, output: string): (typeof FORMATS)[number] {
+  if (!format) {
+    return output.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  }
+  if (!FORMATS.includes(format as (typeof FORMATS)[number])) {
+    throw new VaultError(`Unknown format "${format}". Use csv or json.`, 'INVALID_INPUT');
+  }
+  return format as (typeof FORMATS)[number];
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Command to check every wallet and network file against its schema
+ * @module commands/validate
+ */
+
+import chalk from 'chalk';
+import { listWalletFiles, listNetworkFiles, loadWalletConfig, loadNetworkConfig } from '../utils/config.js';
+import { issuesOf } from '../utils/schema.js';
+import { printJson, printError, print } from '../utils/output.js';
+import { VaultError } from '../utils/errors.js';
+import type { ConfigIssue } from '../utils/schema.js';
+
+/**
+ * Result of checking one configuration file
+ * @interface FileCheck
+ */
+interface FileCheck {
+  /** Wallet or network name */
+  name: string;
+  /** File path relative to the working directory */
+  file: string;
+  /** Whether the file passed every check */
+  valid: boolean;
+  /** Issues found, with their paths */
+  issues: ConfigIssue[];
+}
+
+/**
+ * Checks every file in `wallets/` and `networks/` and lists the issues of each one with their paths.
+ * Fails with INVALID_CONFIG if any file is invalid, so it can gate scripts and CI.
+ * @returns {Promise<void>}
+ */
+export async function validate(): Promise<void> {
+  let wallets: FileCheck[];
+  let networks: FileCheck[];
+  try {
+    wallets = listWalletFiles().map(name => checkFile(name, `wallets/${name}.json`, loadWalletConfig));
+    networks = listNetworkFiles().map(name => checkFile(name, `networks/${name}.json`, loadNetworkConfig));
+  } catch (error) {
+    printError('validate', error);
+    return;
+  }
+
+  print(chalk.bold('\nConfiguration Check:\n'));
+  print(chalk.gray('─'.repeat(70)));
+
+  for (const [title, checks] of [
+    ['Wallets', wallets],
+    ['Networks', networks],
+  ] as const) {
+    print(chalk.white(`  ${title} (${checks.length}):`));
+    if (checks.length === 0) {
+      print(chalk.gray('    None'));
+    }
+    for (const check of checks) {
+      if (check.valid) {
+        print(chalk.green(`    OK       ${check.file}`));
+        continue;
+      }
+      print(chalk.red(`    INVALID  ${check.file}`));
+      for (const issue of check.issues) {
+        print(chalk.red(`      ${issue.path ? `${issue.path}: ` : ''}${issue.message}`));
+      }
+    }
+    print('');
+  }
+
+  const invalid = [...wallets, ...networks].filter(c => !c.valid).length;
+  const total = wallets.length + networks.length;
+
+  print(chalk.gray('─'.repeat(70)));
+
+  if (invalid > 0) {
+    printError(
+      'validate',
+      new VaultError(`${invalid} of ${total} configuration file(s) invalid`, 'INVALID_CONFIG', {
+        wallets,
+        networks,
+      })
+    );
+    return;
+  }
+
+  print(chalk.green(`All ${total} configuration file(s) are valid\n`));
+  printJson('validate', { wallets, networks });
+}
+
+/**
+ * Loads one configuration file and collects its issues
+ * @param {string} name - Wallet or network name
+ * @param {string} file - File path, for display
+ * @param {(name: string) => unknown} load - Loader that validates the file
+ * @returns {FileCheck} Check result
+ * @private
+ */
+function checkFile(name: string, file: string, load: (name: string) => unknown): FileCheck {
+  try {
+    load(name);
+    return { name, file, valid: true, issues: [] };
+  } catch (error) {
+    return { name, file, valid: false, issues: issuesOf(error) };
+  }
+}
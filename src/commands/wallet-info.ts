@@ -4,10 +4,10 @@
  */
 
 import chalk from 'chalk';
-import ora from 'ora';
-import { loadWalletConfig, loadNetworkConfig } from '../utils/config.js';
-import { getVaultInfo, getVaultBalances } from '../services/vault.js';
-import type { VaultConfig } from '../types.js';
+import { openVaultClient } from '../utils/client.js';
+import { startSpinner, printJson, printError, print } from '../utils/output.js';
+import { formatAssetAmount } from '../utils/assets.js';
+import { VaultError } from '../utils/errors.js';
 
 /**
  * Displays detailed information about a wallet including address, signers, and balances
@@ -17,80 +17,79 @@ import type { VaultConfig } from '../types.js';
  */
 export async function walletInfo(walletName?: string, networkName?: string): Promise<void> {
   if (!walletName) {
-    console.log(chalk.red('\nError: wallet name is required\n'));
-    console.log(chalk.gray('Usage: bako-vault info <wallet> -n <network>'));
+    printError('wallet-info', new VaultError('wallet name is required', 'INVALID_INPUT'));
+    print(chalk.gray('Usage: bako-vault info <wallet> -n <network>'));
     return;
   }
 
   if (!networkName) {
-    console.log(chalk.red('\nError: --network (-n) is required\n'));
-    console.log(chalk.gray('Usage: bako-vault info <wallet> -n <network>'));
+    printError('wallet-info', new VaultError('--network (-n) is required', 'INVALID_INPUT'));
+    print(chalk.gray('Usage: bako-vault info <wallet> -n <network>'));
     return;
   }
 
-  const spinner = ora('Loading wallet info...').start();
+  const spinner = startSpinner('Loading wallet info...');
 
   try {
-    const walletConfig = loadWalletConfig(walletName);
-    const networkConfig = loadNetworkConfig(networkName);
+    const client = openVaultClient(walletName, networkName);
+    const networkConfig = client.config.network;
 
-    const config: VaultConfig = {
-      ...walletConfig,
-      network: networkConfig,
-    };
-
-    const info = await getVaultInfo(config);
-    const balances = await getVaultBalances(config);
+    const info = await client.getInfo();
+    const balances = await client.getBalances();
 
     spinner.stop();
 
-    console.log(chalk.bold(`\nWallet: ${chalk.cyan(walletName)}\n`));
-    console.log(chalk.gray('─'.repeat(70)));
+    print(chalk.bold(`\nWallet: ${chalk.cyan(walletName)}\n`));
+    print(chalk.gray('─'.repeat(70)));
 
-    console.log(chalk.white('  Address:'));
-    console.log(chalk.green(`    ${info.address}`));
-    console.log('');
+    print(chalk.white('  Address:'));
+    print(chalk.green(`    ${info.address}`));
+    print('');
 
-    console.log(chalk.white('  Network:'));
-    console.log(chalk.gray(`    ${networkName} (${networkConfig.url})`));
-    console.log('');
+    print(chalk.white('  Network:'));
+    print(chalk.gray(`    ${networkName} (${networkConfig.url})`));
+    print('');
 
-    console.log(chalk.white('  Predicate Version:'));
-    console.log(chalk.gray(`    ${info.version}`));
-    console.log('');
+    print(chalk.white('  Predicate Version:'));
+    print(chalk.gray(`    ${info.version}`));
+    print('');
 
     // Filter out zero addresses
     const validSigners = info.signers.filter(
       s => s !== '0x0000000000000000000000000000000000000000000000000000000000000000'
     );
-    console.log(chalk.white(`  Signers (${validSigners.length}):`));
+    print(chalk.white(`  Signers (${validSigners.length}):`));
     validSigners.forEach((signer, i) => {
-      console.log(chalk.gray(`    ${i + 1}. ${signer}`));
+      print(chalk.gray(`    ${i + 1}. ${signer}`));
     });
-    console.log('');
+    print('');
 
-    console.log(chalk.white('  Signatures Required:'));
-    console.log(chalk.yellow(`    ${info.signaturesRequired} of ${validSigners.length}`));
-    console.log('');
+    print(chalk.white('  Signatures Required:'));
+    print(chalk.yellow(`    ${info.signaturesRequired} of ${validSigners.length}`));
+    print('');
 
-    console.log(chalk.white('  Balances:'));
+    print(chalk.white('  Balances:'));
     if (balances.length === 0) {
-      console.log(chalk.gray('    No balances found'));
+      print(chalk.gray('    No balances found'));
     } else {
       balances.forEach(b => {
-        let assetLabel = b.assetId.slice(0, 10) + '...';
-        if (b.assetId === networkConfig.assets.ETH) {
-          assetLabel = 'ETH';
-        } else if (b.assetId === networkConfig.assets.USDC) {
-          assetLabel = 'USDC';
-        }
-        console.log(chalk.gray(`    ${assetLabel}: ${b.amount}`));
+        print(chalk.gray(`    ${formatAssetAmount(networkConfig, b.assetId, b.amount)}`));
       });
     }
 
-    console.log(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+    print(chalk.gray('\n' + '─'.repeat(70) + '\n'));
+
+    printJson('wallet-info', {
+      wallet: walletName,
+      network: networkName,
+      address: info.address,
+      version: info.version,
+      signers: validSigners,
+      signaturesRequired: info.signaturesRequired,
+      balances,
+    });
   } catch (error) {
     spinner.fail('Failed to load wallet info');
-    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    printError('wallet-info', error, 'NETWORK_ERROR');
   }
 }
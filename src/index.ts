@@ -9,18 +9,60 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { listWallets } from './commands/list-wallets.js';
 import { listNetworks } from './commands/list-networks.js';
+import { validate } from './commands/validate.js';
+import { doctor } from './commands/doctor.js';
 import { walletInfo } from './commands/wallet-info.js';
+import { createWallet } from './commands/create-wallet.js';
 import { createTx } from './commands/create-tx.js';
 import { sendTx } from './commands/send-tx.js';
 import { sign } from './commands/sign.js';
 import { balances } from './commands/balances.js';
+import { pending } from './commands/pending.js';
+import { inspect } from './commands/inspect.js';
+import { simulate } from './commands/simulate.js';
+import { rebuild } from './commands/rebuild.js';
+import { history } from './commands/history.js';
+import { statement } from './commands/statement.js';
+import { addSignature } from './commands/add-signature.js';
+import { keysImport, keysGenerate, keysList, keysRemove, keysExport } from './commands/keys.js';
+import {
+  addressBookAdd,
+  addressBookList,
+  addressBookRemove,
+  addressBookImport,
+  addressBookExport,
+} from './commands/address-book.js';
+import { enableJsonMode, print } from './utils/output.js';
+import { disablePrompts } from './utils/prompts.js';
 
 const program = new Command();
 
+/**
+ * Collects the values of a repeatable option into an array
+ * @param {string} value - Value of the current occurrence
+ * @param {string[]} previous - Values collected so far
+ * @returns {string[]} All collected values
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name('bako-vault')
   .description('CLI to execute transactions using Bako predicates without a server')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--json', 'Print one JSON document to stdout instead of text (see COMMANDS.md)')
+  .option('-y, --yes', 'Never prompt: accept confirmations and fail if other input is missing')
+  .option('--non-interactive', 'Never prompt: fail if any input or confirmation is missing')
+  .hook('preAction', () => {
+    const globals = program.opts();
+    if (globals.json) {
+      enableJsonMode();
+    }
+    if (globals.yes || globals.nonInteractive) {
+      disablePrompts(Boolean(globals.yes));
+    }
+  });
 
 program
   .command('list-wallets')
@@ -34,6 +76,18 @@ program
   .description('List all configured networks')
   .action(listNetworks);
 
+program
+  .command('validate')
+  .description('Check every wallet and network file and report each issue with its path')
+  .action(validate);
+
+program
+  .command('doctor')
+  .description('Check node, chain ID, predicate version and vault address of each wallet/network pair')
+  .option('-w, --wallet <name>', 'Only this wallet')
+  .option('-n, --network <name>', 'Only this network')
+  .action(doctor);
+
 program
   .command('wallet-info')
   .alias('info')
@@ -42,43 +96,228 @@ program
   .option('-n, --network <name>', 'Network name')
   .action((wallet, options) => walletInfo(wallet, options.network));
 
+program
+  .command('create-wallet')
+  .description('Create a vault configuration in wallets/<name>.json and print its address')
+  .argument('[name]', 'Wallet name')
+  .option('-s, --signer <address>', 'Signer address, Fuel or EVM (repeatable)', collect, [])
+  .option('-t, --threshold <n>', 'Number of signatures required')
+  .option('--predicate-version <hash>', 'Predicate version hash')
+  .option('-n, --network <name>', 'Network name (used to build the predicate)')
+  .option('--hash-predicate <hash>', 'Predicate salt to recreate an existing vault (default: random)')
+  .option('--force', 'Overwrite an existing wallet file')
+  .action(createWallet);
+
 program
   .command('create-tx')
   .alias('create')
   .description('Create a transaction and generate the hash to sign')
   .option('-w, --wallet <name>', 'Wallet name')
   .option('-n, --network <name>', 'Network name')
-  .option('-t, --to <address>', 'Recipient address')
-  .option('-a, --amount <value>', 'Amount to transfer (e.g., 0.001 for 0.001 ETH)')
-  .option('--asset <assetId>', 'Asset ID (default: ETH)')
-  .option('-f, --file <path>', 'JSON file with transaction data')
+  .option('-t, --to <recipient>', 'Recipient address or address book contact (repeatable)', collect, [])
+  .option('-a, --amount <value>', 'Amount to transfer, e.g., 0.001 for 0.001 ETH (repeatable)', collect, [])
+  .option('--asset <asset>', 'Asset symbol or ID, once or once per transfer (default: ETH)', collect, [])
+  .option('-f, --file <path>', 'JSON file with one transfer or a list of transfers')
+  .option('--csv <path>', 'CSV file with transfers (recipient, amount, asset, memo)')
+  .option('--units <units>', 'Unit of the amounts: decimal (default, e.g. 1.5) or base (e.g. 1500000)')
+  .option('--no-simulate', 'Skip the dry run of the new transaction')
   .action((options) => createTx(options));
 
 program
   .command('send-tx')
   .alias('send')
-  .description('Send the pending transaction with the provided signatures')
+  .description('Send a pending transaction with the provided signatures')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
   .option('-n, --network <name>', 'Network name (optional)')
-  .option('-s, --signer <address>', 'Signer address')
-  .option('-S, --signature <sig>', 'Signature')
-  .action((options) => sendTx(options));
+  .option('-s, --signer <address>', 'Signer address (repeatable, paired with --signature)', collect, [])
+  .option('-S, --signature <sig>', 'Signature (repeatable, paired with --signer)', collect, [])
+  .option('-F, --signatures-file <path>', 'JSON file with signer/signature pairs')
+  .option('--no-simulate', 'Send without a dry run first')
+  .action((tx, options) => sendTx(tx, options));
+
+program
+  .command('add-signature')
+  .alias('add-sig')
+  .description('Add signatures produced on another machine to a pending transaction')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
+  .option('-s, --signer <address>', 'Signer address (repeatable, paired with --signature)', collect, [])
+  .option('-S, --signature <sig>', 'Signature (repeatable, paired with --signer)', collect, [])
+  .option('-F, --signatures-file <path>', 'JSON file with signer/signature pairs')
+  .action((tx, options) => addSignature(tx, options));
 
 program
   .command('sign')
-  .description('Sign the pending transaction using a private key')
+  .description('Sign a pending transaction with a Fuel key, an EVM key or a passkey assertion')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
   .option('-p, --pk <privateKey>', 'Private key (0x...)')
-  .action((options) => sign(options));
+  .option('--pk-file <path>', 'Read the private key from a file (or set BAKO_PRIVATE_KEY)')
+  .option('-k, --key <alias>', 'Sign with a key from the local keystore')
+  .option('--passphrase-file <path>', 'Read the passphrase of --key from a file (or set BAKO_KEY_PASSPHRASE)')
+  .option('-m, --mnemonic', 'Derive a Fuel key from a mnemonic (prompted)')
+  .option('--mnemonic-file <path>', 'Read the mnemonic from a file (or set BAKO_MNEMONIC with -m)')
+  .option('--path <template>', "Derivation path, {index} is the account (default: m/44'/1179993420'/{index}'/0/0)")
+  .option('--count <n>', 'Number of derived addresses to list (default: 10)')
+  .option('--index <n>', 'Derived account index to use')
+  .option('--type <kind>', 'Signer type: fuel, evm or webauthn (prompted if omitted)')
+  .option('--assertion <path>', 'WebAuthn assertion JSON file (passkey signers)')
+  .action((tx, options) => sign(tx, options));
+
+program
+  .command('pending')
+  .description('List pending transactions, or show one by hash or prefix')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
+  .option('-d, --discard', 'Discard the selected pending transaction')
+  .action((tx, options) => pending(tx, options));
+
+program
+  .command('inspect')
+  .description('Decode the transaction request of a pending transaction (inputs, outputs, fees)')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
+  .action((tx) => inspect(tx));
+
+program
+  .command('simulate')
+  .alias('sim')
+  .description('Dry-run a pending transaction: outcome, gas, fee and balance changes')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
+  .option('-n, --network <name>', 'Network name (optional, e.g. a local fuel-core node)')
+  .action((tx, options) => simulate(tx, options));
+
+program
+  .command('rebuild')
+  .description('Re-create a stale pending transaction with fresh inputs (signers must sign again)')
+  .argument('[tx]', 'Pending transaction hash or unique prefix')
+  .option('--force', 'Rebuild even if the inputs are still unspent')
+  .action((tx, options) => rebuild(tx, options));
+
+program
+  .command('history')
+  .description('List created, signed, sent and failed transactions from the local ledger')
+  .option('-w, --wallet <name>', 'Only transactions of this wallet')
+  .option('-n, --network <name>', 'Only transactions on this network')
+  .option('-s, --status <status>', 'Only transactions with this status: pending, sent, failed or discarded')
+  .option('--from <date>', 'Only transactions created on or after this date (YYYY-MM-DD or ISO timestamp)')
+  .option('--to <date>', 'Only transactions created on or before this date (YYYY-MM-DD or ISO timestamp)')
+  .action(history);
+
+program
+  .command('statement')
+  .description("Export the vault's on-chain incoming and outgoing transfers and fees (CSV or JSON)")
+  .option('-w, --wallet <name>', 'Wallet name')
+  .option('-n, --network <name>', 'Network name')
+  .option('--from <date>', 'Transactions on or after this date (YYYY-MM-DD or ISO timestamp)')
+  .option('--to <date>', 'Transactions on or before this date (YYYY-MM-DD or ISO timestamp)')
+  .option('--from-block <height>', 'Transactions in or after this block')
+  .option('--to-block <height>', 'Transactions in or before this block')
+  .option('-o, --output <path>', 'Export to a file')
+  .option('--format <format>', 'Export format: csv or json (default: from the file extension, else csv)')
+  .action(statement);
+
+const keys = program
+  .command('keys')
+  .description('Manage signer keys in the encrypted local keystore');
+
+keys
+  .command('import')
+  .description('Import a private key or mnemonic (prompted) under an alias')
+  .argument('<alias>', 'Key alias')
+  .option('--type <kind>', 'Key type: fuel or evm (default: fuel)')
+  .option('-m, --mnemonic', 'Derive the key from a mnemonic instead of a private key')
+  .option('--pk-file <path>', 'Read the private key from a file (or set BAKO_PRIVATE_KEY)')
+  .option('--mnemonic-file <path>', 'Read the mnemonic from a file (or set BAKO_MNEMONIC with -m)')
+  .option('--passphrase-file <path>', 'Read the new passphrase from a file (or set BAKO_KEY_PASSPHRASE)')
+  .option('--path <template>', "Derivation path, {index} is the account (default: m/44'/1179993420'/{index}'/0/0)")
+  .option('--count <n>', 'Number of derived addresses to list (default: 10)')
+  .option('--index <n>', 'Derived account index to use')
+  .action((alias, options) => keysImport(alias, options));
+
+keys
+  .command('generate')
+  .description('Generate a new key under an alias')
+  .argument('<alias>', 'Key alias')
+  .option('--type <kind>', 'Key type: fuel or evm (default: fuel)')
+  .option('--passphrase-file <path>', 'Read the new passphrase from a file (or set BAKO_KEY_PASSPHRASE)')
+  .action((alias, options) => keysGenerate(alias, options));
+
+keys
+  .command('list')
+  .alias('ls')
+  .description('List stored keys and their signer addresses')
+  .action(keysList);
+
+keys
+  .command('remove')
+  .alias('rm')
+  .description('Remove a stored key')
+  .argument('<alias>', 'Key alias')
+  .action((alias) => keysRemove(alias));
+
+keys
+  .command('export')
+  .description('Export a key as encrypted keystore JSON (or the raw private key)')
+  .argument('<alias>', 'Key alias')
+  .option('--private-key', 'Reveal the decrypted private key instead')
+  .option('-o, --output <path>', 'Write to a file instead of the console')
+  .option('--passphrase-file <path>', 'Read the passphrase from a file (or set BAKO_KEY_PASSPHRASE)')
+  .action((alias, options) => keysExport(alias, options));
+
+const addressBook = program
+  .command('address-book')
+  .alias('contacts')
+  .description('Manage named recipients that --to accepts in place of an address');
+
+addressBook
+  .command('add')
+  .description('Add a contact, or an address for one network to an existing contact')
+  .argument('<name>', 'Contact name')
+  .argument('<address>', 'Address (0x + 64 hex characters)')
+  .option('-n, --network <name>', 'Use the address on this network only (default: every network)')
+  .option('--note <text>', 'Note to store with the contact')
+  .option('--force', 'Replace the address the contact already has')
+  .action((name, address, options) => addressBookAdd(name, address, options));
+
+addressBook
+  .command('list')
+  .alias('ls')
+  .description('List contacts and their addresses')
+  .option('-n, --network <name>', 'Show the address used on this network')
+  .action((options) => addressBookList(options));
+
+addressBook
+  .command('remove')
+  .alias('rm')
+  .description('Remove a contact')
+  .argument('<name>', 'Contact name')
+  .action((name) => addressBookRemove(name));
+
+addressBook
+  .command('import')
+  .description('Import contacts from a JSON file (as written by export)')
+  .argument('<file>', 'Contacts file')
+  .option('--force', 'Replace contacts that already exist')
+  .action((file, options) => addressBookImport(file, options));
+
+addressBook
+  .command('export')
+  .description('Export the address book as JSON')
+  .option('-o, --output <path>', 'Write to a file instead of the console')
+  .action((options) => addressBookExport(options));
 
 program
   .command('balances')
   .alias('bal')
   .description('List balances of all wallets across all networks')
-  .action(balances);
+  .option('-w, --wallet <name>', 'Only this wallet (default: all)')
+  .option('-n, --network <name>', 'Only this network (default: all)')
+  .option('--concurrency <n>', 'Number of vaults queried at a time (default: 8)')
+  .option('--timeout <seconds>', 'Time limit of each node request, 0 for none (default: 10)')
+  .option('--cache <seconds>', 'Reuse balances fetched less than <seconds> ago (default: always fetch)')
+  .action((options) => balances(options));
 
 // Show help if no command
 if (process.argv.length === 2) {
-  console.log(chalk.bold.cyan('\n  Bako Vault CLI\n'));
-  console.log(chalk.gray('  Execute transactions using Bako predicates without a server.\n'));
+  print(chalk.bold.cyan('\n  Bako Vault CLI\n'));
+  print(chalk.gray('  Execute transactions using Bako predicates without a server.\n'));
   program.outputHelp();
 }
 
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Library entry point: the vault client, pending stores, signing helpers and types,
+ * without any terminal output or prompts
+ * @module lib
+ */
+
+export { VaultClient } from './services/client.js';
+export type {
+  VaultClientOptions,
+  AssetBalance,
+  AddSignaturesOutcome,
+  RebuildOutcome,
+} from './services/client.js';
+export {
+  getVaultAddress,
+  getSupportedVersions,
+  getProvider,
+  networkUrls,
+  withProvider,
+  connectProvider,
+  DEFAULT_RPC_TIMEOUT_MS,
+  DEFAULT_RPC_RETRIES,
+} from './services/vault.js';
+export type { ProviderOptions } from './services/vault.js';
+export { checkNetwork, checkVault } from './services/doctor.js';
+export type { DoctorCheck, DoctorStatus } from './services/doctor.js';
+export { queryBalances, DEFAULT_BALANCE_CONCURRENCY, DEFAULT_BALANCE_TIMEOUT_MS } from './services/balances.js';
+export type { BalanceQuery, BalanceQueryOptions, BalanceResult } from './services/balances.js';
+export type { VaultInfo } from './services/vault.js';
+export { simulateTransaction } from './services/simulate.js';
+export type { SimulationResult, BalanceChange } from './services/simulate.js';
+export { checkStaleness } from './services/staleness.js';
+export type { StalenessCheck, SpentInput } from './services/staleness.js';
+export { getVaultStatement } from './services/statement.js';
+export type {
+  VaultStatement,
+  StatementRange,
+  StatementTransaction,
+  StatementMovement,
+  StatementTotal,
+} from './services/statement.js';
+export { buildHistory, filterHistory, HISTORY_STATUSES } from './services/history.js';
+export type { HistoryRecord, HistoryFilter, HistoryStatus } from './services/history.js';
+export { decodeTransaction, assetSymbol } from './services/inspect.js';
+export type {
+  DecodedTransaction,
+  DecodedInput,
+  DecodedOutput,
+  DecodedWitness,
+  InputKind,
+  OutputKind,
+} from './services/inspect.js';
+export type {
+  CreateTxResult,
+  AssetTotal,
+  AddSignaturesResult,
+  IntegrityCheck,
+  SendTxResult,
+} from './services/transaction.js';
+export {
+  signWithFuelKey,
+  signWithEvmKey,
+  evmSignerAddress,
+  evmAddressToB256,
+  verifySignature,
+  verifySignatures,
+  countVerifiedSigners,
+  isAccepted,
+  getVaultSigners,
+} from './services/signature.js';
+export type { SignatureCheck, SignatureStatus } from './services/signature.js';
+export {
+  FilePendingStore,
+  MemoryPendingStore,
+  findPendingTransaction,
+  selectPending,
+  normalizeTxId,
+  shortTxId,
+} from './utils/pending.js';
+export { FileLedger, MemoryLedger, ledgerEntry } from './utils/ledger.js';
+export { FileBalanceCache, MemoryBalanceCache, balanceCacheKey } from './utils/balance-cache.js';
+export {
+  loadWalletConfig,
+  loadNetworkConfig,
+  listWalletFiles,
+  listNetworkFiles,
+  validateWalletConfig,
+  validateNetworkConfig,
+  buildWalletConfig,
+  saveWalletConfig,
+} from './utils/config.js';
+export { checkWalletConfig, checkNetworkConfig, PREDICATE_SIGNERS_LENGTH } from './utils/schema.js';
+export type { ConfigIssue } from './utils/schema.js';
+export {
+  listAssets,
+  findAsset,
+  resolveAssetId,
+  defaultAssetId,
+  assetLabel,
+  assetDecimals,
+  formatAssetAmount,
+  DEFAULT_DECIMALS,
+} from './utils/assets.js';
+export type { AssetInfo } from './utils/assets.js';
+export { parseAmount, toDecimalAmount, formatAmount, AMOUNT_UNITS } from './utils/amounts.js';
+export { VaultError, toVaultError, isTransientError, EXIT_CODES } from './utils/errors.js';
+export type { ErrorCode } from './utils/errors.js';
+export type * from './types.js';
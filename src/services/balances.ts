@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Balance queries of many vaults across networks: concurrent, time-bounded and
+ * optionally served from a short-lived cache
+ * @module services/balances
+ */
+
+import { getVaultAddress, getVaultBalances, withProvider } from './vault.js';
+import { mapConcurrent } from '../utils/async.js';
+import { balanceCacheKey } from '../utils/balance-cache.js';
+import type { AssetBalance } from './client.js';
+import type { BalanceCache, NetworkConfig, WalletConfig } from '../types.js';
+
+/** Default number of vaults queried at a time */
+export const DEFAULT_BALANCE_CONCURRENCY = 8;
+
+/** Default time limit of each node request, in milliseconds */
+export const DEFAULT_BALANCE_TIMEOUT_MS = 10_000;
+
+/**
+ * One vault to query: a wallet on a network
+ * @interface BalanceQuery
+ */
+export interface BalanceQuery {
+  /** Wallet configuration */
+  wallet: WalletConfig;
+  /** Network configuration */
+  network: NetworkConfig;
+}
+
+/**
+ * Options of a balance query
+ * @interface BalanceQueryOptions
+ */
+export interface BalanceQueryOptions {
+  /** Number of vaults queried at a time (default: 8) */
+  concurrency?: number;
+  /** Time limit of each node request in milliseconds (default: 10 seconds) */
+  timeout?: number;
+  /** Cache to read fresh balances from and to store fetched ones in */
+  cache?: BalanceCache;
+  /** Maximum age in milliseconds of cached balances to reuse (default: 0, always fetch) */
+  maxAge?: number;
+  /** Called as each vault is done, e.g. to report progress */
+  onResult?: (result: BalanceResult, done: number, total: number) => void;
+}
+
+/**
+ * Balances of one vault on one network
+ * @interface BalanceResult
+ */
+export interface BalanceResult {
+  /** Wallet name */
+  wallet: string;
+  /** Network name */
+  network: string;
+  /** Vault address, if it could be computed */
+  address?: string;
+  /** Balances in base units (empty on error) */
+  balances: AssetBalance[];
+  /** ISO timestamp of the query the balances come from */
+  fetchedAt?: string;
+  /** True if the balances were served from the cache */
+  cached?: boolean;
+  /** Error message if the balances could not be loaded */
+  error?: string;
+}
+
+/**
+ * Loads the balances of many vaults. Vaults are queried concurrently up to a limit, each node
+ * has one shared provider whose requests are aborted after the timeout, a network's fallback
+ * endpoints are queried when its primary one fails, and balances younger
+ * than `maxAge` are served from the cache. A failing vault is reported in its result and does
+ * not stop the others.
+ * @param {BalanceQuery[]} queries - Vaults to query
+ * @param {BalanceQueryOptions} [options={}] - Concurrency, timeout and cache options
+ * @returns {Promise<BalanceResult[]>} One result per query, in query order
+ */
+export async function queryBalances(
+  queries: BalanceQuery[],
+  options: BalanceQueryOptions = {}
+): Promise<BalanceResult[]> {
+  const {
+    concurrency = DEFAULT_BALANCE_CONCURRENCY,
+    timeout = DEFAULT_BALANCE_TIMEOUT_MS,
+    cache,
+    maxAge = 0,
+    onResult,
+  } = options;
+  let done = 0;
+
+  return mapConcurrent(queries, concurrency, async ({ wallet, network }) => {
+    const result = await queryVault(wallet, network, timeout, maxAge > 0 ? cache : undefined, maxAge);
+    if (cache && !result.error && !result.cached) {
+      await cache.set(balanceCacheKey(network.url, result.address!), {
+        fetchedAt: result.fetchedAt!,
+        balances: result.balances,
+      });
+    }
+    onResult?.(result, ++done, queries.length);
+    return result;
+  });
+}
+
+/**
+ * Loads the balances of one vault, from the cache if they are fresh enough
+ * @param {WalletConfig} wallet - Wallet configuration
+ * @param {NetworkConfig} network - Network configuration
+ * @param {number} timeout - Time limit of each node request in milliseconds
+ * @param {BalanceCache | undefined} cache - Cache to read from, if reuse is enabled
+ * @param {number} maxAge - Maximum age in milliseconds of cached balances
+ * @returns {Promise<BalanceResult>} Balances, or the error
+ * @private
+ */
+async function queryVault(
+  wallet: WalletConfig,
+  network: NetworkConfig,
+  timeout: number,
+  cache: BalanceCache | undefined,
+  maxAge: number
+): Promise<BalanceResult> {
+  const config = { ...wallet, network };
+  const result: BalanceResult = { wallet: wallet.name, network: network.name, balances: [] };
+  try {
+    result.address = await getVaultAddress(config);
+
+    const entry = await cache?.get(balanceCacheKey(network.url, result.address));
+    if (entry && Date.now() - Date.parse(entry.fetchedAt) <= maxAge) {
+      return { ...result, balances: entry.balances, fetchedAt: entry.fetchedAt, cached: true };
+    }
+
+    const fetchedAt = new Date().toISOString();
+    // Fallback endpoints are tried, but without retry rounds, so a dead node costs one timeout
+    const balances = await withProvider(network, provider => getVaultBalances(config, provider), {
+      timeout,
+      retries: 0,
+    });
+    return { ...result, balances, fetchedAt };
+  } catch (error) {
+    return { ...result, error: (error as Error).message };
+  }
+}
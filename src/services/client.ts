@@ -0,0 +1,398 @@
+/**
+ * @fileoverview Programmatic client for one vault on one network, used by the CLI and by library users
+ * @module services/client
+ */
+
+import { validateWalletConfig, validateNetworkConfig } from '../utils/config.js';
+import { MemoryPendingStore, selectPending } from '../utils/pending.js';
+import { MemoryLedger, ledgerEntry } from '../utils/ledger.js';
+import { VaultError, toVaultError } from '../utils/errors.js';
+import { getVaultInfo, getVaultBalances } from './vault.js';
+import type { VaultInfo, ProviderOptions } from './vault.js';
+import {
+  createTransaction,
+  getTransferTotals,
+  checkTransactionIntegrity,
+  importSignatures,
+  sendTransaction,
+} from './transaction.js';
+import type {
+  AddSignaturesResult,
+  AssetTotal,
+  CreateTxResult,
+  IntegrityCheck,
+  SendTxResult,
+} from './transaction.js';
+import { getVaultSigners, verifySignatures, countVerifiedSigners, isAccepted } from './signature.js';
+import type { SignatureCheck } from './signature.js';
+import { decodeTransaction } from './inspect.js';
+import type { DecodedTransaction } from './inspect.js';
+import { simulateTransaction } from './simulate.js';
+import type { SimulationResult } from './simulate.js';
+import { checkStaleness } from './staleness.js';
+import type { StalenessCheck } from './staleness.js';
+import { getVaultStatement } from './statement.js';
+import type { StatementRange, VaultStatement } from './statement.js';
+import type {
+  NetworkConfig,
+  PendingStore,
+  PendingTransaction,
+  Signature,
+  TransactionInput,
+  TransactionLedger,
+  TransferInput,
+  VaultConfig,
+  WalletConfig,
+} from '../types.js';
+
+/**
+ * Options of a vault client
+ * @interface VaultClientOptions
+ */
+export interface VaultClientOptions {
+  /** Wallet configuration (predicate configurables and version) */
+  wallet: WalletConfig;
+  /** Network configuration */
+  network: NetworkConfig;
+  /** Where pending transactions are kept (default: in memory) */
+  store?: PendingStore;
+  /** Where created, signed, sent and failed transactions are recorded (default: in memory) */
+  ledger?: TransactionLedger;
+}
+
+/**
+ * Asset balance of a vault
+ * @interface AssetBalance
+ */
+export interface AssetBalance {
+  /** Asset ID */
+  assetId: string;
+  /** Amount in base units */
+  amount: string;
+}
+
+/**
+ * Result of adding signatures to a pending transaction
+ * @interface AddSignaturesOutcome
+ */
+export interface AddSignaturesOutcome {
+  /** Verification result of each given signature, in order */
+  checks: SignatureCheck[];
+  /** What was merged into the pending transaction */
+  result: AddSignaturesResult;
+  /** The updated pending transaction */
+  pending: PendingTransaction;
+}
+
+/**
+ * Result of rebuilding a stale pending transaction
+ * @interface RebuildOutcome
+ * @extends CreateTxResult
+ */
+export interface RebuildOutcome extends CreateTxResult {
+  /** Hash of the replaced pending transaction */
+  previousHashTxId: string;
+  /** Signatures collected for the replaced transaction, which do not sign the new hash */
+  invalidatedSignatures: Signature[];
+}
+
+/**
+ * Client for one vault on one network.
+ * Creates, collects signatures for and sends vault transactions, keeping pending
+ * transactions in a pluggable {@link PendingStore}. Methods return plain data and
+ * throw {@link VaultError} with a stable code.
+ * @class VaultClient
+ */
+export class VaultClient {
+  /** Combined wallet and network configuration */
+  readonly config: VaultConfig;
+  /** Pending transaction store */
+  readonly store: PendingStore;
+  /** Transaction ledger */
+  readonly ledger: TransactionLedger;
+
+  /**
+   * @param {VaultClientOptions} options - Wallet and network configuration, and the pending store
+   * @throws {VaultError} INVALID_CONFIG if a configuration is invalid
+   */
+  constructor(options: VaultClientOptions) {
+    validateWalletConfig(options.wallet);
+    validateNetworkConfig(options.network);
+    this.config = { ...options.wallet, network: options.network };
+    this.store = options.store ?? new MemoryPendingStore();
+    this.ledger = options.ledger ?? new MemoryLedger();
+  }
+
+  /**
+   * Vault members (SIGNERS without zero-address padding)
+   * @returns {string[]} Lowercase signer addresses
+   */
+  get signers(): string[] {
+    return getVaultSigners(this.config);
+  }
+
+  /**
+   * Gets the vault address, signers, threshold and ETH balance
+   * @returns {Promise<VaultInfo>} Vault information
+   */
+  async getInfo(): Promise<VaultInfo> {
+    return getVaultInfo(this.config);
+  }
+
+  /**
+   * Gets all asset balances of the vault
+   * @returns {Promise<AssetBalance[]>} Balances in base units
+   */
+  async getBalances(): Promise<AssetBalance[]> {
+    return getVaultBalances(this.config);
+  }
+
+  /**
+   * Builds the on-chain statement of the vault: every transfer in and out, per asset, with fees
+   * @param {StatementRange} [range={}] - Date and/or block range (inclusive)
+   * @returns {Promise<VaultStatement>} Transactions, oldest first, and totals per asset
+   * @throws {VaultError} INVALID_INPUT for an unknown block, NETWORK_ERROR if the node cannot be reached
+   */
+  async getStatement(range: StatementRange = {}): Promise<VaultStatement> {
+    try {
+      return await getVaultStatement(this.config, range);
+    } catch (error) {
+      throw toVaultError(error, 'NETWORK_ERROR');
+    }
+  }
+
+  /**
+   * Sums transfers per asset and checks each total against the vault balance
+   * @param {TransferInput[]} transfers - Transfers to total
+   * @param {AssetBalance[]} [balances] - Vault balances, fetched if not provided
+   * @returns {Promise<AssetTotal[]>} One entry per asset
+   */
+  async getTransferTotals(transfers: TransferInput[], balances?: AssetBalance[]): Promise<AssetTotal[]> {
+    return getTransferTotals(this.config, transfers, balances);
+  }
+
+  /**
+   * Creates a transaction and stores it as pending
+   * @param {TransactionInput} input - Transfers to include
+   * @returns {Promise<CreateTxResult>} Hash to sign and the stored pending transaction
+   * @throws {VaultError} INVALID_INPUT if there are no transfers
+   */
+  async createTransaction(input: TransactionInput): Promise<CreateTxResult> {
+    const result = await createTransaction(this.config, input);
+    await this.store.save(result.pending);
+    await this.ledger.append(ledgerEntry('created', result.pending));
+    return result;
+  }
+
+  /**
+   * Lists the pending transactions of this vault on this network, oldest first
+   * @returns {Promise<PendingTransaction[]>} Pending transactions
+   */
+  async listPending(): Promise<PendingTransaction[]> {
+    const all = await this.store.list();
+    return all.filter(p => p.walletName === this.config.name && p.networkName === this.config.network.name);
+  }
+
+  /**
+   * Gets a pending transaction of this vault by full hash or unique prefix
+   * @param {string} selector - Full hash or unique prefix
+   * @returns {Promise<PendingTransaction>} The pending transaction
+   * @throws {VaultError} PENDING_NOT_FOUND or PENDING_AMBIGUOUS
+   */
+  async getPending(selector: string): Promise<PendingTransaction> {
+    return selectPending(await this.listPending(), selector);
+  }
+
+  /**
+   * Decodes the transaction request of a pending transaction for review
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {DecodedTransaction} Inputs, outputs, witnesses and limits, with asset symbols of this network
+   */
+  inspect(pending: PendingTransaction): DecodedTransaction {
+    return decodeTransaction(pending.txRequest, this.config.network);
+  }
+
+  /**
+   * Dry-runs a pending transaction without submitting it
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {Promise<SimulationResult>} Outcome, revert reason, gas, fees and expected balance changes
+   * @throws {VaultError} NETWORK_ERROR if the node cannot be reached
+   */
+  async simulate(pending: PendingTransaction): Promise<SimulationResult> {
+    this.assertOwnPending(pending);
+    try {
+      return await simulateTransaction(this.config, pending);
+    } catch (error) {
+      throw toVaultError(error, 'NETWORK_ERROR');
+    }
+  }
+
+  /**
+   * Rebuilds the stored request of a pending transaction and checks it before anyone signs:
+   * the recomputed transaction ID must equal hashTxId, the coin outputs must match the listed
+   * transfers and change must return to the vault
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {Promise<IntegrityCheck>} The recomputed hash (no problems)
+   * @throws {VaultError} TX_MISMATCH with `details.problems` if anything does not match
+   */
+  async checkIntegrity(pending: PendingTransaction): Promise<IntegrityCheck> {
+    this.assertOwnPending(pending);
+    const check = await checkTransactionIntegrity(this.config, pending);
+    if (check.problems.length > 0) {
+      throw new VaultError(
+        `The stored transaction does not match what is displayed: ${check.problems.join('; ')}`,
+        'TX_MISMATCH',
+        { hashTxId: pending.hashTxId, recomputedHashTxId: check.hashTxId, problems: check.problems }
+      );
+    }
+    return check;
+  }
+
+  /**
+   * Checks whether the vault inputs pinned by a pending transaction are still unspent
+   * and the transaction has not expired
+   * @param {PendingTransaction} pending - Pending transaction
+   * @param {ProviderOptions} [options] - Request timeout and connection retries
+   * @returns {Promise<StalenessCheck>} Spent inputs and expiration status
+   * @throws {VaultError} NETWORK_ERROR if the node cannot be reached
+   */
+  async checkStaleness(pending: PendingTransaction, options?: ProviderOptions): Promise<StalenessCheck> {
+    this.assertOwnPending(pending);
+    try {
+      return await checkStaleness(this.config, pending, options);
+    } catch (error) {
+      throw toVaultError(error, 'NETWORK_ERROR');
+    }
+  }
+
+  /**
+   * Throws if a pending transaction is stale, so no one signs or sends a transaction that cannot land
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {Promise<StalenessCheck>} The check (not stale)
+   * @throws {VaultError} TX_STALE with the check in `details`, or NETWORK_ERROR
+   */
+  async assertNotStale(pending: PendingTransaction): Promise<StalenessCheck> {
+    const check = await this.checkStaleness(pending);
+    if (check.stale) {
+      const reasons: string[] = [];
+      if (check.spent.length > 0) {
+        reasons.push(`${check.spent.length} of ${check.inputs} vault input(s) already spent`);
+      }
+      if (check.expired) {
+        reasons.push(`expired at block ${check.expiration}`);
+      }
+      throw new VaultError(`The transaction can no longer be sent: ${reasons.join(', ')}`, 'TX_STALE', {
+        hashTxId: pending.hashTxId,
+        ...check,
+      });
+    }
+    return check;
+  }
+
+  /**
+   * Re-creates the transfers of a pending transaction with fresh inputs, stores the new
+   * transaction and removes the old one. The new transaction has a new hash: signatures
+   * collected for the old one are dropped and every signer must sign again.
+   * @param {PendingTransaction} pending - Pending transaction to replace
+   * @returns {Promise<RebuildOutcome>} The new transaction and the invalidated signatures
+   */
+  async rebuild(pending: PendingTransaction): Promise<RebuildOutcome> {
+    this.assertOwnPending(pending);
+    const result = await createTransaction(this.config, pending.transaction);
+    result.pending.rebuiltFrom = pending.hashTxId;
+    await this.store.save(result.pending);
+    await this.store.delete(pending.hashTxId);
+    await this.ledger.append(ledgerEntry('created', result.pending, { rebuiltFrom: pending.hashTxId }));
+    await this.ledger.append(ledgerEntry('discarded', pending, { replacedBy: result.hashTxId }));
+    return { ...result, previousHashTxId: pending.hashTxId, invalidatedSignatures: pending.signatures };
+  }
+
+  /**
+   * Verifies signatures over a pending transaction's hash against the vault members
+   * @param {PendingTransaction} pending - Pending transaction
+   * @param {Signature[]} [signatures=pending.signatures] - Signatures to verify
+   * @returns {SignatureCheck[]} One result per signature, in order
+   */
+  verifySignatures(pending: PendingTransaction, signatures?: Signature[]): SignatureCheck[] {
+    return verifySignatures(pending, this.config, signatures);
+  }
+
+  /**
+   * Counts the unique vault members with an accepted signature on a pending transaction
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {number} Number of verified signers
+   */
+  countVerifiedSigners(pending: PendingTransaction): number {
+    return countVerifiedSigners(this.verifySignatures(pending));
+  }
+
+  /**
+   * Verifies signatures and stores the verified ones with the pending transaction.
+   * Rejected signatures are reported in `checks` and not stored.
+   * @param {PendingTransaction} pending - Pending transaction (updated in place)
+   * @param {Signature[]} signatures - Signatures to add
+   * @returns {Promise<AddSignaturesOutcome>} Verification results and what was added
+   */
+  async addSignatures(pending: PendingTransaction, signatures: Signature[]): Promise<AddSignaturesOutcome> {
+    this.assertOwnPending(pending);
+    const { checks, result } = importSignatures(pending, this.config, signatures);
+    if (result.added.length > 0) {
+      await this.store.save(pending);
+      await this.ledger.append(ledgerEntry('signed', pending, { signers: result.added.map(s => s.signer) }));
+    }
+    return { checks, result, pending };
+  }
+
+  /**
+   * Sends a pending transaction with its verified signatures and removes it from the store.
+   * The attempt is recorded in the ledger, as `sent` or `failed`.
+   * @param {PendingTransaction} pending - Pending transaction
+   * @returns {Promise<SendTxResult>} Transaction ID and status
+   * @throws {VaultError} THRESHOLD_NOT_MET, NETWORK_ERROR or TRANSACTION_FAILED
+   */
+  async send(pending: PendingTransaction): Promise<SendTxResult> {
+    this.assertOwnPending(pending);
+    const signers = this.verifySignatures(pending)
+      .filter(isAccepted)
+      .map(c => c.signer);
+
+    let result: SendTxResult;
+    try {
+      result = await sendTransaction(this.config, pending);
+    } catch (error) {
+      await this.ledger.append(ledgerEntry('failed', pending, { signers, error: (error as Error).message }));
+      throw error;
+    }
+
+    await this.store.delete(pending.hashTxId);
+    await this.ledger.append(
+      ledgerEntry('sent', pending, { signers, transactionId: result.transactionId, status: result.status })
+    );
+    return result;
+  }
+
+  /**
+   * Removes a pending transaction from the store and records it as discarded
+   * @param {PendingTransaction} pending - Pending transaction
+   */
+  async discard(pending: PendingTransaction): Promise<void> {
+    await this.store.delete(pending.hashTxId);
+    await this.ledger.append(ledgerEntry('discarded', pending));
+  }
+
+  /**
+   * Ensures a pending transaction was created for this vault
+   * (the network may differ, e.g. to send through another RPC of the same chain)
+   * @param {PendingTransaction} pending - Pending transaction
+   * @throws {VaultError} INVALID_INPUT if it belongs to another wallet
+   * @private
+   */
+  private assertOwnPending(pending: PendingTransaction): void {
+    if (pending.walletName !== this.config.name) {
+      throw new VaultError(
+        `Transaction was created for wallet "${pending.walletName}", not "${this.config.name}"`,
+        'INVALID_INPUT'
+      );
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Health checks of wallet and network configurations: node reachability, chain ID,
+ * predicate version support and vault address
+ * @module services/doctor
+ */
+
+import { getProvider, getVaultAddress, getSupportedVersions, networkUrls } from './vault.js';
+import type { NetworkConfig, VaultConfig } from '../types.js';
+
+/** Time limit of each node query, so an unreachable node fails the check instead of hanging */
+const NODE_TIMEOUT_MS = 10_000;
+
+/**
+ * Outcome of one check
+ * - `pass`: the check succeeded
+ * - `fail`: the configuration is wrong or the node is unusable
+ * - `skip`: nothing to compare against (e.g. no expected chain ID)
+ * @typedef DoctorStatus
+ */
+export type DoctorStatus = 'pass' | 'fail' | 'skip';
+
+/**
+ * One check of the doctor report
+ * @interface DoctorCheck
+ */
+export interface DoctorCheck {
+  /** What was checked: `network`, `chainId`, `version` or `address` */
+  name: string;
+  /** Outcome */
+  status: DoctorStatus;
+  /** Observed value or reason of the failure */
+  message: string;
+}
+
+/**
+ * Checks that one endpoint of a network answers and is on the expected chain
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} url - Endpoint URL
+ * @param {string} prefix - Prefix of the chain ID messages (the URL when the network has several endpoints)
+ * @returns {Promise<DoctorCheck[]>} `network` and `chainId` checks
+ * @private
+ */
+async function checkEndpoint(network: NetworkConfig, url: string, prefix: string): Promise<DoctorCheck[]> {
+  let chainId: number;
+  let height: string;
+  try {
+    const provider = getProvider({ ...network, url }, NODE_TIMEOUT_MS);
+    chainId = await provider.getChainId();
+    height = (await provider.getBlockNumber()).toString();
+  } catch (error) {
+    return [
+      {
+        name: 'network',
+        status: 'fail',
+        message: `${url} unreachable: ${(error as Error).message}`,
+      },
+      { name: 'chainId', status: 'skip', message: `${prefix}node unreachable` },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [
+    { name: 'network', status: 'pass', message: `${url} reachable at block ${height}` },
+  ];
+  if (network.chainId === undefined) {
+    checks.push({
+      name: 'chainId',
+      status: 'skip',
+      message: `${prefix}node reports ${chainId}; no chainId configured`,
+    });
+  } else if (network.chainId !== chainId) {
+    checks.push({
+      name: 'chainId',
+      status: 'fail',
+      message: `${prefix}node reports ${chainId}, but the network file expects ${network.chainId}`,
+    });
+  } else {
+    checks.push({ name: 'chainId', status: 'pass', message: `${prefix}${chainId}` });
+  }
+  return checks;
+}
+
+/**
+ * Checks that every endpoint of a network (`url`, then `fallbackUrls`) answers and is on the
+ * expected chain
+ * @param {NetworkConfig} network - Network configuration
+ * @returns {Promise<DoctorCheck[]>} `network` and `chainId` checks of each endpoint, in priority order
+ */
+export async function checkNetwork(network: NetworkConfig): Promise<DoctorCheck[]> {
+  const urls = networkUrls(network);
+  const checks: DoctorCheck[] = [];
+  for (const url of urls) {
+    checks.push(...(await checkEndpoint(network, url, urls.length > 1 ? `${url}: ` : '')));
+  }
+  return checks;
+}
+
+/**
+ * Checks that the predicate version of a wallet is supported by the BakoSafe SDK and that the
+ * derived vault address matches the expected one, if the wallet file has one
+ * @param {VaultConfig} config - Vault configuration
+ * @returns {Promise<{checks: DoctorCheck[], address?: string}>} `version` and `address` checks,
+ *   and the derived address
+ */
+export async function checkVault(config: VaultConfig): Promise<{ checks: DoctorCheck[]; address?: string }> {
+  const checks: DoctorCheck[] = [];
+
+  const supported = getSupportedVersions().map(v => v.toLowerCase());
+  if (supported.includes(config.version.toLowerCase())) {
+    checks.push({ name: 'version', status: 'pass', message: `${config.version} is supported` });
+  } else {
+    checks.push({
+      name: 'version',
+      status: 'fail',
+      message: `${config.version} is not a predicate version of the installed BakoSafe SDK`,
+    });
+  }
+
+  let address: string;
+  try {
+    address = (await getVaultAddress(config)).toLowerCase();
+  } catch (error) {
+    checks.push({
+      name: 'address',
+      status: 'fail',
+      message: `could not derive the vault address: ${(error as Error).message}`,
+    });
+    return { checks };
+  }
+
+  if (!config.address) {
+    checks.push({
+      name: 'address',
+      status: 'skip',
+      message: `${address}; no expected address in the wallet file`,
+    });
+  } else if (config.address.toLowerCase() !== address) {
+    checks.push({
+      name: 'address',
+      status: 'fail',
+      message: `derived ${address}, but the wallet file expects ${config.address}`,
+    });
+  } else {
+    checks.push({ name: 'address', status: 'pass', message: `${address} matches the wallet file` });
+  }
+  return { checks, address };
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Transaction history built from the ledger: one record per transaction, with filters
+ * @module services/history
+ */
+
+import { normalizeTxId } from '../utils/pending.js';
+import type { LedgerEntry, TransferInput } from '../types.js';
+
+/**
+ * Current state of a transaction in the history
+ * - `pending`: created, possibly signed, not sent yet
+ * - `sent`: submitted to the network
+ * - `failed`: the last send attempt failed (it may still be pending)
+ * - `discarded`: removed without being sent (discarded or rebuilt)
+ * @typedef HistoryStatus
+ */
+export type HistoryStatus = 'pending' | 'sent' | 'failed' | 'discarded';
+
+/** All history statuses, for validating filters */
+export const HISTORY_STATUSES: HistoryStatus[] = ['pending', 'sent', 'failed', 'discarded'];
+
+/**
+ * One transaction in the history
+ * @interface HistoryRecord
+ */
+export interface HistoryRecord {
+  /** Transaction hash to be signed */
+  hashTxId: string;
+  /** Wallet name */
+  wallet: string;
+  /** Network name */
+  network: string;
+  /** Transfers of the transaction */
+  transfers: TransferInput[];
+  /** Current state */
+  status: HistoryStatus;
+  /** ISO timestamp of creation (first recorded event) */
+  createdAt: string;
+  /** ISO timestamp of the last recorded event */
+  updatedAt: string;
+  /** Unique signers, in signing order */
+  signers: string[];
+  /** Transaction ID on the blockchain, once sent */
+  transactionId?: string;
+  /** Status reported by the node when sent */
+  txStatus?: string;
+  /** Error of the last failed send attempt */
+  error?: string;
+  /** Hash of the stale transaction this one was rebuilt from */
+  rebuiltFrom?: string;
+  /** Hash of the transaction that replaced this one */
+  replacedBy?: string;
+}
+
+/**
+ * Filters of the transaction history (all optional, combined with AND)
+ * @interface HistoryFilter
+ */
+export interface HistoryFilter {
+  /** Wallet name */
+  wallet?: string;
+  /** Network name */
+  network?: string;
+  /** Current state */
+  status?: HistoryStatus;
+  /** Created at or after this date */
+  from?: Date;
+  /** Created at or before this date */
+  to?: Date;
+}
+
+/**
+ * Folds ledger events into one record per transaction
+ * @param {LedgerEntry[]} entries - Ledger events, oldest first
+ * @returns {HistoryRecord[]} Records, most recently created first
+ */
+export function buildHistory(entries: LedgerEntry[]): HistoryRecord[] {
+  const records = new Map<string, HistoryRecord>();
+
+  for (const entry of entries) {
+    const key = normalizeTxId(entry.hashTxId);
+    let record = records.get(key);
+    if (!record) {
+      record = {
+        hashTxId: entry.hashTxId,
+        wallet: entry.walletName,
+        network: entry.networkName,
+        transfers: entry.transfers,
+        status: 'pending',
+        createdAt: entry.timestamp,
+        updatedAt: entry.timestamp,
+        signers: [],
+      };
+      records.set(key, record);
+    }
+
+    record.updatedAt = entry.timestamp;
+    for (const signer of entry.signers ?? []) {
+      if (!record.signers.includes(signer.toLowerCase())) {
+        record.signers.push(signer.toLowerCase());
+      }
+    }
+
+    switch (entry.event) {
+      case 'created':
+        record.rebuiltFrom = entry.rebuiltFrom;
+        break;
+      case 'sent':
+        record.status = 'sent';
+        record.transactionId = entry.transactionId;
+        record.txStatus = entry.status;
+        record.error = undefined;
+        break;
+      case 'failed':
+        record.status = 'failed';
+        record.error = entry.error;
+        break;
+      case 'discarded':
+        record.status = 'discarded';
+        record.replacedBy = entry.replacedBy;
+        break;
+    }
+  }
+
+  return [...records.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Keeps the history records matching every given filter
+ * @param {HistoryRecord[]} records - History records
+ * @param {HistoryFilter} filter - Filters
+ * @returns {HistoryRecord[]} Matching records, in the same order
+ */
+export function filterHistory(records: HistoryRecord[], filter: HistoryFilter): HistoryRecord[] {
+  return records.filter(r => {
+    const createdAt = new Date(r.createdAt);
+    return (
+      (!filter.wallet || r.wallet === filter.wallet) &&
+      (!filter.network || r.network === filter.network) &&
+      (!filter.status || r.status === filter.status) &&
+      (!filter.from || createdAt >= filter.from) &&
+      (!filter.to || createdAt <= filter.to)
+    );
+  });
+}
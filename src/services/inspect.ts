@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Decoding of stored transaction requests into the inputs, outputs,
+ * witnesses and limits a signer approves
+ * @module services/inspect
+ */
+
+import { ScriptTransactionRequest, InputType, OutputType, bn, arrayify, hexlify } from 'fuels';
+import type { BigNumberish, BytesLike, ScriptTransactionRequestLike } from 'fuels';
+import { findAsset } from '../utils/assets.js';
+import type { NetworkConfig } from '../types.js';
+
+/**
+ * Kind of a transaction input
+ * @typedef InputKind
+ */
+export type InputKind = 'coin' | 'message' | 'contract';
+
+/**
+ * Kind of a transaction output
+ * @typedef OutputKind
+ */
+export type OutputKind = 'coin' | 'contract' | 'change' | 'variable' | 'contract-created';
+
+/**
+ * Decoded transaction input
+ * @interface DecodedInput
+ */
+export interface DecodedInput {
+  /** Position in the transaction */
+  index: number;
+  /** Input kind */
+  type: InputKind;
+  /** UTXO ID (coins) or nonce (messages) */
+  id?: string;
+  /** Owner of the coin, or recipient of the message */
+  owner?: string;
+  /** Sender of the message */
+  sender?: string;
+  /** Contract ID (contract inputs) */
+  contractId?: string;
+  /** Amount in base units */
+  amount?: string;
+  /** Asset ID */
+  assetId?: string;
+  /** Asset symbol from the network config, if known */
+  asset?: string;
+  /** True if the input is unlocked by a predicate (e.g. the vault) */
+  predicate: boolean;
+  /** Index of the witness that unlocks a non-predicate input */
+  witnessIndex?: number;
+}
+
+/**
+ * Decoded transaction output
+ * @interface DecodedOutput
+ */
+export interface DecodedOutput {
+  /** Position in the transaction */
+  index: number;
+  /** Output kind */
+  type: OutputKind;
+  /** Receiving address (coin, change and variable outputs) */
+  to?: string;
+  /** Amount in base units (coin outputs; change receives whatever is left) */
+  amount?: string;
+  /** Asset ID */
+  assetId?: string;
+  /** Asset symbol from the network config, if known */
+  asset?: string;
+  /** Index of the contract input (contract outputs) */
+  inputIndex?: number;
+  /** Contract ID (contract-created outputs) */
+  contractId?: string;
+}
+
+/**
+ * Decoded transaction witness
+ * @interface DecodedWitness
+ */
+export interface DecodedWitness {
+  /** Position in the witness list */
+  index: number;
+  /** Size in bytes */
+  size: number;
+  /** Witness data (hex) */
+  data: string;
+}
+
+/**
+ * Decoded script transaction request
+ * @interface DecodedTransaction
+ */
+export interface DecodedTransaction {
+  /** Inputs, in order */
+  inputs: DecodedInput[];
+  /** Outputs, in order */
+  outputs: DecodedOutput[];
+  /** Witnesses, in order (signatures are added when the transaction is sent) */
+  witnesses: DecodedWitness[];
+  /** Script gas limit */
+  gasLimit: string;
+  /** Maximum fee in base units of the base asset */
+  maxFee: string;
+  /** Tip in base units of the base asset */
+  tip: string;
+  /** Block height before which the transaction cannot be included */
+  maturity: number;
+  /** Block height after which the transaction is no longer valid, if set */
+  expiration?: number;
+  /** Maximum witness size in bytes, if set */
+  witnessLimit?: string;
+  /** Script size in bytes */
+  scriptSize: number;
+  /** Script data size in bytes */
+  scriptDataSize: number;
+}
+
+/**
+ * Resolves an asset ID to its symbol in the network's asset registry
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} assetId - Asset ID
+ * @returns {string | undefined} Symbol (e.g. ETH), or undefined for unknown assets
+ */
+export function assetSymbol(network: NetworkConfig, assetId: string): string | undefined {
+  return findAsset(network, assetId)?.symbol;
+}
+
+/**
+ * Converts serialized bytes to lowercase hex
+ * @param {BytesLike | undefined} value - Bytes or hex string
+ * @returns {string | undefined} Hex string, or undefined if not set
+ * @private
+ */
+function toHex(value: BytesLike | undefined): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return hexlify(value).toLowerCase();
+}
+
+/**
+ * Converts a serialized number (decimal, hex or BN) to a decimal string
+ * @param {BigNumberish | undefined} value - Serialized number
+ * @returns {string} Decimal string ('0' if not set)
+ * @private
+ */
+function toAmount(value: BigNumberish | undefined): string {
+  return bn(value ?? 0).toString();
+}
+
+/**
+ * Returns the size of serialized bytes
+ * @param {BytesLike | undefined} value - Bytes or hex string
+ * @returns {number} Size in bytes (0 if not set)
+ * @private
+ */
+function byteLength(value: BytesLike | undefined): number {
+  return value ? arrayify(value).length : 0;
+}
+
+/**
+ * Decodes a stored transaction request for review.
+ * Asset IDs are resolved to symbols with the network's asset list.
+ * @param {ScriptTransactionRequestLike} txRequest - Serialized transaction request
+ * @param {NetworkConfig} network - Network configuration (for asset symbols)
+ * @returns {DecodedTransaction} Inputs, outputs, witnesses and limits
+ */
+export function decodeTransaction(
+  txRequest: ScriptTransactionRequestLike,
+  network: NetworkConfig
+): DecodedTransaction {
+  const request = ScriptTransactionRequest.from(txRequest);
+  const withAsset = (assetId: BytesLike | undefined) => {
+    const id = toHex(assetId);
+    return id === undefined ? {} : { assetId: id, asset: assetSymbol(network, id) };
+  };
+
+  const inputs = request.inputs.map((input, index): DecodedInput => {
+    switch (input.type) {
+      case InputType.Coin:
+        return {
+          index,
+          type: 'coin',
+          id: toHex(input.id),
+          owner: toHex(input.owner),
+          amount: toAmount(input.amount),
+          ...withAsset(input.assetId),
+          predicate: byteLength(input.predicate) > 0,
+          witnessIndex: byteLength(input.predicate) > 0 ? undefined : input.witnessIndex,
+        };
+      case InputType.Message:
+        return {
+          index,
+          type: 'message',
+          id: toHex(input.nonce),
+          owner: toHex(input.recipient),
+          sender: toHex(input.sender),
+          amount: toAmount(input.amount),
+          predicate: byteLength(input.predicate) > 0,
+          witnessIndex: byteLength(input.predicate) > 0 ? undefined : input.witnessIndex,
+        };
+      default:
+        return { index, type: 'contract', contractId: toHex(input.contractId), predicate: false };
+    }
+  });
+
+  const outputs = request.outputs.map((output, index): DecodedOutput => {
+    switch (output.type) {
+      case OutputType.Coin:
+        return {
+          index,
+          type: 'coin',
+          to: toHex(output.to),
+          amount: toAmount(output.amount),
+          ...withAsset(output.assetId),
+        };
+      case OutputType.Change:
+        return { index, type: 'change', to: toHex(output.to), ...withAsset(output.assetId) };
+      case OutputType.Variable:
+        return { index, type: 'variable', to: toHex(output.to), ...withAsset(output.assetId) };
+      case OutputType.Contract:
+        return { index, type: 'contract', inputIndex: output.inputIndex };
+      default:
+        return { index, type: 'contract-created', contractId: toHex(output.contractId) };
+    }
+  });
+
+  return {
+    inputs,
+    outputs,
+    witnesses: request.witnesses.map((witness, index) => ({
+      index,
+      size: byteLength(witness),
+      data: toHex(witness)!,
+    })),
+    gasLimit: toAmount(request.gasLimit),
+    maxFee: toAmount(request.maxFee),
+    tip: toAmount(request.tip),
+    maturity: request.maturity ?? 0,
+    expiration: request.expiration,
+    witnessLimit: request.witnessLimit === undefined ? undefined : toAmount(request.witnessLimit),
+    scriptSize: byteLength(request.script),
+    scriptDataSize: byteLength(request.scriptData),
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Signing per signer kind and signature verification against
+ * hashTxId and the vault's SIGNERS list
+ * @module services/signature
+ */
+
+import { Signer, Wallet, hashMessage, keccak256, sha256, arrayify, hexlify, concat, toUtf8Bytes } from 'fuels';
+import { secp256r1 } from '@noble/curves/p256';
+import type { PendingTransaction, Signature, SignerKind, WalletConfig, WebAuthnData } from '../types.js';
+import { VaultError } from '../utils/errors.js';
+
+/** Zero address used to pad the SIGNERS array */
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/** Prefix of an EVM address stored as B256 in SIGNERS (12 zero bytes) */
+const EVM_B256_PREFIX = '0x000000000000000000000000';
+
+/** EVM address format */
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Outcome of verifying one signature
+ * - `verified`: recovers to the claimed signer, who is a vault member
+ * - `not-a-signer`: the claimed signer is not in the vault's SIGNERS
+ * - `mismatch`: the signature recovers to a different address
+ * - `invalid`: the signature is malformed and cannot be recovered
+ */
+export type SignatureStatus = 'verified' | 'not-a-signer' | 'mismatch' | 'invalid';
+
+/**
+ * Result of verifying one signature
+ * @interface SignatureCheck
+ */
+export interface SignatureCheck {
+  /** Claimed signer address */
+  signer: string;
+  /** Verification outcome */
+  status: SignatureStatus;
+  /** Address recovered from the signature, if recovery succeeded */
+  recovered?: string;
+  /** Human-readable reason for a failed check */
+  reason?: string;
+}
+
+/**
+ * Checks whether a verification result lets the signature count toward the threshold
+ * @param {SignatureCheck} check - Verification result
+ * @returns {boolean} True for verified signatures only
+ */
+export function isAccepted(check: SignatureCheck): boolean {
+  return check.status === 'verified';
+}
+
+/**
+ * Converts an EVM address to the B256 form used in SIGNERS (left-padded with zeros)
+ * @param {string} address - EVM address (0x + 40 hex)
+ * @returns {string} Lowercase B256 address
+ * @throws {Error} If the address is not a valid EVM address
+ */
+export function evmAddressToB256(address: string): string {
+  if (!EVM_ADDRESS_REGEX.test(address)) {
+    throw new VaultError(`Invalid EVM address: ${address}`, 'INVALID_INPUT');
+  }
+  return `${EVM_B256_PREFIX}${address.slice(2)}`.toLowerCase();
+}
+
+/**
+ * Resolves the kind of a signature, inferring it from the signer address when not recorded
+ * @param {Signature} sig - Signature
+ * @returns {SignerKind} Signer kind
+ */
+export function resolveSignerKind(sig: Signature): SignerKind {
+  if (sig.kind) {
+    return sig.kind;
+  }
+  return sig.signer.toLowerCase().startsWith(EVM_B256_PREFIX) ? 'evm' : 'fuel';
+}
+
+/**
+ * Hashes a message the way EVM wallets do for `personal_sign` (EIP-191)
+ * @param {string} message - Message (signed as UTF-8 text)
+ * @returns {string} Keccak-256 digest (hex)
+ * @private
+ */
+function evmPersonalMessageHash(message: string): string {
+  const body = toUtf8Bytes(message);
+  const prefix = toUtf8Bytes(`\x19Ethereum Signed Message:\n${body.length}`);
+  return hexlify(keccak256(concat([prefix, body])));
+}
+
+/**
+ * Signs a transaction hash with a Fuel private key
+ * @param {string} privateKey - Fuel private key (0x...)
+ * @param {string} hashTxId - Transaction hash to sign
+ * @returns {Promise<Signature>} Signature with the signer's B256 address
+ */
+export async function signWithFuelKey(privateKey: string, hashTxId: string): Promise<Signature> {
+  const wallet = Wallet.fromPrivateKey(privateKey);
+  // Sign the hashTxId directly (same as SDK tests for Fuel wallets)
+  const signature = await wallet.signMessage(hashTxId);
+  return { signer: wallet.address.toB256(), signature, kind: 'fuel' };
+}
+
+/**
+ * Gets the B256 signer address of an EVM private key
+ * @param {string} privateKey - EVM private key (0x...)
+ * @returns {string} EVM address padded to B256
+ */
+export function evmSignerAddress(privateKey: string): string {
+  const publicKey = new Signer(privateKey).publicKey;
+  const address = hexlify(keccak256(arrayify(publicKey))).slice(-40);
+  return evmAddressToB256(`0x${address}`);
+}
+
+/**
+ * Signs a transaction hash with an EVM private key using `personal_sign`
+ * @param {string} privateKey - EVM private key (0x...)
+ * @param {string} hashTxId - Transaction hash to sign
+ * @returns {Signature} 65-byte r/s/v signature with the signer's padded B256 address
+ */
+export function signWithEvmKey(privateKey: string, hashTxId: string): Signature {
+  const compact = arrayify(new Signer(privateKey).sign(evmPersonalMessageHash(hashTxId)));
+
+  // Fuel compact signatures carry the recovery bit in the top bit of s
+  const recoveryBit = compact[32] >> 7;
+  const rs = new Uint8Array(compact);
+  rs[32] &= 0x7f;
+
+  const signature = hexlify(concat([rs, new Uint8Array([27 + recoveryBit])]));
+  return { signer: evmSignerAddress(privateKey), signature, kind: 'evm' };
+}
+
+/**
+ * Recovers the padded B256 signer address of an EVM `personal_sign` signature
+ * @param {string} hashTxId - Transaction hash that was signed
+ * @param {string} signature - 65-byte r/s/v signature
+ * @returns {string} Lowercase padded B256 address
+ * @throws {Error} If the signature is malformed
+ * @private
+ */
+function recoverEvmSigner(hashTxId: string, signature: string): string {
+  const bytes = arrayify(signature);
+  if (bytes.length !== 65) {
+    throw new Error(`EVM signature must be 65 bytes, got ${bytes.length}`);
+  }
+
+  const v = bytes[64] >= 27 ? bytes[64] - 27 : bytes[64];
+  if (v !== 0 && v !== 1) {
+    throw new Error(`Invalid EVM signature recovery value ${bytes[64]}`);
+  }
+
+  const compact = bytes.slice(0, 64);
+  compact[32] |= v << 7;
+
+  const publicKey = Signer.recoverPublicKey(evmPersonalMessageHash(hashTxId), compact);
+  const address = hexlify(keccak256(arrayify(publicKey))).slice(-40);
+  return evmAddressToB256(`0x${address}`);
+}
+
+/**
+ * Recovers the B256 signer address of a passkey (WebAuthn) signature.
+ * The assertion is checked against hashTxId by rebuilding the client data with hashTxId as its
+ * challenge: the authenticator signed sha256(authData || sha256(clientDataJSON)) with P-256, and a
+ * passkey address is the sha256 of its uncompressed public key (x || y).
+ * @param {string} hashTxId - Transaction hash that must be the WebAuthn challenge
+ * @param {string} signature - 64-byte compact signature with low s, recovery bit in the top bit of s
+ * @param {WebAuthnData} webauthn - Client data around the challenge and authenticator data
+ * @returns {string} Lowercase B256 address
+ * @throws {Error} If the signature is malformed
+ * @private
+ */
+function recoverPasskeySigner(hashTxId: string, signature: string, webauthn: WebAuthnData): string {
+  const compact = arrayify(signature);
+  if (compact.length !== 64) {
+    throw new Error(`Passkey signature must be 64 bytes, got ${compact.length}`);
+  }
+
+  const recoveryBit = compact[32] >> 7;
+  const rs = new Uint8Array(compact);
+  rs[32] &= 0x7f;
+
+  // The challenge is the hash as lowercase hex without 0x, as the predicate rebuilds it
+  const challenge = toUtf8Bytes(hashTxId.toLowerCase().replace(/^0x/, ''));
+  const clientData = concat([arrayify(webauthn.prefix), challenge, arrayify(webauthn.suffix)]);
+  const digest = arrayify(sha256(concat([arrayify(webauthn.authData), arrayify(sha256(clientData))])));
+
+  const publicKey = secp256r1.Signature.fromCompact(rs).addRecoveryBit(recoveryBit).recoverPublicKey(digest);
+  return sha256(publicKey.toRawBytes(false).slice(1)).toLowerCase();
+}
+
+/**
+ * Converts a stored signature to the input expected by `vault.encodeSignature`
+ * @param {Signature} sig - Stored signature
+ * @returns {string | {signature: string, prefix: string, suffix: string, authData: string}}
+ *   Raw signature, or the WebAuthn input object for passkeys
+ * @throws {Error} If a passkey signature has no assertion data
+ */
+export function toEncodableSignature(
+  sig: Signature
+): string | { signature: string; prefix: string; suffix: string; authData: string } {
+  if (resolveSignerKind(sig) !== 'webauthn') {
+    return sig.signature;
+  }
+  if (!sig.webauthn) {
+    throw new VaultError(
+      `Passkey signature from ${sig.signer} is missing its WebAuthn assertion data`,
+      'INVALID_SIGNATURE'
+    );
+  }
+  return { signature: sig.signature, ...sig.webauthn };
+}
+
+/**
+ * Gets the vault members (SIGNERS without zero-address padding)
+ * @param {WalletConfig} wallet - Wallet configuration
+ * @returns {string[]} Lowercase signer addresses
+ */
+export function getVaultSigners(wallet: WalletConfig): string[] {
+  return wallet.config.SIGNERS.map(s => s.toLowerCase()).filter(s => s !== ZERO_ADDRESS);
+}
+
+/**
+ * Verifies one signature over a transaction hash.
+ * Fuel signatures are recovered the same way `wallet.signMessage(hashTxId)` signs,
+ * EVM signatures as `personal_sign` of the hash, and passkey signatures from their
+ * WebAuthn assertion, whose challenge must be the hash.
+ * @param {string} hashTxId - Transaction hash that was signed
+ * @param {Signature} sig - Signer and signature to verify
+ * @param {string[]} signers - Vault members (lowercase)
+ * @returns {SignatureCheck} Verification result
+ */
+export function verifySignature(hashTxId: string, sig: Signature, signers: string[]): SignatureCheck {
+  const claimed = sig.signer.toLowerCase();
+
+  if (!signers.includes(claimed)) {
+    return { signer: sig.signer, status: 'not-a-signer', reason: 'not in the vault SIGNERS list' };
+  }
+
+  const kind = resolveSignerKind(sig);
+
+  if (kind === 'webauthn' && !sig.webauthn) {
+    return { signer: sig.signer, status: 'invalid', reason: 'missing WebAuthn assertion data' };
+  }
+
+  let recovered: string;
+  try {
+    if (kind === 'webauthn') {
+      recovered = recoverPasskeySigner(hashTxId, sig.signature, sig.webauthn as WebAuthnData);
+    } else if (kind === 'evm') {
+      recovered = recoverEvmSigner(hashTxId, sig.signature);
+    } else {
+      recovered = Signer.recoverAddress(hashMessage(hashTxId), sig.signature).toB256().toLowerCase();
+    }
+  } catch (error) {
+    return { signer: sig.signer, status: 'invalid', reason: (error as Error).message };
+  }
+
+  if (recovered !== claimed) {
+    return {
+      signer: sig.signer,
+      status: 'mismatch',
+      recovered,
+      reason: `signature recovers to ${recovered}`,
+    };
+  }
+
+  return { signer: sig.signer, status: 'verified', recovered };
+}
+
+/**
+ * Verifies a list of signatures over a pending transaction's hash
+ * @param {PendingTransaction} pending - Pending transaction
+ * @param {WalletConfig} wallet - Wallet configuration of the vault
+ * @param {Signature[]} [signatures=pending.signatures] - Signatures to verify
+ * @returns {SignatureCheck[]} One result per signature, in order
+ */
+export function verifySignatures(
+  pending: PendingTransaction,
+  wallet: WalletConfig,
+  signatures: Signature[] = pending.signatures
+): SignatureCheck[] {
+  const signers = getVaultSigners(wallet);
+  return signatures.map(sig => verifySignature(pending.hashTxId, sig, signers));
+}
+
+/**
+ * Counts the unique vault members with an accepted signature
+ * @param {SignatureCheck[]} checks - Verification results
+ * @returns {number} Number of unique verified signers
+ */
+export function countVerifiedSigners(checks: SignatureCheck[]): number {
+  return new Set(checks.filter(isAccepted).map(c => c.signer.toLowerCase())).size;
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Dry-run simulation of vault transactions: outcome, gas, fees and balance changes
+ * @module services/simulate
+ */
+
+import { ScriptTransactionRequest, OutputType, bn } from 'fuels';
+import type { BN } from 'fuels';
+import { createVaultInstance } from './vault.js';
+import { assetSymbol } from './inspect.js';
+import type { PendingTransaction, VaultConfig } from '../types.js';
+
+/**
+ * Expected balance change of one address for one asset
+ * @interface BalanceChange
+ */
+export interface BalanceChange {
+  /** Address (B256) */
+  address: string;
+  /** Whether the address is the vault or a recipient */
+  role: 'vault' | 'recipient';
+  /** Asset ID */
+  assetId: string;
+  /** Asset symbol from the network config, if known */
+  asset?: string;
+  /** Signed amount in base units (negative for the vault) */
+  amount: string;
+}
+
+/**
+ * Result of a dry run
+ * @interface SimulationResult
+ */
+export interface SimulationResult {
+  /** True if the transaction executed without reverting */
+  success: boolean;
+  /** Revert or failure reason reported by the node */
+  reason?: string;
+  /** Gas used by the dry run */
+  gasUsed: string;
+  /** Fee charged by the dry run, in base units of the base asset */
+  fee: string;
+  /** Gas price used for the estimate */
+  gasPrice: string;
+  /** Estimated maximum fee at the current gas price */
+  estimatedMaxFee: string;
+  /** Maximum fee set in the request (the most the transaction can cost) */
+  maxFee: string;
+  /** Script gas limit set in the request */
+  gasLimit: string;
+  /** Base asset ID of the chain (fees are paid in it) */
+  baseAssetId: string;
+  /** Expected balance changes of the vault and the recipients */
+  balanceChanges: BalanceChange[];
+}
+
+/**
+ * Dry-runs a pending transaction against the network's node without submitting it.
+ * Coin ownership and signatures are not validated (the transaction is not signed yet),
+ * so the run shows whether the script succeeds and what it costs.
+ * @param {VaultConfig} config - Vault configuration
+ * @param {PendingTransaction} pending - Pending transaction to simulate
+ * @returns {Promise<SimulationResult>} Outcome, gas, fees and expected balance changes
+ */
+export async function simulateTransaction(
+  config: VaultConfig,
+  pending: PendingTransaction
+): Promise<SimulationResult> {
+  const { vault, provider } = await createVaultInstance(config);
+  const vaultAddress = vault.address.toB256().toLowerCase();
+  const request = ScriptTransactionRequest.from(pending.txRequest);
+
+  const baseAssetId = (await provider.getBaseAssetId()).toLowerCase();
+  const estimate = await provider.estimateTxGasAndFee({ transactionRequest: request });
+  const { dryRunStatus } = await provider.dryRun(request, {
+    utxoValidation: false,
+    estimateTxDependencies: false,
+  });
+
+  const success = dryRunStatus?.type !== 'DryRunFailureStatus';
+  const fee = bn(dryRunStatus?.totalFee ?? 0);
+
+  // Recipients receive the coin outputs and the vault pays them plus the fee, keeping the change.
+  // A reverted script transfers nothing, but the fee is still charged.
+  const changes = new Map<string, BalanceChange & { total: BN }>();
+  const add = (address: string, role: BalanceChange['role'], assetId: string, amount: BN) => {
+    const key = `${address}:${assetId}`;
+    const entry = changes.get(key) ?? {
+      address,
+      role,
+      assetId,
+      asset: assetSymbol(config.network, assetId),
+      amount: '0',
+      total: bn(0),
+    };
+    entry.total = entry.total.add(amount);
+    changes.set(key, entry);
+  };
+
+  for (const output of request.outputs) {
+    if (!success || output.type !== OutputType.Coin) {
+      continue;
+    }
+    const to = String(output.to).toLowerCase();
+    const assetId = String(output.assetId).toLowerCase();
+    if (to === vaultAddress) {
+      continue;
+    }
+    add(vaultAddress, 'vault', assetId, bn(0).sub(bn(output.amount)));
+    add(to, 'recipient', assetId, bn(output.amount));
+  }
+  if (!fee.isZero()) {
+    add(vaultAddress, 'vault', baseAssetId, bn(0).sub(fee));
+  }
+
+  return {
+    success,
+    reason: dryRunStatus?.type === 'DryRunFailureStatus' ? dryRunStatus.reason : undefined,
+    gasUsed: bn(dryRunStatus?.totalGas ?? 0).toString(),
+    fee: fee.toString(),
+    gasPrice: estimate.gasPrice.toString(),
+    estimatedMaxFee: estimate.maxFee.toString(),
+    maxFee: bn(request.maxFee).toString(),
+    gasLimit: bn(request.gasLimit).toString(),
+    baseAssetId,
+    balanceChanges: [...changes.values()].map(({ total, ...change }) => ({
+      ...change,
+      amount: total.toString(),
+    })),
+  };
+}
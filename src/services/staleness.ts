@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Staleness check of pending transactions: are the vault inputs they pin still unspent?
+ * @module services/staleness
+ */
+
+import { ScriptTransactionRequest, InputType, bn, hexlify } from 'fuels';
+import type { Provider } from 'fuels';
+import { createVaultInstance, connectProvider } from './vault.js';
+import type { ProviderOptions } from './vault.js';
+import type { PendingTransaction, VaultConfig } from '../types.js';
+
+/** Page size used to list the vault's unspent coins (the node's maximum) */
+const COINS_PAGE_SIZE = 512;
+
+/**
+ * Vault input of a pending transaction that can no longer be spent
+ * @interface SpentInput
+ */
+export interface SpentInput {
+  /** Position in the transaction */
+  index: number;
+  /** Input kind */
+  type: 'coin' | 'message';
+  /** UTXO ID (coins) or nonce (messages) */
+  id: string;
+  /** Asset ID (coins) */
+  assetId?: string;
+  /** Amount in base units */
+  amount: string;
+}
+
+/**
+ * Result of checking whether a pending transaction can still be sent
+ * @interface StalenessCheck
+ */
+export interface StalenessCheck {
+  /** True if the transaction can never be sent (spent inputs or expired) */
+  stale: boolean;
+  /** Number of vault (predicate) inputs checked */
+  inputs: number;
+  /** Vault inputs that were spent elsewhere or no longer exist */
+  spent: SpentInput[];
+  /** Block height after which the transaction is invalid, if set */
+  expiration?: number;
+  /** True if the current block height is past the expiration */
+  expired: boolean;
+}
+
+/**
+ * Lists the IDs of all unspent coins of an owner for one asset
+ * @param {Provider} provider - Fuel provider
+ * @param {string} owner - Owner address
+ * @param {string} assetId - Asset ID
+ * @returns {Promise<Set<string>>} Lowercase UTXO IDs
+ * @private
+ */
+async function listUnspentCoinIds(provider: Provider, owner: string, assetId: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let after: string | null | undefined;
+  do {
+    const { coins, pageInfo } = await provider.getCoins(owner, assetId, { first: COINS_PAGE_SIZE, after });
+    coins.forEach(coin => ids.add(coin.id.toLowerCase()));
+    after = pageInfo.hasNextPage ? pageInfo.endCursor : undefined;
+  } while (after);
+  return ids;
+}
+
+/**
+ * Checks that every vault input pinned by a pending transaction is still unspent
+ * and that the transaction has not expired. Signatures over a stale transaction
+ * are useless: it must be rebuilt with fresh inputs and signed again.
+ * @param {VaultConfig} config - Vault configuration
+ * @param {PendingTransaction} pending - Pending transaction to check
+ * @param {ProviderOptions} [options] - Request timeout and connection retries (default: the network defaults)
+ * @returns {Promise<StalenessCheck>} Spent inputs and expiration status
+ */
+export async function checkStaleness(
+  config: VaultConfig,
+  pending: PendingTransaction,
+  options?: ProviderOptions
+): Promise<StalenessCheck> {
+  const { vault, provider } = await createVaultInstance(
+    config,
+    await connectProvider(config.network, options)
+  );
+  const vaultAddress = vault.address.toB256().toLowerCase();
+  const request = ScriptTransactionRequest.from(pending.txRequest);
+
+  const spent: SpentInput[] = [];
+  const unspentCoins = new Map<string, Set<string>>();
+  let inputs = 0;
+
+  for (const [index, input] of request.inputs.entries()) {
+    if (input.type === InputType.Coin && hexlify(input.owner).toLowerCase() === vaultAddress) {
+      inputs += 1;
+      const assetId = hexlify(input.assetId).toLowerCase();
+      if (!unspentCoins.has(assetId)) {
+        unspentCoins.set(assetId, await listUnspentCoinIds(provider, vaultAddress, assetId));
+      }
+      const id = hexlify(input.id).toLowerCase();
+      if (!unspentCoins.get(assetId)!.has(id)) {
+        spent.push({ index, type: 'coin', id, assetId, amount: bn(input.amount).toString() });
+      }
+    } else if (input.type === InputType.Message && hexlify(input.recipient).toLowerCase() === vaultAddress) {
+      inputs += 1;
+      const nonce = hexlify(input.nonce).toLowerCase();
+      const { state } = await provider.getMessageStatus(nonce);
+      if (String(state) !== 'UNSPENT') {
+        spent.push({ index, type: 'message', id: nonce, amount: bn(input.amount).toString() });
+      }
+    }
+  }
+
+  const expiration = request.expiration;
+  const expired = expiration !== undefined && (await provider.getBlockNumber()).gt(expiration);
+
+  return { stale: spent.length > 0 || expired, inputs, spent, expiration, expired };
+}
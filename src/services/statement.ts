@@ -0,0 +1,275 @@
+/**
+ * @fileoverview On-chain statement of a vault: incoming and outgoing transfers per asset, and fees paid
+ * @module services/statement
+ */
+
+import { getTransactionsSummaries, DateTime, InputType, bn } from 'fuels';
+import type { BN, Provider, TransactionResult } from 'fuels';
+import { createVaultInstance } from './vault.js';
+import { assetSymbol } from './inspect.js';
+import { VaultError } from '../utils/errors.js';
+import type { VaultConfig } from '../types.js';
+
+/** Page size of the node's transactions-by-owner query (the SDK's maximum) */
+const TRANSACTIONS_PAGE_SIZE = 60;
+
+/**
+ * Range of a statement: dates, block heights, or both (all bounds inclusive and optional)
+ * @interface StatementRange
+ */
+export interface StatementRange {
+  /** Transactions at or after this time */
+  from?: Date;
+  /** Transactions at or before this time */
+  to?: Date;
+  /** Transactions in or after this block */
+  fromBlock?: number;
+  /** Transactions in or before this block */
+  toBlock?: number;
+}
+
+/**
+ * One asset movement of a vault transaction
+ * @interface StatementMovement
+ */
+export interface StatementMovement {
+  /** Whether the vault received or sent the amount */
+  direction: 'in' | 'out';
+  /** Asset ID */
+  assetId: string;
+  /** Asset symbol from the network config, if known */
+  asset?: string;
+  /** Amount in base units */
+  amount: string;
+  /** Sender (in) or recipient (out) */
+  counterparty: string;
+}
+
+/**
+ * One on-chain transaction involving the vault
+ * @interface StatementTransaction
+ */
+export interface StatementTransaction {
+  /** Transaction ID */
+  transactionId: string;
+  /** ISO timestamp of inclusion */
+  time: string;
+  /** Whether the transaction succeeded (a failed one transfers nothing but still pays its fee) */
+  status: 'success' | 'failure';
+  /** Fee paid by the vault in base units of the base asset ('0' if someone else paid it) */
+  fee: string;
+  /** Transfers in and out of the vault */
+  movements: StatementMovement[];
+}
+
+/**
+ * Totals of one asset over a statement
+ * @interface StatementTotal
+ */
+export interface StatementTotal {
+  /** Asset ID */
+  assetId: string;
+  /** Asset symbol from the network config, if known */
+  asset?: string;
+  /** Sum received, in base units */
+  received: string;
+  /** Sum sent, in base units */
+  sent: string;
+  /** Fees paid, in base units (base asset only) */
+  fees: string;
+}
+
+/**
+ * On-chain statement of a vault
+ * @interface VaultStatement
+ */
+export interface VaultStatement {
+  /** Vault address in B256 format */
+  vaultAddress: string;
+  /** Base asset ID of the chain (fees are paid in it) */
+  baseAssetId: string;
+  /** Start of the range, as a time (ISO), if bounded */
+  from?: string;
+  /** End of the range, as a time (ISO), if bounded */
+  to?: string;
+  /** Transactions in the range, oldest first */
+  transactions: StatementTransaction[];
+  /** Totals per asset */
+  totals: StatementTotal[];
+}
+
+/**
+ * Gets the inclusion time of a block
+ * @param {Provider} provider - Fuel provider
+ * @param {number} height - Block height
+ * @returns {Promise<Date>} Block time
+ * @throws {VaultError} INVALID_INPUT if the block does not exist
+ * @private
+ */
+async function blockTime(provider: Provider, height: number): Promise<Date> {
+  const block = await provider.getBlock(height);
+  if (!block) {
+    throw new VaultError(`Block ${height} does not exist`, 'INVALID_INPUT');
+  }
+  return DateTime.fromTai64(block.time);
+}
+
+/**
+ * Resolves a range to times. Transactions carry no block height, so block bounds
+ * are converted to the times of those blocks; the later of two lower bounds wins.
+ * @param {Provider} provider - Fuel provider
+ * @param {StatementRange} range - Requested range
+ * @returns {Promise<{from?: Date, to?: Date}>} Time bounds
+ * @private
+ */
+async function resolveRange(
+  provider: Provider,
+  range: StatementRange
+): Promise<{ from?: Date; to?: Date }> {
+  let { from, to } = range;
+  if (range.fromBlock !== undefined) {
+    const time = await blockTime(provider, range.fromBlock);
+    from = from && from > time ? from : time;
+  }
+  if (range.toBlock !== undefined) {
+    const time = await blockTime(provider, range.toBlock);
+    to = to && to < time ? to : time;
+  }
+  return { from, to };
+}
+
+/**
+ * Classifies one transaction from the vault's point of view
+ * @param {TransactionResult} summary - Transaction summary from the SDK
+ * @param {string} vaultAddress - Lowercase vault address
+ * @param {VaultConfig} config - Vault configuration (for asset symbols)
+ * @returns {StatementTransaction} Movements and fee of the vault
+ * @private
+ */
+function classifyTransaction(
+  summary: TransactionResult,
+  vaultAddress: string,
+  config: VaultConfig
+): StatementTransaction {
+  const isVault = (address?: string) => address?.toLowerCase() === vaultAddress;
+
+  // The fee is paid from the inputs, so the vault paid it if it funded the transaction
+  const funded = (summary.transaction.inputs ?? []).some(
+    input =>
+      (input.type === InputType.Coin && isVault(input.owner)) ||
+      (input.type === InputType.Message && isVault(input.recipient))
+  );
+
+  const movements: StatementMovement[] = [];
+  if (summary.isStatusSuccess) {
+    for (const operation of summary.operations) {
+      const from = operation.from?.address;
+      const to = operation.to?.address;
+      if (isVault(from) === isVault(to)) {
+        continue;
+      }
+      for (const coin of operation.assetsSent ?? []) {
+        const assetId = coin.assetId.toLowerCase();
+        movements.push({
+          direction: isVault(to) ? 'in' : 'out',
+          assetId,
+          asset: assetSymbol(config.network, assetId),
+          amount: bn(coin.amount).toString(),
+          counterparty: (isVault(to) ? from : to)!.toLowerCase(),
+        });
+      }
+    }
+  }
+
+  return {
+    transactionId: summary.id,
+    time: (summary.date ?? new Date(0)).toISOString(),
+    status: summary.isStatusSuccess ? 'success' : 'failure',
+    fee: funded ? bn(summary.fee).toString() : '0',
+    movements,
+  };
+}
+
+/**
+ * Pages through the node's transaction history of the vault address and builds a
+ * statement of what came in and went out, per asset, with the fees the vault paid.
+ * Transactions of any origin are included, not only the ones sent by this CLI. Pages are requested
+ * from the newest backwards (`last`/`before`), so paging stops after the first page that reaches past
+ * the start of the range.
+ * @param {VaultConfig} config - Vault configuration
+ * @param {StatementRange} [range={}] - Date and/or block range (inclusive)
+ * @returns {Promise<VaultStatement>} Transactions, oldest first, and totals per asset
+ * @throws {VaultError} INVALID_INPUT if a block of the range does not exist
+ */
+export async function getVaultStatement(
+  config: VaultConfig,
+  range: StatementRange = {}
+): Promise<VaultStatement> {
+  const { vault, provider } = await createVaultInstance(config);
+  const vaultAddress = vault.address.toB256().toLowerCase();
+  const baseAssetId = (await provider.getBaseAssetId()).toLowerCase();
+  const { from, to } = await resolveRange(provider, range);
+
+  const transactions: StatementTransaction[] = [];
+  let before: string | null | undefined;
+  let reachedFrom = false;
+  do {
+    const page = await getTransactionsSummaries({
+      provider,
+      filters: { owner: vaultAddress, last: TRANSACTIONS_PAGE_SIZE, before },
+    });
+    for (const summary of page.transactions) {
+      if (summary.isStatusPending || !summary.date) {
+        continue;
+      }
+      if (from && summary.date < from) {
+        reachedFrom = true;
+        continue;
+      }
+      if (to && summary.date > to) {
+        continue;
+      }
+      transactions.push(classifyTransaction(summary, vaultAddress, config));
+    }
+    // Older pages only hold transactions before the range
+    before = page.pageInfo.hasPreviousPage && !reachedFrom ? page.pageInfo.startCursor : undefined;
+  } while (before);
+
+  transactions.sort((a, b) => a.time.localeCompare(b.time));
+
+  const totals = new Map<string, { received: BN; sent: BN; fees: BN }>();
+  const totalOf = (assetId: string) => {
+    const entry = totals.get(assetId) ?? { received: bn(0), sent: bn(0), fees: bn(0) };
+    totals.set(assetId, entry);
+    return entry;
+  };
+  for (const tx of transactions) {
+    for (const m of tx.movements) {
+      const entry = totalOf(m.assetId);
+      if (m.direction === 'in') {
+        entry.received = entry.received.add(m.amount);
+      } else {
+        entry.sent = entry.sent.add(m.amount);
+      }
+    }
+    if (tx.fee !== '0') {
+      const entry = totalOf(baseAssetId);
+      entry.fees = entry.fees.add(tx.fee);
+    }
+  }
+
+  return {
+    vaultAddress,
+    baseAssetId,
+    from: from?.toISOString(),
+    to: to?.toISOString(),
+    transactions,
+    totals: [...totals.entries()].map(([assetId, t]) => ({
+      assetId,
+      asset: assetSymbol(config.network, assetId),
+      received: t.received.toString(),
+      sent: t.sent.toString(),
+      fees: t.fees.toString(),
+    })),
+  };
+}
@@ -2,14 +2,27 @@
  * @fileoverview Transaction service for creating and sending vault transactions
  * @module services/transaction
  */
-import { ScriptTransactionRequest } from 'fuels';
-import type { VaultConfig, TransactionInput, PendingTransaction } from '../types.js';
-import { createVaultInstance } from './vault.js';
-import {
-  savePendingTransaction,
-  loadPendingTransaction,
-  deletePendingTransaction,
-} from '../utils/config.js';
+import { Address, OutputType, ScriptTransactionRequest, bn } from 'fuels';
+import type { BN } from 'fuels';
+import type {
+  VaultConfig,
+  TransactionInput,
+  PendingTransaction,
+  TransferInput,
+  Signature,
+  WalletConfig,
+  AmountUnits,
+} from '../types.js';
+import { createVaultInstance, getVaultAddress, getVaultBalances, withProvider } from './vault.js';
+import { verifySignatures, countVerifiedSigners, isAccepted, toEncodableSignature } from './signature.js';
+import type { SignatureCheck } from './signature.js';
+import { VaultError } from '../utils/errors.js';
+import { normalizeTxId } from '../utils/pending.js';
+import { assetDecimals, defaultAssetId, formatAssetAmount, resolveAssetId } from '../utils/assets.js';
+import { parseAmount, toDecimalAmount } from '../utils/amounts.js';
+
+/** Decimals vault.transaction() reads every amount with (bn.parseUnits), whatever the asset */
+const SDK_AMOUNT_DECIMALS = 9;
 
 /**
  * Result of creating a transaction
@@ -22,59 +35,385 @@ export interface CreateTxResult {
   vaultAddress: string;
   /** Number of signatures required */
   signersRequired: number;
+  /** Pending transaction to store until it is signed */
+  pending: PendingTransaction;
+}
+
+/**
+ * Replaces asset symbols of transfers with their asset IDs from the network's registry and
+ * rewrites each amount as the exact decimal amount in the decimals of its asset
+ * @param {TransferInput[]} transfers - Transfers whose assetId may be a symbol (e.g. USDC)
+ * @param {VaultConfig} config - Vault configuration
+ * @param {AmountUnits} [units='decimal'] - Unit of the amounts
+ * @returns {TransferInput[]} Transfers with asset IDs (if given) and decimal amounts
+ * @throws {VaultError} INVALID_INPUT for an unknown symbol, or an amount that is malformed,
+ *   zero or more precise than its asset
+ * @private
+ */
+function resolveTransfers(
+  transfers: TransferInput[],
+  config: VaultConfig,
+  units: AmountUnits = 'decimal'
+): TransferInput[] {
+  return transfers.map((t, i) => {
+    let assetId = t.assetId;
+    if (assetId) {
+      assetId = resolveAssetId(config.network, assetId);
+      if (!assetId) {
+        throw new VaultError(
+          `Unknown asset "${t.assetId}": use a symbol from networks/${config.network.name}.json or an asset ID`,
+          'INVALID_INPUT'
+        );
+      }
+    }
+
+    const decimals = assetDecimals(config.network, assetId);
+    let amount: BN;
+    try {
+      amount = parseAmount(t.amount, decimals, units);
+    } catch (error) {
+      throw new VaultError(`Transfer ${i + 1}: ${(error as Error).message}`, 'INVALID_INPUT');
+    }
+    return { ...t, amount: toDecimalAmount(amount, decimals), ...(assetId && { assetId }) };
+  });
+}
+
+/**
+ * Converts the amount of a resolved transfer to base units
+ * @param {TransferInput} transfer - Transfer with an asset ID (or none for ETH) and a decimal amount
+ * @param {VaultConfig} config - Vault configuration
+ * @returns {BN} Amount in base units
+ * @throws {VaultError} If the amount is not valid for its asset
+ * @private
+ */
+function transferBaseUnits(transfer: TransferInput, config: VaultConfig): BN {
+  return parseAmount(transfer.amount, assetDecimals(config.network, transfer.assetId));
 }
 
 /**
- * Creates a new transaction and saves it as pending
+ * Creates a new transaction, ready to be stored as pending.
+ * Asset symbols of the transfers are resolved to asset IDs and amounts are converted exactly
+ * with the decimals of their asset before building it.
  * @param {VaultConfig} config - Vault configuration
- * @param {TransactionInput} input - Transaction input parameters
+ * @param {TransactionInput} input - Transaction input parameters (one or more transfers)
  * @returns {Promise<CreateTxResult>} Transaction creation result with hash to sign
+ * @throws {VaultError} If the input has no transfers, names an unknown asset or has an invalid amount
  */
 export async function createTransaction(
   config: VaultConfig,
   input: TransactionInput
 ): Promise<CreateTxResult> {
-  const { vault } = await createVaultInstance(config);
-
-  const assetId = input.assetId || config.network.assets.ETH;
-
-  // Use vault.transaction method (same as SDK tests)
-  // Amount should be a decimal string like '0.1' for 0.1 ETH
-  const { tx, hashTxId } = await vault.transaction({
-    assets: [
-      {
-        assetId,
-        amount: input.amount, // Pass as-is (decimal string like '0.001')
-        to: input.to,
-      },
-    ],
+  if (input.transfers.length === 0) {
+    throw new VaultError('Transaction must have at least one transfer', 'INVALID_INPUT');
+  }
+  const transfers = resolveTransfers(input.transfers, config, input.units);
+
+  // Building the transaction only reads from the node, so it is retried on the
+  // next endpoint of the network when a request fails on the way
+  const { vault, tx, hashTxId } = await withProvider(config.network, async provider => {
+    const { vault } = await createVaultInstance(config, provider);
+
+    // Use vault.transaction method (same as SDK tests); every transfer becomes
+    // one output of the same transaction, so there is a single hash to sign.
+    // The SDK reads amounts with 9 decimals for every asset, so each amount is
+    // handed over as its base units written with 9 decimals.
+    const { tx, hashTxId } = await vault.transaction({
+      assets: transfers.map(t => ({
+        assetId: t.assetId || defaultAssetId(config.network),
+        amount: toDecimalAmount(transferBaseUnits(t, config), SDK_AMOUNT_DECIMALS),
+        to: t.to,
+      })),
+    });
+    return { vault, tx, hashTxId };
   });
 
   // Serialize transaction as JSON for later restoration
   const txRequest = tx.toJSON();
 
-  // Save pending transaction
   const pending: PendingTransaction = {
     walletName: config.name,
     networkName: config.network.name,
     hashTxId,
     encodedTxId: hashTxId,
     txRequest,
-    transaction: input,
+    transaction: { transfers },
     createdAt: new Date().toISOString(),
     signatures: [],
     requiredSignatures: config.config.SIGNATURES_COUNT,
   };
 
-  savePendingTransaction(pending);
-
   return {
     hashTxId,
     vaultAddress: vault.address.toB256(),
     signersRequired: config.config.SIGNATURES_COUNT,
+    pending,
+  };
+}
+
+/**
+ * Result of checking a pending transaction against its stored request
+ * @interface IntegrityCheck
+ */
+export interface IntegrityCheck {
+  /** Transaction ID recomputed from the stored request (without 0x, like hashTxId) */
+  hashTxId: string;
+  /** Chain ID used to compute it */
+  chainId: number;
+  /** Vault address the change must return to */
+  vaultAddress: string;
+  /** Everything that does not match; empty if the transaction is intact */
+  problems: string[];
+}
+
+/**
+ * Normalizes an address for comparison
+ * @param {string} address - Address (B256 or any format the SDK accepts)
+ * @returns {string} Lowercase B256 address
+ * @private
+ */
+function normalizeAddress(address: string): string {
+  try {
+    return Address.fromString(address).toB256().toLowerCase();
+  } catch {
+    return address.toLowerCase();
+  }
+}
+
+/**
+ * Rebuilds the stored request of a pending transaction and checks that it is what signers are shown:
+ * the transaction ID for the network's chain must equal hashTxId, the coin outputs must be exactly
+ * the listed transfers (grouped per recipient and asset, as the SDK builds them) and change must
+ * return to the vault.
+ * @param {VaultConfig} config - Vault configuration
+ * @param {PendingTransaction} pending - Pending transaction to check
+ * @returns {Promise<IntegrityCheck>} Recomputed hash and the list of mismatches
+ */
+export async function checkTransactionIntegrity(
+  config: VaultConfig,
+  pending: PendingTransaction
+): Promise<IntegrityCheck> {
+  const vaultAddress = (await getVaultAddress(config)).toLowerCase();
+  const chainId =
+    config.network.chainId ?? (await withProvider(config.network, provider => provider.getChainId()));
+  const problems: string[] = [];
+
+  let request: ScriptTransactionRequest;
+  try {
+    request = ScriptTransactionRequest.from(pending.txRequest);
+  } catch (error) {
+    return {
+      hashTxId: '',
+      chainId,
+      vaultAddress,
+      problems: [`The stored request cannot be decoded: ${(error as Error).message}`],
+    };
+  }
+
+  const hashTxId = normalizeTxId(request.getTransactionId(chainId));
+  if (hashTxId !== normalizeTxId(pending.hashTxId)) {
+    problems.push(
+      `The request hashes to ${hashTxId} on chain ${chainId}, not ${normalizeTxId(pending.hashTxId)}`
+    );
+  }
+
+  // Expected coin outputs, summed per recipient and asset like vault.transaction() does
+  const expected = new Map<string, BN>();
+  for (const [i, t] of pending.transaction.transfers.entries()) {
+    const key = `${normalizeAddress(t.to)}:${(t.assetId || defaultAssetId(config.network)).toLowerCase()}`;
+    let amount: BN;
+    try {
+      amount = transferBaseUnits(t, config);
+    } catch (error) {
+      problems.push(`Transfer ${i + 1} has an invalid amount: ${(error as Error).message}`);
+      continue;
+    }
+    expected.set(key, (expected.get(key) ?? bn(0)).add(amount));
+  }
+
+  const actual = new Map<string, BN>();
+  for (const output of request.outputs) {
+    if (output.type === OutputType.Coin) {
+      const key = `${normalizeAddress(String(output.to))}:${String(output.assetId).toLowerCase()}`;
+      actual.set(key, (actual.get(key) ?? bn(0)).add(bn(output.amount)));
+    } else if (output.type === OutputType.Change && normalizeAddress(String(output.to)) !== vaultAddress) {
+      problems.push(`Change of asset ${output.assetId} goes to ${output.to}, not to the vault`);
+    }
+  }
+
+  for (const [key, amount] of expected) {
+    const [to, assetId] = key.split(':');
+    const found = actual.get(key);
+    if (!found) {
+      problems.push(`No output sends ${formatAssetAmount(config.network, assetId, amount)} to ${to}`);
+    } else if (!found.eq(amount)) {
+      problems.push(
+        `Output to ${to} sends ${formatAssetAmount(config.network, assetId, found)}, ` +
+          `not ${formatAssetAmount(config.network, assetId, amount)}`
+      );
+    }
+  }
+
+  for (const [key, amount] of actual) {
+    if (!expected.has(key)) {
+      const [to, assetId] = key.split(':');
+      problems.push(`Unlisted output sends ${formatAssetAmount(config.network, assetId, amount)} to ${to}`);
+    }
+  }
+
+  return { hashTxId, chainId, vaultAddress, problems };
+}
+
+/**
+ * Total amount sent per asset, compared with the vault balance
+ * @interface AssetTotal
+ */
+export interface AssetTotal {
+  /** Asset ID */
+  assetId: string;
+  /** Number of transfers of this asset */
+  count: number;
+  /** Sum of all transfers of this asset, in base units */
+  total: string;
+  /** Vault balance of this asset, in base units */
+  balance: string;
+  /** True if the balance covers the total (fees not included) */
+  sufficient: boolean;
+}
+
+/**
+ * Sums the transfers per asset and checks each total against the vault balance.
+ * Amounts are decimal amounts, converted with the decimals of their asset.
+ * @param {VaultConfig} config - Vault configuration
+ * @param {TransferInput[]} transfers - Transfers to total
+ * @param {Array<{assetId: string, amount: string}>} [balances] - Vault balances, fetched if not provided
+ * @returns {Promise<AssetTotal[]>} One entry per asset, in first-seen order
+ * @throws {VaultError} INVALID_INPUT if an amount is not valid for its asset
+ */
+export async function getTransferTotals(
+  config: VaultConfig,
+  transfers: TransferInput[],
+  balances?: Array<{ assetId: string; amount: string }>
+): Promise<AssetTotal[]> {
+  const totals = new Map<string, { count: number; total: BN }>();
+
+  for (const t of transfers) {
+    const assetId = (t.assetId || defaultAssetId(config.network)).toLowerCase();
+    const entry = totals.get(assetId) ?? { count: 0, total: bn(0) };
+    entry.count += 1;
+    entry.total = entry.total.add(transferBaseUnits(t, config));
+    totals.set(assetId, entry);
+  }
+
+  const vaultBalances = balances ?? (await getVaultBalances(config));
+
+  return [...totals.entries()].map(([assetId, { count, total }]) => {
+    const balance = vaultBalances.find(b => b.assetId.toLowerCase() === assetId)?.amount ?? '0';
+    return {
+      assetId,
+      count,
+      total: total.toString(),
+      balance,
+      sufficient: bn(balance).gte(total),
+    };
+  });
+}
+
+/**
+ * Result of merging signatures into a pending transaction
+ * @interface AddSignaturesResult
+ */
+export interface AddSignaturesResult {
+  /** Signatures that were added */
+  added: Signature[];
+  /** Signatures skipped because their signer already signed */
+  duplicates: Signature[];
+  /** Stored signatures that failed verification and were replaced by an added one */
+  replaced: Signature[];
+  /** Unique signers after the merge (only verified ones when a wallet is given) */
+  signers: number;
+  /** True if the required number of signatures is reached */
+  thresholdReached: boolean;
+}
+
+/**
+ * Counts the unique signers of a pending transaction
+ * @param {PendingTransaction} pending - Pending transaction
+ * @returns {number} Number of unique signers
+ */
+export function countSigners(pending: PendingTransaction): number {
+  return new Set(pending.signatures.map(s => s.signer.toLowerCase())).size;
+}
+
+/**
+ * Merges signatures into a pending transaction (the caller stores it).
+ * A signer that already signed keeps its first signature, unless a wallet is given and that
+ * signature fails verification: then the new one takes its place, and only verified signers count.
+ * @param {PendingTransaction} pending - Pending transaction (updated in place)
+ * @param {Signature[]} signatures - Signatures to add
+ * @param {WalletConfig} [wallet] - Wallet configuration, to replace and not count signatures that fail verification
+ * @returns {AddSignaturesResult} What was added and whether the threshold is reached
+ */
+export function addSignatures(
+  pending: PendingTransaction,
+  signatures: Signature[],
+  wallet?: WalletConfig
+): AddSignaturesResult {
+  const added: Signature[] = [];
+  const duplicates: Signature[] = [];
+  const replaced: Signature[] = [];
+  const seen = new Set(pending.signatures.map(s => s.signer.toLowerCase()));
+  const stale = new Set(
+    wallet
+      ? verifySignatures(pending, wallet)
+          .filter(c => !isAccepted(c))
+          .map(c => c.signer.toLowerCase())
+      : []
+  );
+
+  for (const sig of signatures) {
+    const key = sig.signer.toLowerCase();
+    if (stale.has(key)) {
+      stale.delete(key);
+      replaced.push(...pending.signatures.filter(s => s.signer.toLowerCase() === key));
+      pending.signatures = pending.signatures.filter(s => s.signer.toLowerCase() !== key);
+    } else if (seen.has(key)) {
+      duplicates.push(sig);
+      continue;
+    }
+    seen.add(key);
+    added.push(sig);
+    pending.signatures.push(sig);
+  }
+
+  const signers = wallet ? countVerifiedSigners(verifySignatures(pending, wallet)) : countSigners(pending);
+
+  return {
+    added,
+    duplicates,
+    replaced,
+    signers,
+    thresholdReached: signers >= pending.requiredSignatures,
   };
 }
 
+/**
+ * Verifies external signatures and merges only the verified ones into a pending transaction.
+ * A stored signature that fails verification is replaced by a verified one from the same signer.
+ * @param {PendingTransaction} pending - Pending transaction (updated in place)
+ * @param {WalletConfig} wallet - Wallet configuration of the vault
+ * @param {Signature[]} signatures - Signatures to import
+ * @returns {{checks: SignatureCheck[], result: AddSignaturesResult}} Verification results and merge result
+ */
+export function importSignatures(
+  pending: PendingTransaction,
+  wallet: WalletConfig,
+  signatures: Signature[]
+): { checks: SignatureCheck[]; result: AddSignaturesResult } {
+  const checks = verifySignatures(pending, wallet, signatures);
+  const verified = signatures.filter((_, i) => isAccepted(checks[i]));
+  return { checks, result: addSignatures(pending, verified, wallet) };
+}
+
 /**
  * Result of sending a transaction
  * @interface SendTxResult
@@ -87,41 +426,67 @@ export interface SendTxResult {
 }
 
 /**
- * Sends a pending transaction with the provided signatures
+ * Sends a pending transaction with its collected signatures.
+ * Only signatures that verify against hashTxId and the vault's SIGNERS are encoded.
+ * A transient network error moves on to the next endpoint of the network, with retries. Before
+ * every submission the node is asked whether the transaction ID is already known (an earlier
+ * attempt may have reached it before failing); if so, its result is awaited instead of
+ * submitting it again.
  * @param {VaultConfig} config - Vault configuration
- * @param {Array<{signer: string, signature: string}>} signatures - Array of signer addresses and signatures
+ * @param {PendingTransaction} pending - Pending transaction to send
  * @returns {Promise<SendTxResult>} Transaction result with ID and status
+ * @throws {VaultError} THRESHOLD_NOT_MET if fewer verified signatures than required are available
  */
 export async function sendTransaction(
   config: VaultConfig,
-  signatures: Array<{ signer: string; signature: string }>
+  pending: PendingTransaction
 ): Promise<SendTxResult> {
-  const { vault } = await createVaultInstance(config);
+  const checks = verifySignatures(pending, config);
+  const verified = countVerifiedSigners(checks);
 
-  // Load the pending transaction
-  const pending = loadPendingTransaction();
+  if (verified < pending.requiredSignatures) {
+    const rejected = checks.filter(c => !isAccepted(c));
+    throw new VaultError(
+      `Need ${pending.requiredSignatures} verified signatures, got ${verified}` +
+        (rejected.length > 0 ? `. Not counted: ${rejected.map(c => `${c.signer}: ${c.reason}`).join('; ')}` : ''),
+      'THRESHOLD_NOT_MET',
+      { required: pending.requiredSignatures, verified, rejected }
+    );
+  }
 
-  const tx = ScriptTransactionRequest.from(pending.txRequest)
+  const validSignatures = pending.signatures.filter((_, i) => isAccepted(checks[i]));
+  const transactionId = `0x${normalizeTxId(pending.hashTxId)}`;
 
-  // Build witnesses array with encoded signatures (same as SDK tests)
-  const witnesses: string[] = [];
-  for (const sig of signatures) {
-    const encodedSignature = vault.encodeSignature(sig.signer, sig.signature);
-    witnesses.push(encodedSignature);
-  }
+  return withProvider(config.network, async provider => {
+    // An earlier attempt may have reached the node before failing: never submit twice
+    if (await provider.getTransaction(transactionId)) {
+      const response = await provider.getTransactionResponse(transactionId);
+      const result = await response.waitForResult();
+      return { transactionId, status: result.status || 'success' };
+    }
 
-  // Set witnesses directly on tx (same as SDK tests: tx.witnesses = [...])
-  tx.witnesses = witnesses;
+    const { vault } = await createVaultInstance(config, provider);
 
-  // Send using vault.send (same as SDK tests)
-  const response = await vault.send(tx);
-  const result = await response.waitForResult();
+    const tx = ScriptTransactionRequest.from(pending.txRequest);
 
-  // Clean up pending transaction
-  deletePendingTransaction();
+    // Build witnesses array with encoded signatures (same as SDK tests).
+    // Only verified signatures are encoded; passkey signatures carry their WebAuthn assertion data.
+    const witnesses: string[] = [];
+    for (const sig of validSignatures) {
+      const encodedSignature = vault.encodeSignature(sig.signer, toEncodableSignature(sig));
+      witnesses.push(encodedSignature);
+    }
 
-  return {
-    transactionId: response.id,
-    status: result.status || 'success',
-  };
+    // Set witnesses directly on tx (same as SDK tests: tx.witnesses = [...])
+    tx.witnesses = witnesses;
+
+    // Send using vault.send (same as SDK tests)
+    const response = await vault.send(tx);
+    const result = await response.waitForResult();
+
+    return {
+      transactionId: response.id,
+      status: result.status || 'success',
+    };
+  });
 }
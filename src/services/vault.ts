@@ -4,8 +4,23 @@
  */
 
 import { Provider } from 'fuels';
-import { Vault } from 'bakosafe';
-import type { VaultConfig } from '../types.js';
+import { Vault, getAllPredicateVersions } from 'bakosafe';
+import { defaultAssetId } from '../utils/assets.js';
+import { retry } from '../utils/async.js';
+import { VaultError, isTransientError } from '../utils/errors.js';
+import type { NetworkConfig, VaultConfig } from '../types.js';
+
+/** Providers shared per node URL and request timeout, so each node is set up once per process */
+const providers = new Map<string, Provider>();
+
+/** Default time limit of each node request of vault and transaction operations, in milliseconds */
+export const DEFAULT_RPC_TIMEOUT_MS = 30_000;
+
+/** Default number of retries once every endpoint of a network failed with a transient error */
+export const DEFAULT_RPC_RETRIES = 2;
+
+/** Delay before the first retry in milliseconds, doubled before each next one */
+const RPC_RETRY_DELAY_MS = 500;
 
 /**
  * Vault information response
@@ -37,13 +52,111 @@ export interface VaultInstance {
   config: VaultConfig;
 }
 
+/**
+ * Options of operations run against the endpoints of a network
+ * @interface ProviderOptions
+ */
+export interface ProviderOptions {
+  /** Time limit of each request in milliseconds (default: 30 seconds, 0 for none) */
+  timeout?: number;
+  /** Retries once every endpoint failed with a transient error (default: 2) */
+  retries?: number;
+}
+
+/**
+ * Lists the RPC endpoints of a network in priority order: `url`, then `fallbackUrls`
+ * @param {NetworkConfig} network - Network configuration
+ * @returns {string[]} Distinct endpoint URLs
+ */
+export function networkUrls(network: NetworkConfig): string[] {
+  return [...new Set([network.url, ...(network.fallbackUrls ?? [])])];
+}
+
+/**
+ * Gets the shared provider of a node URL
+ * @param {string} url - Node URL
+ * @param {number} [timeout] - Time limit of each request in milliseconds (default: none)
+ * @returns {Provider} Provider of the node
+ * @private
+ */
+function providerFor(url: string, timeout?: number): Provider {
+  const key = `${url}#${timeout || ''}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = new Provider(url, timeout ? { timeout } : undefined);
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Gets the provider of a network's primary endpoint (`url`), shared by every vault on it
+ * @param {NetworkConfig} network - Network configuration
+ * @param {number} [timeout] - Time limit of each request in milliseconds (default: none)
+ * @returns {Provider} Provider of the network's node
+ */
+export function getProvider(network: NetworkConfig, timeout?: number): Provider {
+  return providerFor(network.url, timeout);
+}
+
+/**
+ * Runs a node operation against the endpoints of a network. Endpoints are tried in priority order
+ * and the next one is used when an operation fails with a transient error (unreachable node,
+ * timeout, empty response); once all failed, the round starts over after an exponential backoff,
+ * up to `retries` times. Any other error is thrown at once. The operation may run several times,
+ * so it must be safe to repeat.
+ * @template T
+ * @param {NetworkConfig} network - Network configuration
+ * @param {(provider: Provider) => Promise<T>} fn - Operation to run with the provider of an endpoint
+ * @param {ProviderOptions} [options={}] - Request timeout and number of retries
+ * @returns {Promise<T>} Result of the first endpoint that succeeded
+ * @throws The error of the last endpoint tried, or the first error that is not transient
+ */
+export async function withProvider<T>(
+  network: NetworkConfig,
+  fn: (provider: Provider) => Promise<T>,
+  options: ProviderOptions = {}
+): Promise<T> {
+  const { timeout = DEFAULT_RPC_TIMEOUT_MS, retries = DEFAULT_RPC_RETRIES } = options;
+
+  return retry(
+    async () => {
+      let lastError: unknown;
+      for (const url of networkUrls(network)) {
+        try {
+          return await fn(providerFor(url, timeout));
+        } catch (error) {
+          if (!isTransientError(error)) {
+            throw error;
+          }
+          lastError = error;
+        }
+      }
+      throw lastError;
+    },
+    { retries, baseDelay: RPC_RETRY_DELAY_MS, shouldRetry: isTransientError }
+  );
+}
+
+/**
+ * Connects to the first endpoint of a network that answers, in priority order, with retries
+ * @param {NetworkConfig} network - Network configuration
+ * @param {ProviderOptions} [options] - Request timeout and number of retries
+ * @returns {Promise<Provider>} Initialized provider of the endpoint
+ * @throws If no endpoint answered
+ */
+export async function connectProvider(network: NetworkConfig, options?: ProviderOptions): Promise<Provider> {
+  return withProvider(network, provider => provider.init(), options);
+}
+
 /**
  * Creates a BakoSafe Vault instance from configuration
  * @param {VaultConfig} config - Vault configuration containing wallet and network info
+ * @param {Provider} [provider] - Provider to use (default: the first endpoint of the network that answers)
  * @returns {Promise<VaultInstance>} The vault instance with provider
  */
-export async function createVaultInstance(config: VaultConfig): Promise<VaultInstance> {
-  const provider = new Provider(config.network.url);
+export async function createVaultInstance(config: VaultConfig, provider?: Provider): Promise<VaultInstance> {
+  provider ??= await connectProvider(config.network);
 
   const vaultConfig = {
     SIGNATURES_COUNT: config.config.SIGNATURES_COUNT,
@@ -66,7 +179,7 @@ export async function getVaultInfo(config: VaultConfig): Promise<VaultInfo> {
 
   let balance = '0';
   try {
-    const balanceResult = await vault.getBalance(config.network.assets.ETH);
+    const balanceResult = await vault.getBalance(defaultAssetId(config.network));
     balance = balanceResult.toString();
   } catch {
     balance = '0';
@@ -84,12 +197,18 @@ export async function getVaultInfo(config: VaultConfig): Promise<VaultInfo> {
 /**
  * Gets all asset balances for a vault
  * @param {VaultConfig} config - Vault configuration
+ * @param {Provider} [provider] - Provider to use (default: the network's endpoints in turn, with retries)
  * @returns {Promise<Array<{assetId: string, amount: string}>>} Array of asset balances
+ * @throws {VaultError} NETWORK_ERROR if the node cannot be reached or timed out; other errors are thrown unchanged
  */
 export async function getVaultBalances(
-  config: VaultConfig
+  config: VaultConfig,
+  provider?: Provider
 ): Promise<Array<{ assetId: string; amount: string }>> {
-  const { vault } = await createVaultInstance(config);
+  if (!provider) {
+    return withProvider(config.network, p => getVaultBalances(config, p));
+  }
+  const { vault } = await createVaultInstance(config, provider);
 
   try {
     const response = await vault.getBalances();
@@ -97,7 +216,31 @@ export async function getVaultBalances(
       assetId: b.assetId,
       amount: b.amount.toString(),
     }));
-  } catch {
-    return [];
+  } catch (error) {
+    // Only connection failures and timeouts are network errors, and only they are retried
+    if (!isTransientError(error)) {
+      throw error;
+    }
+    const reason =
+      (error as Error).name === 'TimeoutError' ? 'the request timed out' : (error as Error).message;
+    throw new VaultError(`Could not load balances from ${provider.url}: ${reason}`, 'NETWORK_ERROR');
   }
 }
+
+/**
+ * Computes the address of a vault configuration (the predicate address); nothing is sent to the network
+ * @param {VaultConfig} config - Vault configuration
+ * @returns {Promise<string>} Vault address in B256 format
+ */
+export async function getVaultAddress(config: VaultConfig): Promise<string> {
+  const { vault } = await createVaultInstance(config, getProvider(config.network));
+  return vault.address.toB256();
+}
+
+/**
+ * Lists the predicate versions bundled with the installed BakoSafe SDK
+ * @returns {string[]} Predicate version hashes
+ */
+export function getSupportedVersions(): string[] {
+  return getAllPredicateVersions();
+}
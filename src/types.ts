@@ -28,17 +28,32 @@ export interface WalletConfig {
   config: PredicateConfigurable;
   /** Predicate bytecode version hash */
   version: string;
+  /** Expected vault address (e.g. as shown by BakoSafe), checked by `doctor` */
+  address?: string;
 }
 
 /**
- * Network asset identifiers
+ * An asset declared in a network file, with its display metadata
+ * @interface AssetDefinition
+ */
+export interface AssetDefinition {
+  /** Asset ID */
+  assetId: string;
+  /** Number of decimals of the display unit (default: 9) */
+  decimals?: number;
+  /** Display name, e.g. "USD Coin" */
+  name?: string;
+}
+
+/**
+ * Assets of a network, keyed by symbol: an asset ID, or an asset ID with its metadata
  * @interface NetworkAssets
  */
 export interface NetworkAssets {
-  /** ETH asset ID for the network */
-  ETH: string;
-  /** USDC asset ID for the network */
-  USDC: string;
+  /** ETH, the asset used when a transfer names none */
+  ETH: string | AssetDefinition;
+  /** Any other asset */
+  [symbol: string]: string | AssetDefinition;
 }
 
 /**
@@ -50,6 +65,8 @@ export interface NetworkConfig {
   name: string;
   /** RPC URL for the Fuel provider */
   url: string;
+  /** Other RPC URLs of the network, tried in order when `url` fails */
+  fallbackUrls?: string[];
   /** Asset IDs for the network */
   assets: NetworkAssets;
   /** Optional chain ID */
@@ -69,16 +86,62 @@ export interface VaultConfig extends WalletConfig {
 }
 
 /**
- * Transaction input parameters
- * @interface TransactionInput
+ * Unit of an amount
+ * - `decimal`: display units of the asset, e.g. `1.5` USDC
+ * - `base`: smallest units of the asset, e.g. `1500000` for 1.5 USDC (6 decimals)
+ * @typedef AmountUnits
  */
-export interface TransactionInput {
+export type AmountUnits = 'decimal' | 'base';
+
+/**
+ * A single transfer (one output) of a vault transaction
+ * @interface TransferInput
+ */
+export interface TransferInput {
   /** Recipient address (B256 format) */
   to: string;
-  /** Amount to transfer (decimal string, e.g., '0.001' for 0.001 ETH) */
+  /**
+   * Amount to transfer, in the decimals of its asset (e.g. '0.001' for 0.001 ETH), or in base units
+   * if the transaction input says so. Stored transactions always hold the exact decimal amount.
+   */
   amount: string;
-  /** Optional asset ID (defaults to ETH) */
+  /** Optional asset ID, or symbol from the network file until the transaction is created (defaults to ETH) */
   assetId?: string;
+  /** Optional local note (not recorded on-chain) */
+  memo?: string;
+}
+
+/**
+ * Transaction input parameters
+ * @interface TransactionInput
+ */
+export interface TransactionInput {
+  /** Transfers included in the transaction (at least one) */
+  transfers: TransferInput[];
+  /** Unit of the transfer amounts (default: decimal) */
+  units?: AmountUnits;
+}
+
+/**
+ * Kind of key that produced a signature
+ * - `fuel`: Fuel secp256k1 key, signs the hash with `wallet.signMessage`
+ * - `evm`: EVM secp256k1 key, signs the hash with `personal_sign` (65-byte r/s/v)
+ * - `webauthn`: passkey assertion imported from a browser or authenticator
+ * @typedef SignerKind
+ */
+export type SignerKind = 'fuel' | 'evm' | 'webauthn';
+
+/**
+ * WebAuthn assertion fields needed to encode a passkey signature
+ * @interface WebAuthnData
+ */
+export interface WebAuthnData {
+  /** clientDataJSON bytes before the challenge (hex) */
+  prefix: string;
+  /** clientDataJSON bytes after the challenge (hex) */
+  suffix: string;
+  /** Authenticator data (hex) */
+  authData: string;
 }
 
 /**
@@ -88,8 +151,54 @@ export interface TransactionInput {
 export type Signature = {
   signer: string;
   signature: string;
+  /** Kind of signer (defaults to 'fuel', or 'evm' for zero-padded EVM addresses) */
+  kind?: SignerKind;
+  /** Assertion data, required when kind is 'webauthn' */
+  webauthn?: WebAuthnData;
 };
 
+/**
+ * Kind of key held in the local keystore (passkeys never leave the authenticator)
+ * @typedef StoredKeyKind
+ */
+export type StoredKeyKind = Exclude<SignerKind, 'webauthn'>;
+
+/**
+ * Signer key stored in the local keystore (`.keys/<alias>.json`)
+ * @interface StoredKey
+ */
+export interface StoredKey {
+  /** Alias used to select the key */
+  alias: string;
+  /** Kind of key */
+  kind: StoredKeyKind;
+  /** Signer address as listed in a vault's SIGNERS (B256; padded for EVM keys) */
+  signer: string;
+  /** Derivation path, when the key was derived from a mnemonic */
+  derivationPath?: string;
+  /** ISO timestamp of import or generation */
+  createdAt: string;
+  /** Password-encrypted private key (Ethereum-style v3 keystore: scrypt + AES-128-CTR) */
+  keystore: Record<string, unknown>;
+}
+
+/**
+ * Named recipient of the address book (`address-book.json`)
+ * @interface Contact
+ */
+export interface Contact {
+  /** Name used in place of the address, e.g. `--to alice` */
+  name: string;
+  /** Address on every network without its own entry in `networks` */
+  address?: string;
+  /** Addresses on specific networks, by network name */
+  networks?: Record<string, string>;
+  /** Free-form note */
+  note?: string;
+  /** ISO timestamp of creation */
+  createdAt: string;
+}
+
 /**
  * Pending transaction stored while waiting for signatures
  * @interface PendingTransaction
@@ -113,17 +222,113 @@ export interface PendingTransaction {
   signatures: Signature[];
   /** Number of signatures required */
   requiredSignatures: number;
+  /** Hash of the stale pending transaction this one was rebuilt from */
+  rebuiltFrom?: string;
 }
 
 /**
- * Transaction file format for JSON input
+ * Storage of pending transactions, keyed by hashTxId.
+ * The CLI stores them as files; library users can plug in their own storage (e.g. a database).
+ * @interface PendingStore
+ */
+export interface PendingStore {
+  /** Lists all pending transactions, oldest first */
+  list(): Promise<PendingTransaction[]>;
+  /** Gets a pending transaction by its full hash, or undefined if it is not stored */
+  get(hashTxId: string): Promise<PendingTransaction | undefined>;
+  /** Saves a pending transaction (overwrites the entry with the same hash) */
+  save(pending: PendingTransaction): Promise<void>;
+  /** Deletes a pending transaction (no-op if it is not stored) */
+  delete(hashTxId: string): Promise<void>;
+}
+
+/**
+ * Kind of event recorded in the transaction ledger
+ * @typedef LedgerEvent
+ */
+export type LedgerEvent = 'created' | 'signed' | 'sent' | 'failed' | 'discarded';
+
+/**
+ * One event of the local transaction ledger
+ * @interface LedgerEntry
+ */
+export interface LedgerEntry {
+  /** What happened */
+  event: LedgerEvent;
+  /** ISO timestamp of the event */
+  timestamp: string;
+  /** Transaction hash to be signed */
+  hashTxId: string;
+  /** Name of the wallet used */
+  walletName: string;
+  /** Name of the network */
+  networkName: string;
+  /** Transfers of the transaction */
+  transfers: TransferInput[];
+  /** Signers that signed (`signed`) or whose signatures were sent (`sent`, `failed`) */
+  signers?: string[];
+  /** Transaction ID on the blockchain (`sent`) */
+  transactionId?: string;
+  /** Transaction status reported by the node (`sent`) */
+  status?: string;
+  /** Error message (`failed`) */
+  error?: string;
+  /** Hash of the stale transaction this one was rebuilt from (`created`) */
+  rebuiltFrom?: string;
+  /** Hash of the transaction that replaced this one (`discarded` by a rebuild) */
+  replacedBy?: string;
+}
+
+/**
+ * Append-only record of transaction events. The CLI keeps it in a JSON Lines file;
+ * library users can plug in their own storage.
+ * @interface TransactionLedger
+ */
+export interface TransactionLedger {
+  /** Appends an event */
+  append(entry: LedgerEntry): Promise<void>;
+  /** Lists all events, oldest first */
+  list(): Promise<LedgerEntry[]>;
+}
+
+/**
+ * Balances of a vault on a network, as last fetched
+ * @interface BalanceCacheEntry
+ */
+export interface BalanceCacheEntry {
+  /** ISO timestamp of the query */
+  fetchedAt: string;
+  /** Balances in base units */
+  balances: Array<{ assetId: string; amount: string }>;
+}
+
+/**
+ * Short-lived cache of vault balances, keyed by node URL and vault address.
+ * The CLI keeps it in a JSON file; library users can plug in their own storage.
+ * @interface BalanceCache
+ */
+export interface BalanceCache {
+  /** Gets the cached balances of a key, if any (whatever their age) */
+  get(key: string): Promise<BalanceCacheEntry | undefined>;
+  /** Stores the balances of a key, replacing the previous ones */
+  set(key: string, entry: BalanceCacheEntry): Promise<void>;
+}
+
+/**
+ * Transaction file format for JSON input.
+ * Either a single transfer (`to`/`amount`/`assetId`) or a `transfers` list;
+ * a bare JSON array of transfers is accepted as well.
  * @interface TransactionFile
  */
 export interface TransactionFile {
-  /** Recipient address */
-  to: string;
-  /** Amount to transfer (decimal string) */
-  amount: string;
-  /** Optional asset ID */
+  /** Recipient address (single transfer) */
+  to?: string;
+  /** Amount to transfer (single transfer) */
+  amount?: string;
+  /** Optional asset ID or symbol (single transfer) */
   assetId?: string;
+  /** List of transfers (batch) */
+  transfers?: TransferInput[];
+  /** Unit of the amounts: `decimal` (default) or `base` */
+  units?: AmountUnits;
 }
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Address book of named recipients, stored in one JSON file, with optional
+ * per-network addresses and notes
+ * @module utils/address-book
+ */
+
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { isB256 } from 'fuels';
+import type { Contact } from '../types.js';
+import { VaultError } from './errors.js';
+
+/** File of the CLI's address book */
+const ADDRESS_BOOK_FILE = join(process.cwd(), 'address-book.json');
+
+/** Contact name format: starts with a letter, so it never reads as an address */
+const CONTACT_NAME_REGEX = /^[A-Za-z][A-Za-z0-9_.-]*$/;
+
+/**
+ * Outcome of importing contacts
+ * @interface ImportContactsResult
+ */
+export interface ImportContactsResult {
+  /** Names of the contacts that were new */
+  added: string[];
+  /** Names of existing contacts that were replaced (with `overwrite`) */
+  replaced: string[];
+  /** Names of existing contacts that were kept */
+  skipped: string[];
+}
+
+/**
+ * Options of {@link addContact}
+ * @interface AddContactOptions
+ */
+export interface AddContactOptions {
+  /** Network the address is for (default: every network) */
+  network?: string;
+  /** Note to store with the contact */
+  note?: string;
+  /** Replace the address if the contact already has one for the network */
+  force?: boolean;
+}
+
+/**
+ * Validates a contact name
+ * @param {string} name - Contact name
+ * @throws {VaultError} INVALID_INPUT if the name does not start with a letter or contains
+ *   characters other than letters, digits, ., - and _
+ */
+export function validateContactName(name: string): void {
+  if (!CONTACT_NAME_REGEX.test(name)) {
+    throw new VaultError(
+      `Invalid contact name "${name}". Start with a letter and use letters, digits, ., - and _ only.`,
+      'INVALID_INPUT'
+    );
+  }
+}
+
+/**
+ * Checks a contact read from a file or built from options
+ * @param {unknown} value - Contact to check
+ * @returns {Contact} The contact
+ * @throws {VaultError} INVALID_INPUT if the name or an address is invalid, or it has no address
+ * @private
+ */
+function checkContact(value: unknown): Contact {
+  const contact = value as Contact;
+  if (typeof contact !== 'object' || contact === null || typeof contact.name !== 'string') {
+    throw new VaultError(
+      `Invalid contact ${JSON.stringify(value)}: expected an object with a "name"`,
+      'INVALID_INPUT'
+    );
+  }
+  validateContactName(contact.name);
+
+  const addresses = [contact.address, ...Object.values(contact.networks ?? {})];
+  if (addresses.every(a => a === undefined)) {
+    throw new VaultError(`Contact "${contact.name}" has no address`, 'INVALID_INPUT');
+  }
+  for (const address of addresses) {
+    if (address !== undefined && !isB256(address)) {
+      throw new VaultError(
+        `Contact "${contact.name}" has an invalid address "${address}" ` +
+          '(expected 0x followed by 64 hex characters)',
+        'INVALID_INPUT'
+      );
+    }
+  }
+  if (contact.note !== undefined && typeof contact.note !== 'string') {
+    throw new VaultError(`Contact "${contact.name}" has a note that is not a string`, 'INVALID_INPUT');
+  }
+  return contact;
+}
+
+/**
+ * Parses contacts from an address book or export file: `{ "contacts": [...] }` or a bare array
+ * @param {unknown} value - Parsed JSON
+ * @returns {Contact[]} Checked contacts (a missing `createdAt` is set to now)
+ * @throws {VaultError} INVALID_INPUT if the format or a contact is invalid, or a name is repeated
+ */
+export function parseContacts(value: unknown): Contact[] {
+  const list = Array.isArray(value) ? value : (value as { contacts?: unknown } | null)?.contacts;
+  if (!Array.isArray(list)) {
+    throw new VaultError('Expected { "contacts": [...] } or an array of contacts', 'INVALID_INPUT');
+  }
+
+  const seen = new Set<string>();
+  return list.map(entry => {
+    const contact = checkContact(entry);
+    const key = contact.name.toLowerCase();
+    if (seen.has(key)) {
+      throw new VaultError(`Contact "${contact.name}" is listed twice`, 'INVALID_INPUT');
+    }
+    seen.add(key);
+    return { ...contact, createdAt: contact.createdAt ?? new Date().toISOString() };
+  });
+}
+
+/**
+ * Loads the address book
+ * @param {string} [path] - Address book file (default: `address-book.json` in the working directory)
+ * @returns {Contact[]} Contacts sorted by name (empty if the file does not exist)
+ * @throws {VaultError} INVALID_CONFIG if the file cannot be parsed or holds an invalid contact
+ */
+export function loadAddressBook(path: string = ADDRESS_BOOK_FILE): Contact[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+  try {
+    return parseContacts(JSON.parse(readFileSync(path, 'utf-8')));
+  } catch (error) {
+    throw new VaultError(`Invalid address book ${path}: ${(error as Error).message}`, 'INVALID_CONFIG');
+  }
+}
+
+/**
+ * Writes the address book, sorted by name and with the fields of each contact in a fixed order
+ * @param {Contact[]} contacts - Every contact
+ * @param {string} path - Address book file
+ * @private
+ */
+function writeAddressBook(contacts: Contact[], path: string): void {
+  const sorted = [...contacts]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(({ name, address, networks, note, createdAt }) => ({ name, address, networks, note, createdAt }));
+  writeFileSync(path, JSON.stringify({ contacts: sorted }, null, 2) + '\n');
+}
+
+/**
+ * Finds a contact by name, ignoring case
+ * @param {string} name - Contact name
+ * @param {Contact[]} [contacts] - Contacts to search (default: the address book)
+ * @returns {Contact | undefined} The contact, if any
+ */
+export function findContact(name: string, contacts: Contact[] = loadAddressBook()): Contact | undefined {
+  return contacts.find(c => c.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Builds the error of a missing contact
+ * @param {string} name - Contact name
+ * @returns {VaultError} CONTACT_NOT_FOUND error
+ * @private
+ */
+function contactNotFound(name: string): VaultError {
+  return new VaultError(
+    `Contact "${name}" not found. Run "bako-vault address-book list" to see contacts.`,
+    'CONTACT_NOT_FOUND'
+  );
+}
+
+/**
+ * Loads a contact by name
+ * @param {string} name - Contact name
+ * @returns {Contact} The contact
+ * @throws {VaultError} CONTACT_NOT_FOUND if there is no such contact
+ */
+export function loadContact(name: string): Contact {
+  const contact = findContact(name);
+  if (!contact) {
+    throw contactNotFound(name);
+  }
+  return contact;
+}
+
+/**
+ * Gets the address of a contact on a network
+ * @param {Contact} contact - Contact
+ * @param {string} network - Network name
+ * @returns {string | undefined} The network's own address, else the contact's address for every network
+ */
+export function contactAddress(contact: Contact, network: string): string | undefined {
+  return contact.networks?.[network] ?? contact.address;
+}
+
+/**
+ * Adds a contact, or an address to an existing contact (for every network or for one network)
+ * @param {string} name - Contact name
+ * @param {string} address - Address (B256)
+ * @param {AddContactOptions} [options={}] - Network, note and whether to replace an existing address
+ * @param {string} [path] - Address book file (default: `address-book.json` in the working directory)
+ * @returns {Contact} The stored contact
+ * @throws {VaultError} INVALID_INPUT for an invalid name or address, CONTACT_EXISTS if the contact
+ *   already has an address for the network and `force` is not set
+ */
+export function addContact(
+  name: string,
+  address: string,
+  options: AddContactOptions = {},
+  path: string = ADDRESS_BOOK_FILE
+): Contact {
+  const contacts = loadAddressBook(path);
+  const existing = findContact(name, contacts);
+  const contact: Contact = existing
+    ? structuredClone(existing)
+    : { name, createdAt: new Date().toISOString() };
+
+  const current = options.network ? contact.networks?.[options.network] : contact.address;
+  if (current && !options.force) {
+    throw new VaultError(
+      `Contact "${contact.name}" already has an address${options.network ? ` on ${options.network}` : ''}. ` +
+        'Use --force to replace it.',
+      'CONTACT_EXISTS'
+    );
+  }
+
+  if (options.network) {
+    contact.networks = { ...contact.networks, [options.network]: address };
+  } else {
+    contact.address = address;
+  }
+  if (options.note !== undefined) {
+    contact.note = options.note;
+  }
+  checkContact(contact);
+
+  writeAddressBook([...contacts.filter(c => c !== existing), contact], path);
+  return contact;
+}
+
+/**
+ * Removes a contact
+ * @param {string} name - Contact name
+ * @param {string} [path] - Address book file (default: `address-book.json` in the working directory)
+ * @returns {Contact} The removed contact
+ * @throws {VaultError} CONTACT_NOT_FOUND if there is no such contact
+ */
+export function removeContact(name: string, path: string = ADDRESS_BOOK_FILE): Contact {
+  const contacts = loadAddressBook(path);
+  const contact = findContact(name, contacts);
+  if (!contact) {
+    throw contactNotFound(name);
+  }
+  writeAddressBook(contacts.filter(c => c !== contact), path);
+  return contact;
+}
+
+/**
+ * Merges contacts into the address book. Existing contacts are kept unless `overwrite` is set.
+ * @param {Contact[]} imported - Contacts to import (see {@link parseContacts})
+ * @param {boolean} [overwrite=false] - Replace contacts that already exist
+ * @param {string} [path] - Address book file (default: `address-book.json` in the working directory)
+ * @returns {ImportContactsResult} Names of the added, replaced and skipped contacts
+ */
+export function importContacts(
+  imported: Contact[],
+  overwrite: boolean = false,
+  path: string = ADDRESS_BOOK_FILE
+): ImportContactsResult {
+  const result: ImportContactsResult = { added: [], replaced: [], skipped: [] };
+  let contacts = loadAddressBook(path);
+
+  for (const contact of imported) {
+    const existing = findContact(contact.name, contacts);
+    if (!existing) {
+      result.added.push(contact.name);
+    } else if (overwrite) {
+      result.replaced.push(contact.name);
+      contacts = contacts.filter(c => c !== existing);
+    } else {
+      result.skipped.push(contact.name);
+      continue;
+    }
+    contacts.push(contact);
+  }
+
+  if (result.added.length > 0 || result.replaced.length > 0) {
+    writeAddressBook(contacts, path);
+  }
+  return result;
+}
+
+/**
+ * Resolves a recipient given as an address or a contact name to an address on a network
+ * @param {string} recipient - Address (B256) or contact name
+ * @param {string} network - Network name
+ * @param {Contact[]} [contacts] - Contacts to search (default: the address book, read only for a name)
+ * @returns {string} Address of the recipient
+ * @throws {VaultError} CONTACT_NOT_FOUND if it is neither an address nor a contact,
+ *   INVALID_INPUT if the contact has no address on the network
+ */
+export function resolveRecipient(
+  recipient: string,
+  network: string,
+  contacts?: Contact[]
+): string {
+  if (isB256(recipient)) {
+    return recipient;
+  }
+  const contact = findContact(recipient, contacts ?? loadAddressBook());
+  if (!contact) {
+    throw new VaultError(
+      `Unknown recipient "${recipient}": not an address (0x followed by 64 hex characters) ` +
+        'nor a contact of the address book',
+      'CONTACT_NOT_FOUND'
+    );
+  }
+  const address = contactAddress(contact, network);
+  if (!address) {
+    throw new VaultError(`Contact "${contact.name}" has no address on ${network}`, 'INVALID_INPUT');
+  }
+  return address;
+}
+
+/**
+ * Maps the addresses of the address book on a network to their contact names, for display.
+ * Labels are cosmetic: an address book that cannot be read yields no labels.
+ * @param {string} network - Network name
+ * @returns {Map<string, string>} Contact name by lowercase address
+ */
+export function contactLabels(network: string): Map<string, string> {
+  const labels = new Map<string, string>();
+  let contacts: Contact[];
+  try {
+    contacts = loadAddressBook();
+  } catch {
+    return labels;
+  }
+  for (const contact of contacts) {
+    const address = contactAddress(contact, network);
+    if (address && !labels.has(address.toLowerCase())) {
+      labels.set(address.toLowerCase(), contact.name);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Formats an address followed by its contact name, if it has one
+ * @param {string} address - Address
+ * @param {Map<string, string>} labels - Contact names by lowercase address (see {@link contactLabels})
+ * @returns {string} Text like `0x44d4... (alice)`, or the address alone
+ */
+export function labelAddress(address: string, labels: Map<string, string>): string {
+  const name = labels.get(address.toLowerCase());
+  return name ? `${address} (${name})` : address;
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Exact amount parsing and formatting in the decimals of each asset, without floats
+ * @module utils/amounts
+ */
+
+import { bn } from 'fuels';
+import type { BN, BNInput } from 'fuels';
+import { VaultError } from './errors.js';
+import type { AmountUnits } from '../types.js';
+
+/** Accepted amount units */
+export const AMOUNT_UNITS: AmountUnits[] = ['decimal', 'base'];
+
+/** Positive decimal amount format (no sign, no exponent, no separators) */
+const DECIMAL_REGEX = /^\d+(\.\d+)?$/;
+
+/** Positive integer amount format */
+const INTEGER_REGEX = /^\d+$/;
+
+/**
+ * Parses an amount into base units, exactly. A decimal amount may not have more decimal
+ * places than the asset supports, since they would be silently dropped.
+ * @param {string} value - Amount as entered, e.g. `0.25` or `250000`
+ * @param {number} decimals - Decimals of the asset
+ * @param {AmountUnits} [units='decimal'] - Unit of the amount
+ * @returns {BN} Amount in base units (greater than zero)
+ * @throws {VaultError} INVALID_INPUT if the amount is malformed, too precise or zero
+ */
+export function parseAmount(value: string, decimals: number, units: AmountUnits = 'decimal'): BN {
+  let amount: BN;
+  if (units === 'base') {
+    if (!INTEGER_REGEX.test(value)) {
+      throw new VaultError(
+        `invalid amount "${value}" (expected a positive integer of base units)`,
+        'INVALID_INPUT'
+      );
+    }
+    amount = bn(value);
+  } else {
+    if (!DECIMAL_REGEX.test(value)) {
+      throw new VaultError(`invalid amount "${value}" (expected a positive decimal like 0.5)`, 'INVALID_INPUT');
+    }
+    const [whole, fraction = ''] = value.split('.');
+    const places = fraction.replace(/0+$/, '').length;
+    if (places > decimals) {
+      throw new VaultError(
+        `amount "${value}" has ${places} decimal places, the asset supports ${decimals}`,
+        'INVALID_INPUT'
+      );
+    }
+    amount = bn(whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+  }
+
+  if (amount.isZero()) {
+    throw new VaultError('amount must be greater than zero', 'INVALID_INPUT');
+  }
+  return amount;
+}
+
+/**
+ * Converts base units to an exact decimal string, without trailing zeros or separators
+ * @param {BNInput} amount - Amount in base units (may be negative)
+ * @param {number} decimals - Decimals of the asset
+ * @returns {string} Decimal string, e.g. `1234.5`
+ */
+export function toDecimalAmount(amount: BNInput, decimals: number): string {
+  const value = bn(amount);
+  const digits = value.abs().toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${value.isNeg() ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Adds thousands separators to the whole part of a decimal string
+ * @param {string} value - Decimal string, e.g. `1234567.891`
+ * @returns {string} Grouped string, e.g. `1,234,567.891`
+ */
+export function groupThousands(value: string): string {
+  const [whole, fraction] = value.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return fraction === undefined ? grouped : `${grouped}.${fraction}`;
+}
+
+/**
+ * Formats base units for display: exact decimal with thousands separators
+ * @param {BNInput} amount - Amount in base units (may be negative)
+ * @param {number} decimals - Decimals of the asset
+ * @returns {string} Formatted amount, e.g. `1,234.5`
+ */
+export function formatAmount(amount: BNInput, decimals: number): string {
+  return groupThousands(toDecimalAmount(amount, decimals));
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Asset registry of a network: the symbols, asset IDs, decimals and names of its network file
+ * @module utils/assets
+ */
+
+import { isB256 } from 'fuels';
+import type { BNInput } from 'fuels';
+import { formatAmount } from './amounts.js';
+import type { NetworkConfig } from '../types.js';
+
+/** Decimals of an asset that declares none (ETH and most Fuel assets use 9) */
+export const DEFAULT_DECIMALS = 9;
+
+/** Symbol of the asset used when a transfer names none */
+export const DEFAULT_ASSET_SYMBOL = 'ETH';
+
+/**
+ * An asset of the registry
+ * @interface AssetInfo
+ */
+export interface AssetInfo {
+  /** Symbol (the key in the network file), e.g. USDC */
+  symbol: string;
+  /** Asset ID, lowercase */
+  assetId: string;
+  /** Number of decimals of the display unit */
+  decimals: number;
+  /** Display name, if declared */
+  name?: string;
+}
+
+/**
+ * Lists the assets declared by a network. Each entry of `assets` is either an asset ID
+ * or `{ assetId, decimals?, name? }`.
+ * @param {NetworkConfig} network - Network configuration
+ * @returns {AssetInfo[]} Assets in file order
+ */
+export function listAssets(network: NetworkConfig): AssetInfo[] {
+  return Object.entries(network.assets).map(([symbol, entry]) =>
+    typeof entry === 'string'
+      ? { symbol, assetId: entry.toLowerCase(), decimals: DEFAULT_DECIMALS }
+      : {
+          symbol,
+          assetId: entry.assetId.toLowerCase(),
+          decimals: entry.decimals ?? DEFAULT_DECIMALS,
+          ...(entry.name && { name: entry.name }),
+        }
+  );
+}
+
+/**
+ * Finds an asset of the registry by asset ID
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} assetId - Asset ID (any case)
+ * @returns {AssetInfo | undefined} The asset, or undefined if the network does not declare it
+ */
+export function findAsset(network: NetworkConfig, assetId: string): AssetInfo | undefined {
+  const id = assetId.toLowerCase();
+  return listAssets(network).find(a => a.assetId === id);
+}
+
+/**
+ * Gets the asset ID used when a transfer names no asset (ETH)
+ * @param {NetworkConfig} network - Network configuration
+ * @returns {string} Asset ID, lowercase
+ */
+export function defaultAssetId(network: NetworkConfig): string {
+  return resolveAssetId(network, DEFAULT_ASSET_SYMBOL)!;
+}
+
+/**
+ * Resolves a symbol of the registry (case-insensitive) or an asset ID to an asset ID
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} value - Symbol or asset ID
+ * @returns {string | undefined} Asset ID (lowercase), or undefined for an unknown symbol
+ */
+export function resolveAssetId(network: NetworkConfig, value: string): string | undefined {
+  if (isB256(value)) {
+    return value.toLowerCase();
+  }
+  const symbol = value.toLowerCase();
+  return listAssets(network).find(a => a.symbol.toLowerCase() === symbol)?.assetId;
+}
+
+/**
+ * Gets the display label of an asset: its symbol, or its truncated ID if the network does not declare it
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} assetId - Asset ID
+ * @returns {string} Label like "USDC" or "0x286c479d..."
+ */
+export function assetLabel(network: NetworkConfig, assetId: string): string {
+  return findAsset(network, assetId)?.symbol ?? `${assetId.slice(0, 10)}...`;
+}
+
+/**
+ * Gets the decimals of an asset: those of the registry, or the default for an undeclared asset
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} [assetId] - Asset ID (default: ETH)
+ * @returns {number} Number of decimals
+ */
+export function assetDecimals(network: NetworkConfig, assetId?: string): number {
+  return findAsset(network, assetId || defaultAssetId(network))?.decimals ?? DEFAULT_DECIMALS;
+}
+
+/**
+ * Formats an amount of an asset for display, in its decimals and with its label
+ * @param {NetworkConfig} network - Network configuration
+ * @param {string} assetId - Asset ID
+ * @param {BNInput} amount - Amount in base units
+ * @returns {string} Text like "1,234.5 USDC"
+ */
+export function formatAssetAmount(network: NetworkConfig, assetId: string, amount: BNInput): string {
+  return `${formatAmount(amount, assetDecimals(network, assetId))} ${assetLabel(network, assetId)}`;
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Helpers to run asynchronous work concurrently with a limit, and to retry it with backoff
+ * @module utils/async
+ */
+
+/**
+ * Maps items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the items, whatever order the calls finish in.
+ * @template T, R
+ * @param {T[]} items - Items to map
+ * @param {number} limit - Maximum number of calls in flight (at least 1)
+ * @param {(item: T, index: number) => Promise<R>} fn - Async function; should not reject, or the
+ *   first rejection rejects the whole map
+ * @returns {Promise<R[]>} Results in item order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Options of {@link retry}
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry in milliseconds; doubled before each next one */
+  baseDelay: number;
+  /** Whether an error is worth retrying (e.g. a transient network error) */
+  shouldRetry: (error: unknown) => boolean;
+}
+
+/**
+ * Runs an async function until it succeeds, with exponential backoff between attempts
+ * @template T
+ * @param {(attempt: number) => Promise<T>} fn - Function to run, given the attempt number (0 first)
+ * @param {RetryOptions} options - Number of retries, backoff and which errors to retry
+ * @returns {Promise<T>} Result of the first successful attempt
+ * @throws The error of the last attempt, or the first error that is not worth retrying
+ */
+export async function retry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, options.baseDelay * 2 ** attempt));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Balance caches keyed by node URL and vault address: one JSON file, or in memory
+ * @module utils/balance-cache
+ */
+
+import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BalanceCache, BalanceCacheEntry } from '../types.js';
+
+/** Default file of the CLI's balance cache */
+const BALANCE_CACHE_FILE = join(process.cwd(), '.balances-cache.json');
+
+/**
+ * Builds the cache key of a vault on a node
+ * @param {string} url - Node URL
+ * @param {string} address - Vault address
+ * @returns {string} Key like `https://.../v1/graphql#0xabc...`
+ */
+export function balanceCacheKey(url: string, address: string): string {
+  return `${url}#${address.toLowerCase()}`;
+}
+
+/**
+ * Balance cache stored as one JSON object in a file (`.balances-cache.json`).
+ * An unreadable file is treated as empty; it only holds data that can be fetched again.
+ * @class FileBalanceCache
+ * @implements {BalanceCache}
+ */
+export class FileBalanceCache implements BalanceCache {
+  /** Path of the cache file */
+  readonly path: string;
+
+  /**
+   * @param {string} [path] - Cache file (default: `.balances-cache.json` in the working directory)
+   */
+  constructor(path: string = BALANCE_CACHE_FILE) {
+    this.path = path;
+  }
+
+  /** @inheritdoc */
+  async get(key: string): Promise<BalanceCacheEntry | undefined> {
+    return this.read()[key];
+  }
+
+  /** @inheritdoc */
+  async set(key: string, entry: BalanceCacheEntry): Promise<void> {
+    // Read and written synchronously, so concurrent queries of this process do not drop entries
+    const entries = this.read();
+    entries[key] = entry;
+    writeFileSync(this.path, JSON.stringify(entries, null, 2));
+  }
+
+  /**
+   * Reads every entry of the file
+   * @returns {Record<string, BalanceCacheEntry>} Entries by key
+   * @private
+   */
+  private read(): Record<string, BalanceCacheEntry> {
+    if (!existsSync(this.path)) {
+      return {};
+    }
+    try {
+      return JSON.parse(readFileSync(this.path, 'utf-8')) as Record<string, BalanceCacheEntry>;
+    } catch {
+      return {};
+    }
+  }
+}
+
+/**
+ * Balance cache kept in memory, for tests and long-running processes
+ * @class MemoryBalanceCache
+ * @implements {BalanceCache}
+ */
+export class MemoryBalanceCache implements BalanceCache {
+  /** Cached entries by key */
+  private readonly entries = new Map<string, BalanceCacheEntry>();
+
+  /** @inheritdoc */
+  async get(key: string): Promise<BalanceCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    return entry && structuredClone(entry);
+  }
+
+  /** @inheritdoc */
+  async set(key: string, entry: BalanceCacheEntry): Promise<void> {
+    this.entries.set(key, structuredClone(entry));
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Vault clients, pending store and ledger used by the CLI commands
+ * (configuration files in the working directory, pending transactions in `.pending/`,
+ * transaction history in `.history.jsonl`)
+ * @module utils/client
+ */
+
+import { loadWalletConfig, loadNetworkConfig } from './config.js';
+import { FilePendingStore } from './pending.js';
+import { FileLedger } from './ledger.js';
+import { VaultClient } from '../services/client.js';
+
+/** Pending store shared by all commands */
+const pendingStore = new FilePendingStore();
+
+/** Transaction ledger shared by all commands */
+const ledger = new FileLedger();
+
+/**
+ * Gets the CLI's pending store
+ * @returns {FilePendingStore} Store backed by the `.pending` directory
+ */
+export function getPendingStore(): FilePendingStore {
+  return pendingStore;
+}
+
+/**
+ * Gets the CLI's transaction ledger
+ * @returns {FileLedger} Ledger backed by `.history.jsonl`
+ */
+export function getLedger(): FileLedger {
+  return ledger;
+}
+
+/**
+ * Creates a vault client from the configuration files and the CLI's pending store and ledger
+ * @param {string} walletName - Wallet name (file in `wallets/`)
+ * @param {string} networkName - Network name (file in `networks/`)
+ * @returns {VaultClient} Client for the vault on that network
+ * @throws {VaultError} If a configuration file is missing or invalid
+ */
+export function openVaultClient(walletName: string, networkName: string): VaultClient {
+  return new VaultClient({
+    wallet: loadWalletConfig(walletName),
+    network: loadNetworkConfig(networkName),
+    store: pendingStore,
+    ledger,
+  });
+}
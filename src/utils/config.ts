@@ -1,11 +1,15 @@
 /**
- * @fileoverview Configuration utilities for wallet, network, and pending transaction management
+ * @fileoverview Configuration utilities for wallet and network management
  * @module utils/config
  */
 
-import { readFileSync, readdirSync, existsSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { readFileSync, readdirSync, existsSync, mkdirSync, writeFileSync } from 'fs';
 import { join } from 'path';
-import type { WalletConfig, NetworkConfig, PendingTransaction, Signature } from '../types.js';
+import { ZeroBytes32 } from 'fuels';
+import type { WalletConfig, NetworkConfig } from '../types.js';
+import { VaultError } from './errors.js';
+import { checkWalletConfig, checkNetworkConfig, formatIssues, PREDICATE_SIGNERS_LENGTH } from './schema.js';
+import type { ConfigIssue } from './schema.js';
 
 /** Directory containing wallet configuration files */
 const WALLETS_DIR = join(process.cwd(), 'wallets');
@@ -13,9 +17,6 @@ const WALLETS_DIR = join(process.cwd(), 'wallets');
 /** Directory containing network configuration files */
 const NETWORKS_DIR = join(process.cwd(), 'networks');
 
-/** File path for the pending transaction */
-const PENDING_FILE = join(process.cwd(), '.pending-tx.json');
-
 /**
  * Gets the wallets directory path, creating it if it doesn't exist
  * @returns {string} Path to the wallets directory
@@ -38,20 +39,12 @@ export function getNetworksDir(): string {
   return NETWORKS_DIR;
 }
 
-/**
- * Checks if there is a pending transaction
- * @returns {boolean} True if a pending transaction exists
- */
-export function hasPendingTransaction(): boolean {
-  return existsSync(PENDING_FILE);
-}
-
 /**
  * Lists all wallet configuration files
+ * @param {string} [dir] - Directory to list (default: `wallets` in the working directory)
  * @returns {string[]} Array of wallet names (without .json extension)
  */
-export function listWalletFiles(): string[] {
-  const dir = getWalletsDir();
+export function listWalletFiles(dir: string = getWalletsDir()): string[] {
   return readdirSync(dir)
     .filter(file => file.endsWith('.json'))
     .map(file => file.replace('.json', ''));
@@ -59,133 +52,171 @@ export function listWalletFiles(): string[] {
 
 /**
  * Lists all network configuration files
+ * @param {string} [dir] - Directory to list (default: `networks` in the working directory)
  * @returns {string[]} Array of network names (without .json extension)
  */
-export function listNetworkFiles(): string[] {
-  const dir = getNetworksDir();
+export function listNetworkFiles(dir: string = getNetworksDir()): string[] {
   return readdirSync(dir)
     .filter(file => file.endsWith('.json'))
     .map(file => file.replace('.json', ''));
 }
 
+/**
+ * Reads and parses a JSON configuration file
+ * @param {string} filePath - File path
+ * @param {string} label - File name for messages (e.g. `wallets/my-vault.json`)
+ * @returns {unknown} Parsed document
+ * @throws {VaultError} INVALID_CONFIG if the file is not valid JSON
+ * @private
+ */
+function readConfigFile(filePath: string, label: string): unknown {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    const message = `is not valid JSON: ${(error as Error).message}`;
+    throw new VaultError(`${label} ${message}`, 'INVALID_CONFIG', { issues: [{ path: '', message }] });
+  }
+}
+
+/**
+ * Throws the issues found in a configuration, if any
+ * @param {ConfigIssue[]} issues - Issues found
+ * @param {string} label - What was checked, for the message
+ * @throws {VaultError} INVALID_CONFIG listing every issue (also in `details.issues`)
+ * @private
+ */
+function assertNoIssues(issues: ConfigIssue[], label: string): void {
+  if (issues.length > 0) {
+    throw new VaultError(`${label} is invalid: ${formatIssues(issues)}`, 'INVALID_CONFIG', { issues });
+  }
+}
+
 /**
  * Loads a network configuration by name
  * @param {string} name - Network name (filename without extension)
+ * @param {string} [dir] - Directory of network files (default: `networks` in the working directory)
  * @returns {NetworkConfig} The network configuration
- * @throws {Error} If network file doesn't exist or is invalid
+ * @throws {VaultError} If network file doesn't exist or is invalid
  */
-export function loadNetworkConfig(name: string): NetworkConfig {
-  const filePath = join(getNetworksDir(), `${name}.json`);
+export function loadNetworkConfig(name: string, dir: string = getNetworksDir()): NetworkConfig {
+  const filePath = join(dir, `${name}.json`);
 
   if (!existsSync(filePath)) {
-    throw new Error(`Network "${name}" not found. Create a file at networks/${name}.json`);
+    throw new VaultError(
+      `Network "${name}" not found. Create a file at networks/${name}.json`,
+      'NETWORK_NOT_FOUND'
+    );
   }
 
-  const content = readFileSync(filePath, 'utf-8');
-  const config = JSON.parse(content) as NetworkConfig;
+  const config = readConfigFile(filePath, `networks/${name}.json`) as NetworkConfig;
+  validateNetworkConfig(config, `networks/${name}.json`);
   config.name = name;
 
-  validateNetworkConfig(config);
-
   return config;
 }
 
 /**
- * Validates a network configuration
+ * Validates a network configuration against the full schema (URLs, asset IDs, chain ID)
  * @param {NetworkConfig} config - Network configuration to validate
- * @throws {Error} If configuration is invalid
- * @private
+ * @param {string} [label='Network config'] - What is validated, for the message
+ * @throws {VaultError} INVALID_CONFIG listing every issue with its path
  */
-function validateNetworkConfig(config: NetworkConfig): void {
-  if (!config.url) {
-    throw new Error('Network config must have a url');
-  }
-  if (!config.assets || !config.assets.ETH) {
-    throw new Error('Network config must have assets.ETH');
-  }
+export function validateNetworkConfig(config: NetworkConfig, label: string = 'Network config'): void {
+  assertNoIssues(checkNetworkConfig(config), label);
 }
 
 /**
  * Loads a wallet configuration by name
  * @param {string} name - Wallet name (filename without extension)
+ * @param {string} [dir] - Directory of wallet files (default: `wallets` in the working directory)
  * @returns {WalletConfig} The wallet configuration
- * @throws {Error} If wallet file doesn't exist or is invalid
+ * @throws {VaultError} If wallet file doesn't exist or is invalid
  */
-export function loadWalletConfig(name: string): WalletConfig {
-  const filePath = join(getWalletsDir(), `${name}.json`);
+export function loadWalletConfig(name: string, dir: string = getWalletsDir()): WalletConfig {
+  const filePath = join(dir, `${name}.json`);
 
   if (!existsSync(filePath)) {
-    throw new Error(`Wallet "${name}" not found. Create a file at wallets/${name}.json`);
+    throw new VaultError(
+      `Wallet "${name}" not found. Create a file at wallets/${name}.json`,
+      'WALLET_NOT_FOUND'
+    );
   }
 
-  const content = readFileSync(filePath, 'utf-8');
-  const config = JSON.parse(content) as WalletConfig;
+  const config = readConfigFile(filePath, `wallets/${name}.json`) as WalletConfig;
+  validateWalletConfig(config, `wallets/${name}.json`);
   config.name = name;
 
-  validateWalletConfig(config);
-
   return config;
 }
 
 /**
- * Validates a wallet configuration
+ * Validates a wallet configuration against the full schema (addresses, placeholders, duplicates, threshold)
  * @param {WalletConfig} config - Wallet configuration to validate
- * @throws {Error} If configuration is invalid
- * @private
+ * @param {string} [label='Wallet config'] - What is validated, for the message
+ * @throws {VaultError} INVALID_CONFIG listing every issue with its path
  */
-function validateWalletConfig(config: WalletConfig): void {
-  if (!config.config) {
-    throw new Error('Wallet config must have a "config" object');
-  }
-
-  if (!config.config.SIGNERS || config.config.SIGNERS.length === 0) {
-    throw new Error('Wallet config must have SIGNERS array');
-  }
-
-  if (!config.config.SIGNATURES_COUNT || config.config.SIGNATURES_COUNT < 1) {
-    throw new Error('SIGNATURES_COUNT must be at least 1');
-  }
-
-  if (!config.version) {
-    throw new Error('Wallet config must have a "version" field');
-  }
-
-  // Filter out zero addresses for validation
-  const validSigners = config.config.SIGNERS.filter(
-    s => s !== '0x0000000000000000000000000000000000000000000000000000000000000000'
-  );
-  if (config.config.SIGNATURES_COUNT > validSigners.length) {
-    throw new Error('SIGNATURES_COUNT cannot be greater than number of valid signers');
-  }
+export function validateWalletConfig(config: WalletConfig, label: string = 'Wallet config'): void {
+  assertNoIssues(checkWalletConfig(config), label);
 }
 
 /**
- * Saves a pending transaction to the file system
- * @param {PendingTransaction} pending - The pending transaction to save
+ * Builds a wallet configuration, padding SIGNERS to the predicate's fixed length with zero addresses
+ * @param {string} name - Wallet name
+ * @param {string[]} signers - Signer addresses (B256; EVM signers already padded)
+ * @param {number} signaturesCount - Number of signatures required
+ * @param {string} version - Predicate version hash
+ * @param {string} hashPredicate - Salt of the predicate (HASH_PREDICATE), which makes the address unique
+ * @returns {WalletConfig} Validated wallet configuration
+ * @throws {VaultError} INVALID_CONFIG if an address is invalid, duplicated or there are too many signers
  */
-export function savePendingTransaction(pending: PendingTransaction): void {
-  writeFileSync(PENDING_FILE, JSON.stringify(pending, null, 2));
-}
+export function buildWalletConfig(
+  name: string,
+  signers: string[],
+  signaturesCount: number,
+  version: string,
+  hashPredicate: string
+): WalletConfig {
+  const padding = Math.max(0, PREDICATE_SIGNERS_LENGTH - signers.length);
+  const config: WalletConfig = {
+    name,
+    config: {
+      SIGNATURES_COUNT: signaturesCount,
+      SIGNERS: [...signers.map(s => s.toLowerCase()), ...Array<string>(padding).fill(ZeroBytes32)],
+      HASH_PREDICATE: hashPredicate.toLowerCase(),
+    },
+    version: version.toLowerCase(),
+  };
 
-/**
- * Loads the pending transaction from the file system
- * @returns {PendingTransaction} The pending transaction
- * @throws {Error} If no pending transaction exists
- */
-export function loadPendingTransaction(): PendingTransaction {
-  if (!existsSync(PENDING_FILE)) {
-    throw new Error('No pending transaction found. Create one first with: bako-vault create-tx');
-  }
+  validateWalletConfig(config);
 
-  const content = readFileSync(PENDING_FILE, 'utf-8');
-  return JSON.parse(content) as PendingTransaction;
+  return config;
 }
 
 /**
- * Deletes the pending transaction file
+ * Writes a wallet configuration to `<dir>/<name>.json` in the BakoSafe export format, with the expected
+ * vault address if it is set
+ * @param {WalletConfig} config - Wallet configuration (its name is the filename)
+ * @param {boolean} [overwrite=false] - Replace an existing file
+ * @param {string} [dir] - Directory of wallet files (default: `wallets` in the working directory)
+ * @returns {string} Path of the written file
+ * @throws {VaultError} INVALID_INPUT if the wallet exists and overwrite is false
  */
-export function deletePendingTransaction(): void {
-  if (existsSync(PENDING_FILE)) {
-    unlinkSync(PENDING_FILE);
+export function saveWalletConfig(
+  config: WalletConfig,
+  overwrite: boolean = false,
+  dir: string = getWalletsDir()
+): string {
+  const filePath = join(dir, `${config.name}.json`);
+
+  if (existsSync(filePath) && !overwrite) {
+    throw new VaultError(
+      `Wallet "${config.name}" already exists at wallets/${config.name}.json`,
+      'INVALID_INPUT'
+    );
   }
+
+  const { config: predicateConfig, version, address } = config;
+  writeFileSync(filePath, JSON.stringify({ config: predicateConfig, version, address }, null, 2) + '\n');
+
+  return filePath;
 }
@@ -0,0 +1,198 @@
+/**
+ * @fileoverview CSV parsing and validation of transfer lists (payroll import), and CSV export
+ * @module utils/csv
+ */
+
+import { assetDecimals, listAssets, resolveAssetId } from './assets.js';
+import { parseAmount, toDecimalAmount } from './amounts.js';
+import { loadAddressBook, resolveRecipient } from './address-book.js';
+import type { AmountUnits, Contact, NetworkConfig, TransferInput } from '../types.js';
+
+/** Columns of a transfers CSV, in positional order when there is no header */
+const CSV_COLUMNS = ['recipient', 'amount', 'asset', 'memo'] as const;
+
+/** B256 address / asset id format */
+const B256_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Validation error for one CSV row
+ * @interface CsvRowError
+ */
+export interface CsvRowError {
+  /** Row number in the file (1-based, header included) */
+  row: number;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Result of reading a transfers CSV
+ * @interface TransfersCsvResult
+ */
+export interface TransfersCsvResult {
+  /** Valid transfers, in file order (empty if there are errors) */
+  transfers: TransferInput[];
+  /** Every row error found */
+  errors: CsvRowError[];
+}
+
+/**
+ * Parses CSV content into rows of cells.
+ * Supports quoted cells with embedded commas, quotes ("") and line breaks.
+ * @param {string} content - CSV text
+ * @returns {string[][]} Rows of trimmed cells (blank lines are skipped)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(r => r.some(c => c !== ''));
+}
+
+/**
+ * Formats rows as CSV. Cells containing commas, quotes or line breaks are quoted.
+ * @param {string[][]} rows - Rows of cells (the first one is usually the header)
+ * @returns {string} CSV text with a trailing line break
+ */
+export function formatCsv(rows: string[][]): string {
+  const quote = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return rows.map(row => row.map(quote).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Reads and validates a transfers CSV (columns: recipient, amount, asset, memo).
+ * A header row is optional; when present, columns are matched by name.
+ * The recipient column takes an address or a contact name of the address book, resolved to the
+ * contact's address on the network. The asset column takes a symbol from the network config or an asset id,
+ * and defaults to ETH when empty. Amounts are checked against the decimals of their asset
+ * and returned as exact decimal amounts.
+ * @param {string} content - CSV text
+ * @param {NetworkConfig} network - Network used to resolve asset symbols and decimals
+ * @param {string[]} [knownAssetIds=[]] - Additional accepted asset ids (e.g. assets held by the vault)
+ * @param {AmountUnits} [units='decimal'] - Unit of the amount column
+ * @param {Contact[]} [contacts] - Contacts to resolve names with (default: the address book, read
+ *   only if a row names a contact)
+ * @returns {TransfersCsvResult} Transfers, or every row error found
+ */
+export function readTransfersCsv(
+  content: string,
+  network: NetworkConfig,
+  knownAssetIds: string[] = [],
+  units: AmountUnits = 'decimal',
+  contacts?: Contact[]
+): TransfersCsvResult {
+  const rows = parseCsv(content);
+  const errors: CsvRowError[] = [];
+  const transfers: TransferInput[] = [];
+
+  const columns: Record<(typeof CSV_COLUMNS)[number], number> = {
+    recipient: 0,
+    amount: 1,
+    asset: 2,
+    memo: 3,
+  };
+  let firstDataRow = 0;
+
+  if (rows.length > 0 && rows[0].some(c => c.toLowerCase() === 'recipient')) {
+    const header = rows[0].map(c => c.toLowerCase());
+    for (const name of CSV_COLUMNS) {
+      columns[name] = header.indexOf(name);
+    }
+    if (columns.amount === -1) {
+      errors.push({ row: 1, message: 'header is missing the "amount" column' });
+      return { transfers: [], errors };
+    }
+    firstDataRow = 1;
+  }
+
+  const known = new Set(
+    [...listAssets(network).map(a => a.assetId), ...knownAssetIds].map(id => id.toLowerCase())
+  );
+
+  for (let i = firstDataRow; i < rows.length; i++) {
+    const row = rows[i];
+    const rowNumber = i + 1;
+    const cell = (index: number) => (index >= 0 ? row[index] ?? '' : '');
+
+    let to = cell(columns.recipient);
+    let amount = cell(columns.amount);
+    const asset = cell(columns.asset);
+    const memo = cell(columns.memo);
+
+    const rowErrors: string[] = [];
+
+    try {
+      if (!B256_REGEX.test(to)) {
+        contacts ??= loadAddressBook();
+      }
+      to = resolveRecipient(to, network.name, contacts);
+    } catch (error) {
+      rowErrors.push((error as Error).message);
+    }
+
+    let assetId: string | undefined;
+    if (asset) {
+      assetId = resolveAssetId(network, asset);
+      if (!assetId) {
+        rowErrors.push(`unknown asset "${asset}" (use a symbol from networks/${network.name}.json or an asset id)`);
+      } else if (!known.has(assetId.toLowerCase())) {
+        rowErrors.push(`asset ${assetId} is not configured for ${network.name} and not held by the vault`);
+      }
+    }
+
+    try {
+      const decimals = assetDecimals(network, assetId);
+      amount = toDecimalAmount(parseAmount(amount, decimals, units), decimals);
+    } catch (error) {
+      rowErrors.push((error as Error).message);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors.map(message => ({ row: rowNumber, message })));
+      continue;
+    }
+
+    transfers.push({ to, amount, assetId, ...(memo && { memo }) });
+  }
+
+  if (errors.length === 0 && transfers.length === 0) {
+    errors.push({ row: 1, message: 'no transfers found' });
+  }
+
+  return { transfers: errors.length > 0 ? [] : transfers, errors };
+}
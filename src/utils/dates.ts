@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Parsing of date options (history and statement ranges)
+ * @module utils/dates
+ */
+
+import { VaultError } from './errors.js';
+
+/**
+ * Parses a date option. A bare date (YYYY-MM-DD) covers the whole day in UTC.
+ * @param {string} value - Date or ISO timestamp
+ * @param {string} option - Option name, for the error message
+ * @param {boolean} endOfDay - Use the end of the day for a bare date
+ * @returns {Date} Parsed date
+ * @throws {VaultError} INVALID_INPUT if the value is not a date
+ */
+export function parseDateOption(value: string, option: string, endOfDay: boolean): Date {
+  const bareDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(bareDate && endOfDay ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new VaultError(
+      `${option} must be a date (YYYY-MM-DD) or an ISO timestamp, got "${value}"`,
+      'INVALID_INPUT'
+    );
+  }
+  return date;
+}
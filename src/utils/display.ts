@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Shared console formatting for transaction details
+ * @module utils/display
+ */
+
+import chalk from 'chalk';
+import { bn } from 'fuels';
+import {
+  DEFAULT_ASSET_SYMBOL,
+  DEFAULT_DECIMALS,
+  findAsset,
+  formatAssetAmount,
+  resolveAssetId,
+} from './assets.js';
+import { formatAmount, groupThousands } from './amounts.js';
+import { contactLabels, labelAddress } from './address-book.js';
+import { print } from './output.js';
+import type { NetworkConfig, TransferInput } from '../types.js';
+import type { AddSignaturesResult } from '../services/transaction.js';
+import type { SimulationResult, BalanceChange } from '../services/simulate.js';
+import type { StalenessCheck } from '../services/staleness.js';
+import { isAccepted } from '../services/signature.js';
+import type { SignatureCheck, SignatureStatus } from '../services/signature.js';
+
+/** Display label and color of each signature verification status */
+const STATUS_LABELS: Record<SignatureStatus, string> = {
+  verified: chalk.green('verified    '),
+  'not-a-signer': chalk.red('not a signer'),
+  mismatch: chalk.red('mismatch    '),
+  invalid: chalk.red('invalid     '),
+};
+
+/**
+ * Formats the asset of a transfer, with its symbol when the network declares it
+ * @param {string | undefined} asset - Asset ID or symbol of the transfer
+ * @param {NetworkConfig} [network] - Network whose asset registry labels the asset
+ * @returns {string} Text like "USDC (0x286c...)", the asset as given, or "ETH (default)"
+ * @private
+ */
+function formatTransferAsset(asset: string | undefined, network?: NetworkConfig): string {
+  if (!asset) {
+    return `${DEFAULT_ASSET_SYMBOL} (default)`;
+  }
+  if (!network) {
+    return asset;
+  }
+  const assetId = resolveAssetId(network, asset);
+  const symbol = assetId && findAsset(network, assetId)?.symbol;
+  return symbol ? `${symbol} (${assetId})` : asset;
+}
+
+/**
+ * Formats the signed amount of a balance change, in the decimals of the network's registry when given
+ * @param {BalanceChange} change - Balance change of a dry run
+ * @param {NetworkConfig} [network] - Network whose asset registry gives the decimals
+ * @returns {string} Text like "+1,234.5 USDC" or "-0.001 ETH"
+ * @private
+ */
+function formatBalanceChange(change: BalanceChange, network?: NetworkConfig): string {
+  const sign = change.amount.startsWith('-') ? '' : '+';
+  if (network) {
+    return sign + formatAssetAmount(network, change.assetId, change.amount);
+  }
+  const asset = change.asset ?? `${change.assetId.slice(0, 10)}...`;
+  return `${sign}${formatAmount(change.amount, DEFAULT_DECIMALS)} ${asset}`;
+}
+
+/**
+ * Prints the transfers of a transaction, one block per output
+ * @param {TransferInput[]} transfers - Transfers to print
+ * @param {NetworkConfig} [network] - Network whose asset registry labels the assets, and whose
+ *   address book entries label the recipients
+ * @param {string} [indent='    '] - Indentation prefix
+ */
+export function printTransfers(
+  transfers: TransferInput[],
+  network?: NetworkConfig,
+  indent: string = '    '
+): void {
+  const labels = network ? contactLabels(network.name) : new Map<string, string>();
+
+  if (transfers.length === 1) {
+    const [t] = transfers;
+    print(chalk.gray(`${indent}To: ${labelAddress(t.to, labels)}`));
+    print(chalk.gray(`${indent}Amount: ${groupThousands(t.amount)}`));
+    print(chalk.gray(`${indent}Asset: ${formatTransferAsset(t.assetId, network)}`));
+    if (t.memo) {
+      print(chalk.gray(`${indent}Memo: ${t.memo}`));
+    }
+    return;
+  }
+
+  print(chalk.gray(`${indent}Transfers (${transfers.length}):`));
+  transfers.forEach((t, i) => {
+    const num = `${i + 1}.`;
+    const pad = ' '.repeat(num.length + 1);
+    print(chalk.gray(`${indent}  ${num} To: ${labelAddress(t.to, labels)}`));
+    print(chalk.gray(`${indent}  ${pad}Amount: ${groupThousands(t.amount)}`));
+    print(chalk.gray(`${indent}  ${pad}Asset: ${formatTransferAsset(t.assetId, network)}`));
+    if (t.memo) {
+      print(chalk.gray(`${indent}  ${pad}Memo: ${t.memo}`));
+    }
+  });
+}
+
+/**
+ * Builds a one-line summary of the transfers of a transaction
+ * @param {TransferInput[]} transfers - Transfers to summarize
+ * @returns {string} Summary like "0.001 to 0x44d4e649..." or "3 transfers"
+ */
+export function summarizeTransfers(transfers: TransferInput[]): string {
+  if (transfers.length === 1) {
+    return `${groupThousands(transfers[0].amount)} to ${transfers[0].to}`;
+  }
+  return `${transfers.length} transfers`;
+}
+
+/**
+ * Prints the outcome of merging external signatures into a pending transaction
+ * @param {AddSignaturesResult} result - Merge result
+ * @param {SignatureCheck[]} [checks=[]] - Verification results; failed ones are listed as rejected
+ */
+export function printAddedSignatures(result: AddSignaturesResult, checks: SignatureCheck[] = []): void {
+  print(chalk.white('\n  Imported Signatures:'));
+  for (const c of checks.filter(c => !isAccepted(c))) {
+    print(chalk.red(`    - ${c.signer} (rejected: ${c.reason})`));
+  }
+  for (const s of result.added) {
+    const replaced = result.replaced.some(r => r.signer.toLowerCase() === s.signer.toLowerCase());
+    const note = replaced ? ' (replaced a signature that failed verification)' : '';
+    print(chalk.green(`    + ${s.signer}${note}`));
+  }
+  for (const s of result.duplicates) {
+    print(chalk.yellow(`    = ${s.signer} (already signed, skipped)`));
+  }
+}
+
+/**
+ * Prints a per-signer table of signature verification results
+ * @param {SignatureCheck[]} checks - Verification results
+ */
+export function printSignatureChecks(checks: SignatureCheck[]): void {
+  print(chalk.white('\n  Signature Verification:'));
+  if (checks.length === 0) {
+    print(chalk.gray('    No signatures'));
+    return;
+  }
+  for (const c of checks) {
+    const reason = c.reason ? chalk.gray(` (${c.reason})`) : '';
+    print(`    ${STATUS_LABELS[c.status]}  ${chalk.gray(c.signer)}${reason}`);
+  }
+}
+
+/**
+ * Prints the outcome, costs and expected balance changes of a dry run
+ * @param {SimulationResult} simulation - Dry-run result
+ * @param {NetworkConfig} [network] - Network whose asset registry gives the decimals of each asset
+ */
+export function printSimulation(simulation: SimulationResult, network?: NetworkConfig): void {
+  print(chalk.white('\n  Simulation:'));
+  if (simulation.success) {
+    print(chalk.green('    Succeeds'));
+  } else {
+    print(chalk.red(`    Reverts: ${simulation.reason ?? 'unknown reason'}`));
+  }
+  print(chalk.gray(`    Gas Used: ${simulation.gasUsed} (limit ${simulation.gasLimit})`));
+  print(chalk.gray(`    Fee: ${bn(simulation.fee).formatUnits()} at gas price ${simulation.gasPrice}`));
+  print(
+    chalk.gray(
+      `    Max Fee: ${bn(simulation.maxFee).formatUnits()} ` +
+        `(estimated now: ${bn(simulation.estimatedMaxFee).formatUnits()})`
+    )
+  );
+
+  print(chalk.white('\n  Expected Balance Changes:'));
+  if (simulation.balanceChanges.length === 0) {
+    print(chalk.gray('    None'));
+  }
+  for (const c of simulation.balanceChanges) {
+    const text = formatBalanceChange(c, network);
+    const color = bn(c.amount).isNeg() ? chalk.red : chalk.green;
+    print(`    ${color(text.padEnd(24))} ${chalk.gray(`${c.address} (${c.role})`)}`);
+  }
+}
+
+/**
+ * Prints whether the vault inputs of a pending transaction are still unspent
+ * @param {StalenessCheck} check - Staleness check result
+ */
+export function printStaleness(check: StalenessCheck): void {
+  print(chalk.white('\n  Inputs:'));
+  if (!check.stale) {
+    print(chalk.green(`    ${check.inputs} vault input(s), all unspent`));
+    return;
+  }
+  if (check.spent.length > 0) {
+    print(chalk.red(`    ${check.spent.length} of ${check.inputs} vault input(s) already spent:`));
+    for (const input of check.spent) {
+      print(chalk.gray(`      ${input.index}. ${input.type} ${input.id}`));
+    }
+  }
+  if (check.expired) {
+    print(chalk.red(`    Expired at block ${check.expiration}`));
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Error class with stable error codes, thrown by the library and reported by the CLI
+ * @module utils/errors
+ */
+
+import { FuelError, ErrorCode as FuelErrorCode } from 'fuels';
+
+/**
+ * Stable error codes of {@link VaultError}, also reported in `--json` output
+ * - `INVALID_INPUT`: malformed option, file, address, amount or key
+ * - `WALLET_NOT_FOUND` / `NETWORK_NOT_FOUND`: missing configuration file
+ * - `INVALID_CONFIG`: configuration file fails validation
+ * - `PENDING_NOT_FOUND` / `PENDING_AMBIGUOUS`: selector matches no or several pending transactions
+ * - `NOT_A_SIGNER`: the signer is not in the vault's SIGNERS
+ * - `INVALID_SIGNATURE`: a signature cannot be verified or encoded
+ * - `THRESHOLD_NOT_MET`: fewer verified signatures than required
+ * - `TX_MISMATCH`: the stored transaction request does not match its hash or its listed transfers
+ * - `TX_STALE`: inputs of the pending transaction were spent elsewhere, or it expired (rebuild it)
+ * - `INSUFFICIENT_BALANCE`: the vault cannot cover the transfers
+ * - `KEY_NOT_FOUND` / `KEY_EXISTS` / `WRONG_PASSPHRASE`: keystore errors
+ * - `CONTACT_NOT_FOUND` / `CONTACT_EXISTS`: address book errors
+ * - `CANCELLED`: the user declined a confirmation
+ * - `INTERACTION_REQUIRED`: input is missing and prompting is disabled (`--yes`)
+ * - `NETWORK_ERROR`: the node could not be reached or rejected a query
+ * - `TRANSACTION_FAILED`: the transaction was rejected or reverted
+ * - `UNKNOWN`: anything else
+ */
+export type ErrorCode =
+  | 'INVALID_INPUT'
+  | 'WALLET_NOT_FOUND'
+  | 'NETWORK_NOT_FOUND'
+  | 'INVALID_CONFIG'
+  | 'PENDING_NOT_FOUND'
+  | 'PENDING_AMBIGUOUS'
+  | 'NOT_A_SIGNER'
+  | 'INVALID_SIGNATURE'
+  | 'THRESHOLD_NOT_MET'
+  | 'TX_MISMATCH'
+  | 'TX_STALE'
+  | 'INSUFFICIENT_BALANCE'
+  | 'KEY_NOT_FOUND'
+  | 'KEY_EXISTS'
+  | 'WRONG_PASSPHRASE'
+  | 'CONTACT_NOT_FOUND'
+  | 'CONTACT_EXISTS'
+  | 'CANCELLED'
+  | 'INTERACTION_REQUIRED'
+  | 'NETWORK_ERROR'
+  | 'TRANSACTION_FAILED'
+  | 'UNKNOWN';
+
+/**
+ * Process exit code of each error code, so automation can tell failure classes apart:
+ * 1 unknown, 2 usage or input, 3 configuration, 4 signatures, integrity or staleness, 5 network,
+ * 6 transaction rejected or reverted
+ */
+export const EXIT_CODES: Record<ErrorCode, number> = {
+  UNKNOWN: 1,
+  INVALID_INPUT: 2,
+  PENDING_NOT_FOUND: 2,
+  PENDING_AMBIGUOUS: 2,
+  KEY_EXISTS: 2,
+  WRONG_PASSPHRASE: 2,
+  CONTACT_NOT_FOUND: 2,
+  CONTACT_EXISTS: 2,
+  CANCELLED: 2,
+  INTERACTION_REQUIRED: 2,
+  WALLET_NOT_FOUND: 3,
+  NETWORK_NOT_FOUND: 3,
+  INVALID_CONFIG: 3,
+  KEY_NOT_FOUND: 3,
+  NOT_A_SIGNER: 4,
+  INVALID_SIGNATURE: 4,
+  THRESHOLD_NOT_MET: 4,
+  TX_MISMATCH: 4,
+  TX_STALE: 4,
+  NETWORK_ERROR: 5,
+  INSUFFICIENT_BALANCE: 6,
+  TRANSACTION_FAILED: 6,
+};
+
+/** SDK error codes that mean the node could not be reached */
+const SDK_NETWORK_CODES: string[] = [
+  FuelErrorCode.CONNECTION_REFUSED,
+  FuelErrorCode.TIMEOUT_EXCEEDED,
+  FuelErrorCode.RESPONSE_BODY_EMPTY,
+  FuelErrorCode.INVALID_URL,
+];
+
+/** SDK error codes that mean the transaction was rejected or reverted */
+const SDK_TRANSACTION_CODES: string[] = [
+  FuelErrorCode.SCRIPT_REVERTED,
+  FuelErrorCode.TRANSACTION_FAILED,
+  FuelErrorCode.TRANSACTION_ERROR,
+  FuelErrorCode.TRANSACTION_SQUEEZED_OUT,
+  FuelErrorCode.INVALID_REQUEST,
+];
+
+/** SDK error codes that mean the vault cannot fund the transaction */
+const SDK_BALANCE_CODES: string[] = [
+  FuelErrorCode.INSUFFICIENT_FUNDS,
+  FuelErrorCode.INSUFFICIENT_FUNDS_OR_MAX_COINS,
+  FuelErrorCode.FUNDS_TOO_LOW,
+];
+
+/**
+ * Error with a stable code and optional structured details
+ * @class VaultError
+ */
+export class VaultError extends Error {
+  /** Stable error code */
+  readonly code: ErrorCode;
+  /** Structured details (e.g. rejected signatures, row errors) */
+  readonly details?: Record<string, unknown>;
+
+  /**
+   * @param {string} message - Human-readable message
+   * @param {ErrorCode} code - Stable error code
+   * @param {Record<string, unknown>} [details] - Structured details
+   */
+  constructor(message: string, code: ErrorCode, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'VaultError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Classifies an SDK or runtime error
+ * @param {unknown} error - Thrown value
+ * @returns {ErrorCode | undefined} Matching code, or undefined if the error is not recognized
+ * @private
+ */
+function classifyError(error: unknown): ErrorCode | undefined {
+  if (error instanceof FuelError) {
+    if (SDK_NETWORK_CODES.includes(error.code)) {
+      return 'NETWORK_ERROR';
+    }
+    if (SDK_TRANSACTION_CODES.includes(error.code)) {
+      return 'TRANSACTION_FAILED';
+    }
+    if (SDK_BALANCE_CODES.includes(error.code)) {
+      return 'INSUFFICIENT_BALANCE';
+    }
+    return undefined;
+  }
+  // fetch() failures (DNS, refused connections, TLS) surface as TypeError
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return 'NETWORK_ERROR';
+  }
+  return undefined;
+}
+
+/**
+ * Tells whether an error is transient: the node could not be reached, timed out or failed to answer,
+ * so the same request may succeed on a retry or on another endpoint
+ * @param {unknown} error - Thrown value
+ * @returns {boolean} True for network errors, false for rejections and everything else
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof VaultError) {
+    return error.code === 'NETWORK_ERROR';
+  }
+  // Requests aborted by the provider's timeout (AbortSignal.timeout)
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return true;
+  }
+  return classifyError(error) === 'NETWORK_ERROR';
+}
+
+/**
+ * Converts any thrown value to a VaultError.
+ * Known SDK errors (unreachable node, reverted transaction, insufficient funds) get their own code.
+ * @param {unknown} error - Thrown value
+ * @param {ErrorCode} [fallback='UNKNOWN'] - Code for errors that are not recognized
+ * @returns {VaultError} The error itself, or a VaultError wrapping its message
+ */
+export function toVaultError(error: unknown, fallback: ErrorCode = 'UNKNOWN'): VaultError {
+  if (error instanceof VaultError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new VaultError(message, classifyError(error) ?? fallback);
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Password-encrypted keystore for signer keys, one file per alias
+ * @module utils/keystore
+ */
+
+import { readFileSync, readdirSync, existsSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { Wallet } from 'fuels';
+import { evmSignerAddress } from '../services/signature.js';
+import type { StoredKey, StoredKeyKind } from '../types.js';
+import { VaultError } from './errors.js';
+
+/** Directory containing one encrypted keystore file per key */
+const KEYS_DIR = join(process.cwd(), '.keys');
+
+/** Key alias format (used as the file name) */
+const ALIAS_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/** Private key format */
+const PRIVATE_KEY_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Gets the keys directory, creating it (owner-only) if it doesn't exist
+ * @returns {string} Path to the keys directory
+ */
+export function getKeysDir(): string {
+  if (!existsSync(KEYS_DIR)) {
+    mkdirSync(KEYS_DIR, { recursive: true, mode: 0o700 });
+  }
+  return KEYS_DIR;
+}
+
+/**
+ * Builds the file path of a stored key
+ * @param {string} alias - Key alias
+ * @returns {string} Path to the keystore file
+ * @private
+ */
+function keyFilePath(alias: string): string {
+  return join(getKeysDir(), `${alias}.json`);
+}
+
+/**
+ * Reads a keystore file
+ * @param {string} path - Path to the keystore file
+ * @returns {StoredKey} The stored key
+ * @throws {VaultError} INVALID_INPUT if the file is not valid JSON
+ * @private
+ */
+function readKeyFile(path: string): StoredKey {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as StoredKey;
+  } catch (error) {
+    throw new VaultError(`${path} is not valid JSON: ${(error as Error).message}`, 'INVALID_INPUT');
+  }
+}
+
+/**
+ * Validates a key alias
+ * @param {string} alias - Key alias
+ * @throws {Error} If the alias contains characters other than letters, digits, - and _
+ */
+export function validateKeyAlias(alias: string): void {
+  if (!ALIAS_REGEX.test(alias)) {
+    throw new VaultError(`Invalid key alias "${alias}". Use letters, digits, - and _ only.`, 'INVALID_INPUT');
+  }
+}
+
+/**
+ * Validates a private key
+ * @param {string} privateKey - Private key
+ * @throws {Error} If the key is not 0x followed by 64 hex characters
+ */
+export function validatePrivateKey(privateKey: string): void {
+  if (!PRIVATE_KEY_REGEX.test(privateKey)) {
+    throw new VaultError('Private key must be 0x followed by 64 hex characters', 'INVALID_INPUT');
+  }
+}
+
+/**
+ * Derives the vault signer address of a private key
+ * @param {StoredKeyKind} kind - Kind of key
+ * @param {string} privateKey - Private key (0x...)
+ * @returns {string} B256 signer address (padded EVM address for EVM keys)
+ */
+export function signerAddressOf(kind: StoredKeyKind, privateKey: string): string {
+  return kind === 'evm' ? evmSignerAddress(privateKey) : Wallet.fromPrivateKey(privateKey).address.toB256();
+}
+
+/**
+ * Lists all stored keys
+ * @returns {StoredKey[]} Stored keys sorted by alias
+ * @throws {VaultError} INVALID_INPUT if a keystore file is not valid JSON
+ */
+export function listKeys(): StoredKey[] {
+  const dir = getKeysDir();
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readKeyFile(join(dir, file)))
+    .sort((a, b) => a.alias.localeCompare(b.alias));
+}
+
+/**
+ * Checks whether a key exists
+ * @param {string} alias - Key alias
+ * @returns {boolean} True if a key is stored under the alias
+ */
+export function hasKey(alias: string): boolean {
+  return ALIAS_REGEX.test(alias) && existsSync(keyFilePath(alias));
+}
+
+/**
+ * Loads a stored key (still encrypted)
+ * @param {string} alias - Key alias
+ * @returns {StoredKey} The stored key
+ * @throws {Error} If no key is stored under the alias or its file is not valid JSON
+ */
+export function loadKey(alias: string): StoredKey {
+  if (!hasKey(alias)) {
+    throw new VaultError(
+      `Key "${alias}" not found. Run "bako-vault keys list" to see stored keys.`,
+      'KEY_NOT_FOUND'
+    );
+  }
+  return readKeyFile(keyFilePath(alias));
+}
+
+/**
+ * Encrypts a private key with a passphrase and stores it under an alias
+ * @param {string} alias - Key alias
+ * @param {StoredKeyKind} kind - Kind of key
+ * @param {string} privateKey - Private key (0x...)
+ * @param {string} passphrase - Passphrase used to encrypt the key
+ * @param {string} [derivationPath] - Path the key was derived with, if it comes from a mnemonic
+ * @returns {Promise<StoredKey>} The stored key
+ * @throws {Error} If the alias or key is invalid, or the alias is taken
+ */
+export async function saveKey(
+  alias: string,
+  kind: StoredKeyKind,
+  privateKey: string,
+  passphrase: string,
+  derivationPath?: string
+): Promise<StoredKey> {
+  validateKeyAlias(alias);
+  validatePrivateKey(privateKey);
+
+  if (hasKey(alias)) {
+    throw new VaultError(
+      `Key "${alias}" already exists. Remove it first with "bako-vault keys remove ${alias}".`,
+      'KEY_EXISTS'
+    );
+  }
+
+  const keystore = await Wallet.fromPrivateKey(privateKey).encrypt(passphrase);
+
+  const key: StoredKey = {
+    alias,
+    kind,
+    signer: signerAddressOf(kind, privateKey),
+    ...(derivationPath && { derivationPath }),
+    createdAt: new Date().toISOString(),
+    keystore: JSON.parse(keystore) as Record<string, unknown>,
+  };
+
+  writeFileSync(keyFilePath(alias), JSON.stringify(key, null, 2), { mode: 0o600 });
+  return key;
+}
+
+/**
+ * Decrypts a stored key
+ * @param {StoredKey} key - Stored key
+ * @param {string} passphrase - Passphrase the key was encrypted with
+ * @returns {Promise<string>} The private key (0x...)
+ * @throws {VaultError} If the passphrase is incorrect
+ */
+export async function unlockKey(key: StoredKey, passphrase: string): Promise<string> {
+  try {
+    const wallet = await Wallet.fromEncryptedJson(JSON.stringify(key.keystore), passphrase);
+    return wallet.privateKey;
+  } catch {
+    throw new VaultError(`Wrong passphrase for key "${key.alias}"`, 'WRONG_PASSPHRASE');
+  }
+}
+
+/**
+ * Deletes a stored key
+ * @param {string} alias - Key alias
+ * @throws {Error} If no key is stored under the alias
+ */
+export function removeKey(alias: string): void {
+  loadKey(alias);
+  unlinkSync(keyFilePath(alias));
+}
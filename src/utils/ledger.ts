@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Transaction ledgers: an append-only JSON Lines file, or in memory
+ * @module utils/ledger
+ */
+
+import { readFileSync, existsSync, appendFileSync } from 'fs';
+import { join } from 'path';
+import type { LedgerEntry, LedgerEvent, PendingTransaction, TransactionLedger } from '../types.js';
+
+/** Default file of the CLI's ledger */
+const LEDGER_FILE = join(process.cwd(), '.history.jsonl');
+
+/**
+ * Builds a ledger entry for an event of a pending transaction
+ * @param {LedgerEvent} event - What happened
+ * @param {PendingTransaction} pending - Pending transaction
+ * @param {Partial<LedgerEntry>} [extra] - Event-specific fields (signers, transaction ID, error...)
+ * @returns {LedgerEntry} Entry timestamped now
+ */
+export function ledgerEntry(
+  event: LedgerEvent,
+  pending: PendingTransaction,
+  extra: Partial<LedgerEntry> = {}
+): LedgerEntry {
+  return {
+    event,
+    timestamp: new Date().toISOString(),
+    hashTxId: pending.hashTxId,
+    walletName: pending.walletName,
+    networkName: pending.networkName,
+    transfers: pending.transaction.transfers,
+    ...extra,
+  };
+}
+
+/**
+ * Ledger appending one JSON document per line to a file (`.history.jsonl`).
+ * Lines are never rewritten; unreadable lines are skipped when listing.
+ * @class FileLedger
+ * @implements {TransactionLedger}
+ */
+export class FileLedger implements TransactionLedger {
+  /** Path of the ledger file */
+  readonly path: string;
+
+  /**
+   * @param {string} [path] - Ledger file (default: `.history.jsonl` in the working directory)
+   */
+  constructor(path: string = LEDGER_FILE) {
+    this.path = path;
+  }
+
+  /** @inheritdoc */
+  async append(entry: LedgerEntry): Promise<void> {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+
+  /** @inheritdoc */
+  async list(): Promise<LedgerEntry[]> {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const entries: LedgerEntry[] = [];
+    for (const line of readFileSync(this.path, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        // A partially written line (e.g. an interrupted process) does not hide the rest
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Ledger kept in memory, for tests and short-lived processes
+ * @class MemoryLedger
+ * @implements {TransactionLedger}
+ */
+export class MemoryLedger implements TransactionLedger {
+  /** Recorded events, oldest first */
+  private readonly entries: LedgerEntry[] = [];
+
+  /** @inheritdoc */
+  async append(entry: LedgerEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+
+  /** @inheritdoc */
+  async list(): Promise<LedgerEntry[]> {
+    return this.entries.map(e => structuredClone(e));
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Derivation of Fuel signing keys from BIP-39 mnemonics (HD wallets)
+ * @module utils/mnemonic
+ */
+
+import { Mnemonic, Wallet } from 'fuels';
+import { VaultError } from './errors.js';
+
+/**
+ * Default derivation path template, as used by the Fuel Wallet for its accounts.
+ * `{index}` is replaced by the account index.
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/1179993420'/{index}'/0/0";
+
+/** Default number of derived addresses to list */
+export const DEFAULT_DERIVATION_COUNT = 10;
+
+/** BIP-32 derivation path format */
+const PATH_REGEX = /^m(\/\d+'?)+$/;
+
+/**
+ * Command options that select an account of a mnemonic
+ * @interface MnemonicOptions
+ */
+export interface MnemonicOptions {
+  /** Derivation path template (`{index}` is replaced by the account index) */
+  path?: string;
+  /** Number of accounts to derive and list */
+  count?: string;
+  /** Account index to use, skipping the selection */
+  index?: string;
+}
+
+/**
+ * Account derived from a mnemonic
+ * @interface DerivedAccount
+ */
+export interface DerivedAccount {
+  /** Account index substituted into the path template */
+  index: number;
+  /** Full derivation path */
+  path: string;
+  /** Fuel B256 address */
+  address: string;
+  /** Private key (0x...) */
+  privateKey: string;
+}
+
+/**
+ * Normalizes and validates a mnemonic phrase
+ * @param {string} mnemonic - Mnemonic phrase
+ * @returns {string} Lowercase phrase with single spaces
+ * @throws {Error} If the phrase is not a valid BIP-39 mnemonic
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  const phrase = mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+  if (!Mnemonic.isMnemonicValid(phrase)) {
+    throw new VaultError('Invalid mnemonic phrase (expected 12 to 24 BIP-39 words)', 'INVALID_INPUT');
+  }
+  return phrase;
+}
+
+/**
+ * Parses a non-negative integer option
+ * @param {string} value - Option value
+ * @param {string} name - Option name, for the error message
+ * @returns {number} Parsed value
+ * @throws {Error} If the value is not a non-negative integer
+ */
+export function parseIndexOption(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new VaultError(`${name} must be a non-negative integer, got "${value}"`, 'INVALID_INPUT');
+  }
+  return Number(value);
+}
+
+/**
+ * Builds the derivation path of an account index
+ * @param {string} template - Path template; `{index}` is replaced by the index
+ * @param {number} index - Account index
+ * @returns {string} Derivation path
+ * @throws {Error} If the resulting path is not a valid BIP-32 path
+ */
+export function derivationPath(template: string, index: number): string {
+  const path = template.replace('{index}', String(index));
+  if (!PATH_REGEX.test(path)) {
+    throw new VaultError(
+      `Invalid derivation path "${template}" (e.g. ${DEFAULT_DERIVATION_PATH})`,
+      'INVALID_INPUT'
+    );
+  }
+  return path;
+}
+
+/**
+ * Derives one account of a mnemonic
+ * @param {string} mnemonic - Valid mnemonic phrase
+ * @param {string} template - Path template
+ * @param {number} index - Account index
+ * @returns {DerivedAccount} Derived account
+ */
+export function deriveAccount(mnemonic: string, template: string, index: number): DerivedAccount {
+  const path = derivationPath(template, index);
+  const wallet = Wallet.fromMnemonic(mnemonic, path);
+  return { index, path, address: wallet.address.toB256(), privateKey: wallet.privateKey };
+}
+
+/**
+ * Derives the first accounts of a mnemonic.
+ * A template without `{index}` is a fixed path and yields a single account.
+ * @param {string} mnemonic - Valid mnemonic phrase
+ * @param {string} [template=DEFAULT_DERIVATION_PATH] - Path template
+ * @param {number} [count=DEFAULT_DERIVATION_COUNT] - Number of accounts to derive
+ * @returns {DerivedAccount[]} Derived accounts, by index
+ */
+export function deriveAccounts(
+  mnemonic: string,
+  template: string = DEFAULT_DERIVATION_PATH,
+  count: number = DEFAULT_DERIVATION_COUNT
+): DerivedAccount[] {
+  const total = template.includes('{index}') ? count : 1;
+  return Array.from({ length: total }, (_, index) => deriveAccount(mnemonic, template, index));
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Output mode handling: human-readable text or one JSON document per command
+ * @module utils/output
+ */
+
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import type { PromptFunction, PromptModule } from 'inquirer';
+import ora from 'ora';
+import type { Ora } from 'ora';
+import { toVaultError, EXIT_CODES } from './errors.js';
+import type { ErrorCode } from './errors.js';
+
+/** Whether --json was given */
+let jsonMode = false;
+
+/** Prompt module used by {@link prompt}, writing to stderr in JSON mode */
+let promptModule: PromptModule = inquirer.prompt;
+
+/**
+ * Enables JSON output.
+ * stdout is reserved for the JSON document: colors and spinners are turned off,
+ * and text printed with {@link print} and prompts asked with {@link prompt} go to stderr instead.
+ */
+export function enableJsonMode(): void {
+  jsonMode = true;
+  chalk.level = 0;
+  promptModule = inquirer.createPromptModule({ output: process.stderr });
+}
+
+/**
+ * Checks whether JSON output is enabled
+ * @returns {boolean} True if --json was given
+ */
+export function isJsonMode(): boolean {
+  return jsonMode;
+}
+
+/**
+ * Prints human-readable text, like console.log, to stdout (stderr in JSON mode)
+ * @param {...unknown} args - Values to print
+ */
+export function print(...args: unknown[]): void {
+  if (jsonMode) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+/**
+ * Asks questions with inquirer, on stderr in JSON mode
+ * @param {QuestionCollection} questions - Questions to ask
+ * @param {Partial<Answers>} [initialAnswers] - Answers already known
+ * @returns {Promise<Answers>} The answers
+ */
+export const prompt: PromptFunction = (questions, initialAnswers) => promptModule(questions, initialAnswers);
+
+/**
+ * Starts a spinner (silent in JSON mode)
+ * @param {string} text - Spinner text
+ * @returns {Ora} The running spinner
+ */
+export function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: jsonMode }).start();
+}
+
+/**
+ * Writes the JSON result of a command to stdout (JSON mode only)
+ * @param {string} command - Command name
+ * @param {unknown} data - Command result
+ */
+export function printJson(command: string, data: unknown): void {
+  if (jsonMode) {
+    process.stdout.write(JSON.stringify({ ok: true, command, data }, null, 2) + '\n');
+  }
+}
+
+/**
+ * Reports a command failure, as a JSON error document or as red text, and sets the exit code of its error code
+ * @param {string} command - Command name
+ * @param {unknown} error - Thrown value
+ * @param {ErrorCode} [fallback='UNKNOWN'] - Code for errors that carry none
+ */
+export function printError(command: string, error: unknown, fallback: ErrorCode = 'UNKNOWN'): void {
+  const vaultError = toVaultError(error, fallback);
+  process.exitCode = EXIT_CODES[vaultError.code];
+
+  if (jsonMode) {
+    const body = {
+      code: vaultError.code,
+      message: vaultError.message,
+      ...(vaultError.details && { details: vaultError.details }),
+    };
+    process.stdout.write(JSON.stringify({ ok: false, command, error: body }, null, 2) + '\n');
+    return;
+  }
+
+  console.error(chalk.red(`\nError: ${vaultError.message}\n`));
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Pending transaction stores keyed by hashTxId: one file per transaction, or in memory
+ * @module utils/pending
+ */
+
+import { readFileSync, readdirSync, existsSync, writeFileSync, mkdirSync, unlinkSync } from 'fs';
+import { join, dirname } from 'path';
+import type { PendingStore, PendingTransaction, TransferInput } from '../types.js';
+import { VaultError } from './errors.js';
+
+/** Default directory of the CLI's pending store */
+const PENDING_DIR = join(process.cwd(), '.pending');
+
+/** Legacy single pending transaction file name (migrated into the store on first access) */
+const LEGACY_PENDING_FILE = '.pending-tx.json';
+
+/**
+ * Normalizes a transaction hash or prefix for comparison and file naming
+ * @param {string} value - Hash or prefix, with or without 0x
+ * @returns {string} Lowercase hex without the 0x prefix
+ */
+export function normalizeTxId(value: string): string {
+  return value.trim().toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * Shortens a transaction hash for display
+ * @param {string} hashTxId - Transaction hash
+ * @returns {string} First 10 hex characters of the hash
+ */
+export function shortTxId(hashTxId: string): string {
+  return normalizeTxId(hashTxId).slice(0, 10);
+}
+
+/**
+ * Reads a pending transaction file, upgrading the single-transfer format
+ * (`transaction: { to, amount, assetId }`) to a `transfers` list
+ * @param {string} filePath - Path to the pending transaction file
+ * @returns {PendingTransaction} The pending transaction
+ * @private
+ */
+function readPendingFile(filePath: string): PendingTransaction {
+  const pending = JSON.parse(readFileSync(filePath, 'utf-8')) as PendingTransaction;
+
+  if (!Array.isArray(pending.transaction?.transfers)) {
+    const single = pending.transaction as unknown as TransferInput;
+    pending.transaction = { transfers: [single] };
+  }
+
+  return pending;
+}
+
+/**
+ * Pending store with one JSON file per transaction (`<dir>/<hashTxId>.json`).
+ * A legacy `.pending-tx.json` next to the directory is moved into the store on first access.
+ * @class FilePendingStore
+ * @implements {PendingStore}
+ */
+export class FilePendingStore implements PendingStore {
+  /** Directory containing the pending transaction files */
+  readonly dir: string;
+
+  /**
+   * @param {string} [dir] - Store directory (default: `.pending` in the working directory)
+   */
+  constructor(dir: string = PENDING_DIR) {
+    this.dir = dir;
+  }
+
+  /** @inheritdoc */
+  async list(): Promise<PendingTransaction[]> {
+    this.prepare();
+    return readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readPendingFile(join(this.dir, file)))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** @inheritdoc */
+  async get(hashTxId: string): Promise<PendingTransaction | undefined> {
+    this.prepare();
+    const filePath = this.filePath(hashTxId);
+    return existsSync(filePath) ? readPendingFile(filePath) : undefined;
+  }
+
+  /** @inheritdoc */
+  async save(pending: PendingTransaction): Promise<void> {
+    this.prepare();
+    writeFileSync(this.filePath(pending.hashTxId), JSON.stringify(pending, null, 2));
+  }
+
+  /** @inheritdoc */
+  async delete(hashTxId: string): Promise<void> {
+    const filePath = this.filePath(hashTxId);
+    if (existsSync(filePath)) {
+      unlinkSync(filePath);
+    }
+  }
+
+  /**
+   * Builds the file path of a pending transaction
+   * @param {string} hashTxId - Transaction hash
+   * @returns {string} Path to the pending transaction file
+   * @private
+   */
+  private filePath(hashTxId: string): string {
+    return join(this.dir, `${normalizeTxId(hashTxId)}.json`);
+  }
+
+  /**
+   * Creates the store directory and migrates the legacy file if needed
+   * @private
+   */
+  private prepare(): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    const legacyFile = join(dirname(this.dir), LEGACY_PENDING_FILE);
+    if (existsSync(legacyFile)) {
+      const legacy = readPendingFile(legacyFile);
+      const target = this.filePath(legacy.hashTxId);
+      if (!existsSync(target)) {
+        writeFileSync(target, JSON.stringify(legacy, null, 2));
+      }
+      unlinkSync(legacyFile);
+    }
+  }
+}
+
+/**
+ * Pending store kept in memory, for tests and short-lived processes.
+ * Transactions are copied on the way in and out, as a persistent store would.
+ * @class MemoryPendingStore
+ * @implements {PendingStore}
+ */
+export class MemoryPendingStore implements PendingStore {
+  /** Stored transactions by normalized hash */
+  private readonly entries = new Map<string, PendingTransaction>();
+
+  /** @inheritdoc */
+  async list(): Promise<PendingTransaction[]> {
+    return [...this.entries.values()]
+      .map(p => structuredClone(p))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** @inheritdoc */
+  async get(hashTxId: string): Promise<PendingTransaction | undefined> {
+    const pending = this.entries.get(normalizeTxId(hashTxId));
+    return pending && structuredClone(pending);
+  }
+
+  /** @inheritdoc */
+  async save(pending: PendingTransaction): Promise<void> {
+    this.entries.set(normalizeTxId(pending.hashTxId), structuredClone(pending));
+  }
+
+  /** @inheritdoc */
+  async delete(hashTxId: string): Promise<void> {
+    this.entries.delete(normalizeTxId(hashTxId));
+  }
+}
+
+/**
+ * Resolves a selector to exactly one of the given pending transactions
+ * @param {PendingTransaction[]} all - Pending transactions to search
+ * @param {string} selector - Full hash or unique prefix (with or without 0x)
+ * @returns {PendingTransaction} The matching pending transaction
+ * @throws {VaultError} PENDING_NOT_FOUND or PENDING_AMBIGUOUS if not exactly one transaction matches
+ */
+export function selectPending(all: PendingTransaction[], selector: string): PendingTransaction {
+  const prefix = normalizeTxId(selector);
+  if (!prefix) {
+    throw new VaultError('Transaction selector cannot be empty', 'INVALID_INPUT');
+  }
+
+  const matches = all.filter(p => normalizeTxId(p.hashTxId).startsWith(prefix));
+
+  if (matches.length === 0) {
+    throw new VaultError(`No pending transaction matches "${selector}"`, 'PENDING_NOT_FOUND', { selector });
+  }
+
+  if (matches.length > 1) {
+    const ids = matches.map(p => shortTxId(p.hashTxId)).join(', ');
+    throw new VaultError(
+      `"${selector}" is ambiguous, it matches ${matches.length} transactions: ${ids}`,
+      'PENDING_AMBIGUOUS',
+      { selector, matches: matches.map(p => p.hashTxId) }
+    );
+  }
+
+  return matches[0];
+}
+
+/**
+ * Resolves a selector to exactly one transaction of a store
+ * @param {PendingStore} store - Pending store
+ * @param {string} selector - Full hash or unique prefix (with or without 0x)
+ * @returns {Promise<PendingTransaction>} The matching pending transaction
+ * @throws {VaultError} PENDING_NOT_FOUND or PENDING_AMBIGUOUS if not exactly one transaction matches
+ */
+export async function findPendingTransaction(
+  store: PendingStore,
+  selector: string
+): Promise<PendingTransaction> {
+  return selectPending(await store.list(), selector);
+}
@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Shared interactive prompts used by several commands
+ * @module utils/prompts
+ */
+
+import chalk from 'chalk';
+import { selectPending, shortTxId } from './pending.js';
+import { getPendingStore } from './client.js';
+import {
+  normalizeMnemonic,
+  derivationPath,
+  deriveAccount,
+  deriveAccounts,
+  parseIndexOption,
+  DEFAULT_DERIVATION_PATH,
+  DEFAULT_DERIVATION_COUNT,
+} from './mnemonic.js';
+import type { DerivedAccount, MnemonicOptions } from './mnemonic.js';
+import { validatePrivateKey } from './keystore.js';
+import { resolveSecret, PRIVATE_KEY_ENV, MNEMONIC_ENV, PASSPHRASE_ENV } from './secrets.js';
+import type { PendingTransaction } from '../types.js';
+import { VaultError } from './errors.js';
+import { print, prompt } from './output.js';
+
+/** Whether prompts are allowed (disabled by --yes / --non-interactive) */
+let interactive = true;
+
+/** Whether confirmations are accepted without prompting (--yes) */
+let autoConfirm = false;
+
+/**
+ * Disables prompts: missing input is an error, and so are confirmations unless they are accepted
+ * @param {boolean} [acceptConfirmations=false] - Accept confirmations (--yes)
+ */
+export function disablePrompts(acceptConfirmations = false): void {
+  interactive = false;
+  autoConfirm = acceptConfirmations;
+}
+
+/**
+ * Checks whether prompts are allowed
+ * @returns {boolean} False if --yes or --non-interactive was given
+ */
+export function isInteractive(): boolean {
+  return interactive;
+}
+
+/**
+ * Ensures prompting is allowed before asking for missing input
+ * @param {string} what - Description of the missing input and how to provide it
+ * @throws {VaultError} INTERACTION_REQUIRED if prompts are disabled
+ */
+export function requireInteractive(what: string): void {
+  if (!interactive) {
+    throw new VaultError(`${what} is required (prompts are disabled)`, 'INTERACTION_REQUIRED');
+  }
+}
+
+/**
+ * Asks a yes/no question. Accepted automatically with --yes.
+ * @param {string} message - Question
+ * @param {boolean} defaultValue - Default answer
+ * @returns {Promise<boolean>} The answer
+ * @throws {VaultError} INTERACTION_REQUIRED if prompts are disabled without --yes
+ */
+export async function confirmAction(message: string, defaultValue: boolean): Promise<boolean> {
+  if (!interactive) {
+    if (autoConfirm) {
+      return true;
+    }
+    throw new VaultError(`Confirmation required: "${message}" (pass --yes to accept)`, 'INTERACTION_REQUIRED');
+  }
+
+  const answer = await prompt([
+    {
+      type: 'confirm',
+      name: 'confirmed',
+      message,
+      default: defaultValue,
+    },
+  ]);
+  return answer.confirmed;
+}
+
+/**
+ * Selects a pending transaction by selector, or asks the user to pick one.
+ * With no selector, a single pending transaction is selected automatically.
+ * @param {string} [selector] - Full hash or unique prefix
+ * @returns {Promise<PendingTransaction>} The selected transaction
+ * @throws {VaultError} If there is no pending transaction or the selector does not match exactly one
+ */
+export async function selectPendingTransaction(selector?: string): Promise<PendingTransaction> {
+  const all = await getPendingStore().list();
+
+  if (selector) {
+    try {
+      return selectPending(all, selector);
+    } catch (error) {
+      if (error instanceof VaultError && error.code === 'PENDING_NOT_FOUND') {
+        error.message += '. List them with: bako-vault pending';
+      }
+      throw error;
+    }
+  }
+
+  if (all.length === 0) {
+    throw new VaultError(
+      'No pending transaction found. Create one first with: bako-vault create-tx',
+      'PENDING_NOT_FOUND'
+    );
+  }
+
+  if (all.length === 1) {
+    return all[0];
+  }
+
+  if (!interactive) {
+    throw new VaultError(
+      `${all.length} pending transactions found. Pass the hash or a unique prefix.`,
+      'PENDING_AMBIGUOUS'
+    );
+  }
+
+  const answer = await prompt([
+    {
+      type: 'list',
+      name: 'hashTxId',
+      message: 'Select a pending transaction:',
+      choices: all.map(p => ({
+        name: `${shortTxId(p.hashTxId)}  ${p.walletName}@${p.networkName}  ` +
+          `${p.signatures.length}/${p.requiredSignatures} sig(s)  ${p.createdAt}`,
+        value: p.hashTxId,
+      })),
+    },
+  ]);
+
+  return all.find(p => p.hashTxId === answer.hashTxId)!;
+}
+
+/**
+ * Asks for a new passphrase twice and checks that both entries match.
+ * Taken from the file or BAKO_KEY_PASSPHRASE instead, if set.
+ * @param {string} [file] - File containing the passphrase
+ * @returns {Promise<string>} The passphrase
+ */
+export async function promptNewPassphrase(file?: string): Promise<string> {
+  const secret = resolveSecret(file, PASSPHRASE_ENV);
+  if (secret !== undefined) {
+    if (secret.length < 8) {
+      throw new VaultError('Passphrase must have at least 8 characters', 'INVALID_INPUT');
+    }
+    return secret;
+  }
+  requireInteractive(`A passphrase (--passphrase-file or ${PASSPHRASE_ENV})`);
+
+  const answer = await prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: 'Passphrase to encrypt the key:',
+      mask: '*',
+      validate: (input: string) => (input.length >= 8 ? true : 'Use at least 8 characters'),
+    },
+    {
+      type: 'password',
+      name: 'confirm',
+      message: 'Repeat passphrase:',
+      mask: '*',
+    },
+  ]);
+
+  if (answer.passphrase !== answer.confirm) {
+    throw new VaultError('Passphrases do not match', 'INVALID_INPUT');
+  }
+
+  return answer.passphrase;
+}
+
+/**
+ * Asks for the passphrase of a stored key.
+ * Taken from the file or BAKO_KEY_PASSPHRASE instead, if set.
+ * @param {string} alias - Key alias
+ * @param {string} [file] - File containing the passphrase
+ * @returns {Promise<string>} The passphrase
+ */
+export async function promptPassphrase(alias: string, file?: string): Promise<string> {
+  const secret = resolveSecret(file, PASSPHRASE_ENV);
+  if (secret !== undefined) {
+    return secret;
+  }
+  requireInteractive(`The passphrase for key "${alias}" (--passphrase-file or ${PASSPHRASE_ENV})`);
+
+  const answer = await prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: `Passphrase for key "${alias}":`,
+      mask: '*',
+    },
+  ]);
+  return answer.passphrase;
+}
+
+/**
+ * Asks for a private key (masked input).
+ * Taken from the file or BAKO_PRIVATE_KEY instead, if set.
+ * @param {string} message - Prompt message
+ * @param {string} [file] - File containing the private key
+ * @returns {Promise<string>} The private key (0x...)
+ * @throws {VaultError} If the key is malformed
+ */
+export async function promptPrivateKey(message: string, file?: string): Promise<string> {
+  const secret = resolveSecret(file, PRIVATE_KEY_ENV);
+  if (secret !== undefined) {
+    validatePrivateKey(secret);
+    return secret;
+  }
+  requireInteractive(`A private key (--pk-file or ${PRIVATE_KEY_ENV})`);
+
+  const answer = await prompt([
+    {
+      type: 'password',
+      name: 'pk',
+      message,
+      mask: '*',
+      validate: (input: string) => {
+        try {
+          validatePrivateKey(input);
+          return true;
+        } catch (error) {
+          return (error as Error).message;
+        }
+      },
+    },
+  ]);
+  return answer.pk;
+}
+
+/**
+ * Asks for a mnemonic phrase (masked input).
+ * Taken from the file or BAKO_MNEMONIC instead, if set.
+ * @param {string} [file] - File containing the mnemonic
+ * @returns {Promise<string>} The normalized mnemonic phrase
+ */
+export async function promptMnemonic(file?: string): Promise<string> {
+  const secret = resolveSecret(file, MNEMONIC_ENV);
+  if (secret !== undefined) {
+    return normalizeMnemonic(secret);
+  }
+  requireInteractive(`A mnemonic (--mnemonic-file or ${MNEMONIC_ENV})`);
+
+  const answer = await prompt([
+    {
+      type: 'password',
+      name: 'mnemonic',
+      message: 'Mnemonic phrase (12-24 words):',
+      mask: '*',
+      validate: (input: string) => {
+        try {
+          normalizeMnemonic(input);
+          return true;
+        } catch (error) {
+          return (error as Error).message;
+        }
+      },
+    },
+  ]);
+  return normalizeMnemonic(answer.mnemonic);
+}
+
+/**
+ * Prints derived accounts and selects one.
+ * The account is chosen automatically when exactly one is a known signer;
+ * otherwise the user picks among the signers (or among all accounts if none is).
+ * @param {DerivedAccount[]} accounts - Derived accounts
+ * @param {Map<string, string>} signers - Known signer addresses (lowercase) mapped to a label
+ * @returns {Promise<DerivedAccount>} The selected account
+ */
+export async function selectDerivedAccount(
+  accounts: DerivedAccount[],
+  signers: Map<string, string>
+): Promise<DerivedAccount> {
+  const labelOf = (a: DerivedAccount) => signers.get(a.address.toLowerCase());
+
+  print(chalk.white('\n  Derived Addresses:'));
+  for (const a of accounts) {
+    const label = labelOf(a);
+    const line = `    ${String(a.index).padStart(2)}  ${a.address}`;
+    print(label ? chalk.green(`${line}  (${label})`) : chalk.gray(line));
+  }
+
+  const members = accounts.filter(a => labelOf(a));
+
+  if (members.length === 0) {
+    print(chalk.yellow('\n  None of these addresses is a known signer. Try --count or --path.'));
+  }
+
+  if (members.length === 1) {
+    print(chalk.gray(`\n  Selected index ${members[0].index} (${members[0].path})`));
+    return members[0];
+  }
+
+  requireInteractive('--index (no single derived address is a known signer)');
+
+  const answer = await prompt([
+    {
+      type: 'list',
+      name: 'index',
+      message: 'Select the address to use:',
+      choices: (members.length > 0 ? members : accounts).map(a => ({
+        name: `${a.index}  ${a.address}${labelOf(a) ? `  (${labelOf(a)})` : ''}`,
+        value: a.index,
+      })),
+    },
+  ]);
+
+  return accounts.find(a => a.index === answer.index)!;
+}
+
+/**
+ * Asks for a mnemonic and selects one of its accounts.
+ * With `--index` the account is derived directly; otherwise the first `--count`
+ * accounts are listed and selected with {@link selectDerivedAccount}.
+ * @param {MnemonicOptions} options - Derivation options
+ * @param {Map<string, string>} signers - Known signer addresses (lowercase) mapped to a label
+ * @param {string} [mnemonicFile] - File containing the mnemonic
+ * @returns {Promise<DerivedAccount>} The selected account
+ * @throws {VaultError} If an option or the derivation path is invalid
+ */
+export async function selectMnemonicAccount(
+  options: MnemonicOptions,
+  signers: Map<string, string>,
+  mnemonicFile?: string
+): Promise<DerivedAccount> {
+  const template = options.path ?? DEFAULT_DERIVATION_PATH;
+  const index = options.index !== undefined ? parseIndexOption(options.index, '--index') : undefined;
+  const count = options.count !== undefined ? parseIndexOption(options.count, '--count') : DEFAULT_DERIVATION_COUNT;
+
+  if (count === 0) {
+    throw new VaultError('--count must be at least 1', 'INVALID_INPUT');
+  }
+  derivationPath(template, 0);
+
+  const mnemonic = await promptMnemonic(mnemonicFile);
+
+  if (index !== undefined) {
+    const account = deriveAccount(mnemonic, template, index);
+    print(chalk.gray(`\n  Derived ${account.address} (${account.path})`));
+    return account;
+  }
+
+  return selectDerivedAccount(deriveAccounts(mnemonic, template, count), signers);
+}
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Schema checks of wallet and network files, reporting every issue with its path
+ * @module utils/schema
+ */
+
+import { isB256, ZeroBytes32 } from 'fuels';
+
+/** Number of SIGNERS slots of the Bako predicate; unused slots hold the zero address */
+export const PREDICATE_SIGNERS_LENGTH = 10;
+
+/**
+ * One problem found in a configuration file
+ * @interface ConfigIssue
+ */
+export interface ConfigIssue {
+  /** Path of the offending value, e.g. `config.SIGNERS[2]` (empty for the whole document) */
+  path: string;
+  /** What is wrong with it */
+  message: string;
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param {unknown} value - Value to check
+ * @returns {boolean} True for a non-null, non-array object
+ * @private
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a 32-byte hex value (address, asset ID or hash), recognizing template placeholders
+ * @param {unknown} value - Value to check
+ * @param {string} what - Description of the expected value, for the message
+ * @returns {string | undefined} Issue message, or undefined if the value is valid
+ * @private
+ */
+function checkB256(value: unknown, what: string): string | undefined {
+  if (typeof value !== 'string') {
+    return `must be ${what} (0x + 64 hex characters), got ${JSON.stringify(value) ?? 'nothing'}`;
+  }
+  if (value.includes('...')) {
+    return `is a placeholder ("${value}"); replace it with ${what}`;
+  }
+  if (!isB256(value)) {
+    return `must be ${what} (0x + 64 hex characters), got "${value}"`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks an http(s) URL
+ * @param {unknown} value - Value to check
+ * @returns {string | undefined} Issue message, or undefined if the value is valid
+ * @private
+ */
+function checkUrl(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.includes('...')) {
+    return `must be an http(s) URL, got ${JSON.stringify(value)}`;
+  }
+  try {
+    const { protocol } = new URL(value);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return `must use http or https, got "${protocol}"`;
+    }
+    return undefined;
+  } catch {
+    return `must be an http(s) URL, got "${value}"`;
+  }
+}
+
+/**
+ * Checks a wallet file against the schema of the BakoSafe export
+ * @param {unknown} value - Parsed wallet file
+ * @returns {ConfigIssue[]} Every issue found (empty if the wallet is valid)
+ */
+export function checkWalletConfig(value: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const issue = (path: string, message: string | undefined) => {
+    if (message) {
+      issues.push({ path, message });
+    }
+  };
+
+  if (!isObject(value)) {
+    issue('', 'expected a JSON object with "config" and "version"');
+    return issues;
+  }
+
+  issue('version', checkB256(value.version, 'the predicate version hash'));
+  if (value.address !== undefined) {
+    issue('address', checkB256(value.address, 'the expected vault address'));
+  }
+
+  const config = value.config;
+  if (!isObject(config)) {
+    issue('config', 'must be an object with SIGNATURES_COUNT and SIGNERS');
+    return issues;
+  }
+
+  if (config.HASH_PREDICATE !== undefined) {
+    issue('config.HASH_PREDICATE', checkB256(config.HASH_PREDICATE, 'the predicate hash'));
+  }
+
+  const count = config.SIGNATURES_COUNT;
+  const countValid = typeof count === 'number' && Number.isInteger(count) && count >= 1;
+  if (!countValid) {
+    issue('config.SIGNATURES_COUNT', `must be an integer of at least 1, got ${JSON.stringify(count)}`);
+  }
+
+  const signers = config.SIGNERS;
+  if (!Array.isArray(signers) || signers.length === 0) {
+    issue('config.SIGNERS', 'must be a non-empty array of signer addresses');
+    return issues;
+  }
+  if (signers.length > PREDICATE_SIGNERS_LENGTH) {
+    issue(
+      'config.SIGNERS',
+      `has ${signers.length} entries; the predicate has ${PREDICATE_SIGNERS_LENGTH} slots`
+    );
+  }
+
+  const seen = new Map<string, number>();
+  signers.forEach((signer: unknown, i) => {
+    const message = checkB256(signer, 'a signer address');
+    if (message) {
+      issue(`config.SIGNERS[${i}]`, message);
+      return;
+    }
+    const address = (signer as string).toLowerCase();
+    if (address === ZeroBytes32) {
+      return;
+    }
+    const first = seen.get(address);
+    if (first !== undefined) {
+      issue(`config.SIGNERS[${i}]`, `duplicates config.SIGNERS[${first}]`);
+      return;
+    }
+    seen.set(address, i);
+  });
+
+  if (countValid && (count as number) > seen.size) {
+    issue('config.SIGNATURES_COUNT', `is ${count} but there are only ${seen.size} distinct signer(s)`);
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a network file
+ * @param {unknown} value - Parsed network file
+ * @returns {ConfigIssue[]} Every issue found (empty if the network is valid)
+ */
+export function checkNetworkConfig(value: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const issue = (path: string, message: string | undefined) => {
+    if (message) {
+      issues.push({ path, message });
+    }
+  };
+
+  if (!isObject(value)) {
+    issue('', 'expected a JSON object with "url" and "assets"');
+    return issues;
+  }
+
+  issue('url', checkUrl(value.url));
+  if (value.fallbackUrls !== undefined) {
+    if (!Array.isArray(value.fallbackUrls)) {
+      issue('fallbackUrls', `must be an array of http(s) URLs, got ${JSON.stringify(value.fallbackUrls)}`);
+    } else {
+      value.fallbackUrls.forEach((url, i) => {
+        issue(`fallbackUrls[${i}]`, checkUrl(url) ?? (url === value.url ? 'repeats "url"' : undefined));
+      });
+    }
+  }
+  if (value.explorerUrl !== undefined) {
+    issue('explorerUrl', checkUrl(value.explorerUrl));
+  }
+  if (value.chainId !== undefined) {
+    const { chainId } = value;
+    if (typeof chainId !== 'number' || !Number.isInteger(chainId) || chainId < 0) {
+      issue('chainId', `must be a non-negative integer, got ${JSON.stringify(chainId)}`);
+    }
+  }
+
+  const assets = value.assets;
+  if (!isObject(assets)) {
+    issue('assets', 'must be an object mapping asset symbols to asset definitions, with at least ETH');
+    return issues;
+  }
+  if (assets.ETH === undefined) {
+    issue('assets.ETH', 'is required');
+  }
+  const seen = new Map<string, string>();
+  for (const [symbol, entry] of Object.entries(assets)) {
+    const path = `assets.${symbol}`;
+    let assetId: unknown = entry;
+    if (isObject(entry)) {
+      assetId = entry.assetId;
+      issue(`${path}.assetId`, checkB256(assetId, 'an asset ID'));
+      const { decimals, name } = entry;
+      if (decimals !== undefined && !(Number.isInteger(decimals) && (decimals as number) >= 0)) {
+        issue(`${path}.decimals`, `must be a non-negative integer, got ${JSON.stringify(decimals)}`);
+      }
+      if (name !== undefined && typeof name !== 'string') {
+        issue(`${path}.name`, `must be a string, got ${JSON.stringify(name)}`);
+      }
+    } else if (typeof entry === 'string') {
+      issue(path, checkB256(entry, 'an asset ID'));
+    } else {
+      issue(path, `must be an asset ID or { assetId, decimals?, name? }, got ${JSON.stringify(entry)}`);
+    }
+
+    if (typeof assetId === 'string' && isB256(assetId)) {
+      const first = seen.get(assetId.toLowerCase());
+      if (first) {
+        issue(path, `has the same asset ID as assets.${first}`);
+      }
+      seen.set(assetId.toLowerCase(), symbol);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Formats issues on one line, for error messages
+ * @param {ConfigIssue[]} issues - Issues
+ * @returns {string} Issues as `path message`, separated by semicolons
+ */
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues.map(i => (i.path ? `${i.path} ${i.message}` : i.message)).join('; ');
+}
+
+/**
+ * Gets the issues carried by a configuration loading error
+ * @param {unknown} error - Error thrown by `loadWalletConfig()` or `loadNetworkConfig()`
+ * @returns {ConfigIssue[]} Its issues, or one issue holding its message
+ */
+export function issuesOf(error: unknown): ConfigIssue[] {
+  const issues = (error as { details?: { issues?: ConfigIssue[] } }).details?.issues;
+  return issues ?? [{ path: '', message: error instanceof Error ? error.message : String(error) }];
+}
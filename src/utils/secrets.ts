@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Secrets (private keys, mnemonics, passphrases) read from files or environment variables,
+ * so that automation can run without prompts
+ * @module utils/secrets
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { VaultError } from './errors.js';
+
+/** Environment variable holding a private key to sign or import with */
+export const PRIVATE_KEY_ENV = 'BAKO_PRIVATE_KEY';
+
+/** Environment variable holding a mnemonic phrase */
+export const MNEMONIC_ENV = 'BAKO_MNEMONIC';
+
+/** Environment variable holding the passphrase of stored keys */
+export const PASSPHRASE_ENV = 'BAKO_KEY_PASSPHRASE';
+
+/**
+ * Reads a secret from a file (first line, surrounding whitespace removed)
+ * @param {string} path - Path to the file
+ * @returns {string} The secret
+ * @throws {VaultError} If the file does not exist or is empty
+ */
+export function readSecretFile(path: string): string {
+  if (!existsSync(path)) {
+    throw new VaultError(`File not found: ${path}`, 'INVALID_INPUT');
+  }
+  const secret = readFileSync(path, 'utf-8').split(/\r?\n/)[0].trim();
+  if (!secret) {
+    throw new VaultError(`File is empty: ${path}`, 'INVALID_INPUT');
+  }
+  return secret;
+}
+
+/**
+ * Resolves a secret from a file option, falling back to an environment variable
+ * @param {string | undefined} file - Path given on the command line
+ * @param {string} env - Environment variable name
+ * @returns {string | undefined} The secret, or undefined if neither source is set
+ */
+export function resolveSecret(file: string | undefined, env: string): string | undefined {
+  if (file) {
+    return readSecretFile(file);
+  }
+  return process.env[env]?.trim() || undefined;
+}
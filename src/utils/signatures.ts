@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Parsing of externally produced signer/signature pairs
+ * @module utils/signatures
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import type { Signature, SignerKind } from '../types.js';
+import { VaultError } from './errors.js';
+
+/** B256 signer address format */
+const SIGNER_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+/** Hex signature format */
+const SIGNATURE_REGEX = /^0x[0-9a-fA-F]+$/;
+
+/** Accepted signer kinds */
+const SIGNER_KINDS: SignerKind[] = ['fuel', 'evm', 'webauthn'];
+
+/** Fields of a WebAuthn assertion, all hex encoded */
+const WEBAUTHN_FIELDS = ['signature', 'prefix', 'suffix', 'authData'] as const;
+
+/**
+ * Reads and parses a JSON file
+ * @param {string} path - File path
+ * @returns {unknown} Parsed content
+ * @throws {VaultError} INVALID_INPUT if the file is not valid JSON
+ * @private
+ */
+function readJsonFile(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new VaultError(`${path} is not valid JSON: ${(error as Error).message}`, 'INVALID_INPUT');
+  }
+}
+
+/**
+ * Command options that carry external signatures
+ * @interface SignatureInputOptions
+ */
+export interface SignatureInputOptions {
+  /** Signer addresses (repeatable, paired in order with signature) */
+  signer?: string[];
+  /** Signatures (repeatable, paired in order with signer) */
+  signature?: string[];
+  /** Path to a JSON file with signer/signature pairs */
+  signaturesFile?: string;
+}
+
+/**
+ * Collects signer/signature pairs from repeated flags and from a signatures file.
+ * The file holds an array of `{ signer, signature }` objects, or an object with a `signatures` array.
+ * Entries may also carry `kind` and, for passkeys, the `webauthn` assertion fields.
+ * @param {SignatureInputOptions} options - Command options
+ * @returns {Signature[]} Signatures in the order they were given (flags first)
+ * @throws {Error} If flags do not pair up, the file is missing or not valid JSON, or a value is malformed
+ */
+export function readSignatureInputs(options: SignatureInputOptions): Signature[] {
+  const signers = options.signer ?? [];
+  const sigs = options.signature ?? [];
+
+  if (signers.length !== sigs.length) {
+    throw new VaultError(
+      `Got ${signers.length} --signer and ${sigs.length} --signature values, they must be given in pairs`,
+      'INVALID_INPUT'
+    );
+  }
+
+  const result: Signature[] = signers.map((signer, i) => ({ signer, signature: sigs[i] }));
+
+  if (options.signaturesFile) {
+    if (!existsSync(options.signaturesFile)) {
+      throw new VaultError(`File not found: ${options.signaturesFile}`, 'INVALID_INPUT');
+    }
+
+    const parsed = readJsonFile(options.signaturesFile) as
+      | Signature[]
+      | { signatures?: Signature[] };
+    const entries = Array.isArray(parsed) ? parsed : parsed.signatures;
+
+    if (!Array.isArray(entries)) {
+      throw new VaultError(
+        `${options.signaturesFile} must contain an array of { signer, signature } objects`,
+        'INVALID_INPUT'
+      );
+    }
+
+    result.push(
+      ...entries.map(e => ({
+        signer: e?.signer,
+        signature: e?.signature,
+        ...(e?.kind !== undefined && { kind: e.kind }),
+        ...(e?.webauthn !== undefined && { webauthn: e.webauthn }),
+      }))
+    );
+  }
+
+  result.forEach((s, i) => {
+    if (typeof s.signer !== 'string' || !SIGNER_REGEX.test(s.signer)) {
+      throw new VaultError(`Signature ${i + 1}: invalid signer address "${s.signer}"`, 'INVALID_INPUT');
+    }
+    if (typeof s.signature !== 'string' || !SIGNATURE_REGEX.test(s.signature)) {
+      throw new VaultError(`Signature ${i + 1}: invalid signature "${s.signature}"`, 'INVALID_INPUT');
+    }
+    if (s.kind !== undefined && !SIGNER_KINDS.includes(s.kind)) {
+      throw new VaultError(
+        `Signature ${i + 1}: unknown kind "${s.kind}" (expected ${SIGNER_KINDS.join(', ')})`,
+        'INVALID_INPUT'
+      );
+    }
+    if (s.kind === 'webauthn') {
+      const w = s.webauthn;
+      if (!w || [w.prefix, w.suffix, w.authData].some(v => typeof v !== 'string' || !SIGNATURE_REGEX.test(v))) {
+        throw new VaultError(
+          `Signature ${i + 1}: passkey signatures need hex webauthn.prefix, suffix and authData`,
+          'INVALID_INPUT'
+        );
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Reads a WebAuthn assertion exported from a browser or authenticator.
+ * The file holds `{ signer, signature, prefix, suffix, authData }` as hex strings,
+ * the shape returned by the BakoSafe passkey signing helpers.
+ * @param {string} path - Path to the assertion JSON file
+ * @returns {Signature} Passkey signature with its assertion data
+ * @throws {Error} If the file is missing or not valid JSON, or a field is absent or not hex
+ */
+export function readWebAuthnAssertion(path: string): Signature {
+  if (!existsSync(path)) {
+    throw new VaultError(`File not found: ${path}`, 'INVALID_INPUT');
+  }
+
+  const parsed = readJsonFile(path) as Record<string, unknown>;
+
+  if (typeof parsed.signer !== 'string' || !SIGNER_REGEX.test(parsed.signer)) {
+    throw new VaultError(`${path}: invalid signer address "${parsed.signer}"`, 'INVALID_INPUT');
+  }
+  for (const field of WEBAUTHN_FIELDS) {
+    const value = parsed[field];
+    if (typeof value !== 'string' || !SIGNATURE_REGEX.test(value)) {
+      throw new VaultError(`${path}: "${field}" must be a hex string`, 'INVALID_INPUT');
+    }
+  }
+
+  return {
+    signer: parsed.signer,
+    signature: parsed.signature as string,
+    kind: 'webauthn',
+    webauthn: {
+      prefix: parsed.prefix as string,
+      suffix: parsed.suffix as string,
+      authData: parsed.authData as string,
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseAmount, toDecimalAmount, formatAmount } from '../src/utils/amounts.js';
+
+describe('parseAmount', () => {
+  it('converts decimal amounts exactly in the decimals of the asset', () => {
+    expect(parseAmount('0.25', 9).toString()).toBe('250000000');
+    expect(parseAmount('1.5', 6).toString()).toBe('1500000');
+    expect(parseAmount('123456789.123456789', 9).toString()).toBe('123456789123456789');
+  });
+
+  it('accepts trailing zeros beyond the decimals of the asset', () => {
+    expect(parseAmount('1.500000000', 6).toString()).toBe('1500000');
+  });
+
+  it('refuses more decimal places than the asset supports', () => {
+    expect(() => parseAmount('0.1234567', 6)).toThrow('has 7 decimal places, the asset supports 6');
+    expect(() => parseAmount('0.0000000001', 9)).toThrow('the asset supports 9');
+  });
+
+  it('reads base units as integers', () => {
+    expect(parseAmount('250000', 6, 'base').toString()).toBe('250000');
+    expect(() => parseAmount('1.5', 6, 'base')).toThrow('expected a positive integer of base units');
+  });
+
+  it('refuses malformed and zero amounts', () => {
+    for (const value of ['', '-1', '1e9', '1,000', '.5', 'abc']) {
+      expect(() => parseAmount(value, 9)).toThrow(`invalid amount "${value}"`);
+    }
+    expect(() => parseAmount('0.000', 9)).toThrow('amount must be greater than zero');
+    expect(() => parseAmount('0', 9, 'base')).toThrow('amount must be greater than zero');
+  });
+
+  it('fails with INVALID_INPUT', () => {
+    expect(() => parseAmount('1.2345678', 6)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+  });
+});
+
+describe('toDecimalAmount', () => {
+  it('converts base units to a decimal string without trailing zeros', () => {
+    expect(toDecimalAmount(1500000, 6)).toBe('1.5');
+    expect(toDecimalAmount(250000000, 9)).toBe('0.25');
+    expect(toDecimalAmount(1, 9)).toBe('0.000000001');
+    expect(toDecimalAmount(42000000, 6)).toBe('42');
+  });
+
+  it('round-trips with parseAmount', () => {
+    for (const [value, decimals] of [['0.000001', 6], ['987654.321', 9], ['18', 0]] as const) {
+      expect(toDecimalAmount(parseAmount(value, decimals), decimals)).toBe(value);
+    }
+  });
+
+  it('keeps the sign of negative amounts', () => {
+    expect(toDecimalAmount(-1500000, 6)).toBe('-1.5');
+  });
+});
+
+describe('formatAmount', () => {
+  it('groups thousands of the whole part only', () => {
+    expect(formatAmount('1234567891234', 6)).toBe('1,234,567.891234');
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, formatCsv, readTransfersCsv } from '../src/utils/csv.js';
+import type { Contact, NetworkConfig } from '../src/types.js';
+
+const ETH = `0x${'e'.repeat(64)}`;
+const USDC = `0x${'c'.repeat(64)}`;
+const ALICE = `0x${'a'.repeat(64)}`;
+const BOB = `0x${'b'.repeat(64)}`;
+
+const network: NetworkConfig = {
+  name: 'testnet',
+  url: 'http://localhost:4000/v1/graphql',
+  assets: {
+    ETH: { assetId: ETH, decimals: 9 },
+    USDC: { assetId: USDC, decimals: 6 },
+  },
+};
+
+const contacts: Contact[] = [
+  { name: 'alice', address: ALICE, createdAt: '2024-01-01T00:00:00.000Z' },
+  { name: 'bob', networks: { mainnet: BOB }, createdAt: '2024-01-01T00:00:00.000Z' },
+];
+
+describe('parseCsv', () => {
+  it('splits rows and trims cells', () => {
+    expect(parseCsv('a, b ,c\r\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('keeps commas, quotes and line breaks of quoted cells', () => {
+    expect(parseCsv('"Contractor, invoice #42","say ""hi""","two\nlines"')).toEqual([
+      ['Contractor, invoice #42', 'say "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('skips blank lines', () => {
+    expect(parseCsv('a\n\n,\nb\n')).toEqual([['a'], ['b']]);
+  });
+
+  it('reads back what formatCsv writes', () => {
+    const rows = [
+      ['memo', 'amount'],
+      ['Contractor, "invoice" #42', '1.5'],
+    ];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('readTransfersCsv', () => {
+  it('reads positional columns and defaults the asset to ETH', () => {
+    const { transfers, errors } = readTransfersCsv(`${ALICE},0.25\n${BOB},150,USDC,March`, network);
+    expect(errors).toEqual([]);
+    expect(transfers).toEqual([
+      { to: ALICE, amount: '0.25', assetId: undefined },
+      { to: BOB, amount: '150', assetId: USDC, memo: 'March' },
+    ]);
+  });
+
+  it('matches columns by header name', () => {
+    const { transfers } = readTransfersCsv(`memo,amount,recipient\nsalary,1.50,${ALICE}`, network);
+    expect(transfers).toEqual([{ to: ALICE, amount: '1.5', assetId: undefined, memo: 'salary' }]);
+  });
+
+  it('checks amounts against the decimals of their asset', () => {
+    const content = `recipient,amount,asset\n${ALICE},0.1234567,USDC\n${ALICE},0.1234567,ETH`;
+    const { transfers, errors } = readTransfersCsv(content, network);
+    expect(transfers).toEqual([]);
+    expect(errors).toEqual([
+      { row: 2, message: 'amount "0.1234567" has 7 decimal places, the asset supports 6' },
+    ]);
+  });
+
+  it('reads amounts in base units', () => {
+    const { transfers } = readTransfersCsv(`${ALICE},1500000,USDC`, network, [], 'base');
+    expect(transfers).toEqual([{ to: ALICE, amount: '1.5', assetId: USDC }]);
+  });
+
+  it('reports every row error and returns no transfers', () => {
+    const content = [
+      'recipient,amount,asset',
+      `${ALICE},1,ETH`,
+      '0x12,1,ETH',
+      `${ALICE},abc,ETH`,
+      `${ALICE},1,BTC`,
+      `${ALICE},1,0x${'d'.repeat(64)}`,
+    ].join('\n');
+    const { transfers, errors } = readTransfersCsv(content, network, [], 'decimal', contacts);
+    expect(transfers).toEqual([]);
+    expect(errors.map(e => e.row)).toEqual([3, 4, 5, 6]);
+    expect(errors[0].message).toContain('Unknown recipient "0x12"');
+    expect(errors[1].message).toContain('invalid amount "abc"');
+    expect(errors[2].message).toContain('unknown asset "BTC"');
+    expect(errors[3].message).toContain('is not configured for testnet and not held by the vault');
+  });
+
+  it('accepts assets held by the vault', () => {
+    const held = `0x${'d'.repeat(64)}`;
+    const { transfers, errors } = readTransfersCsv(`${ALICE},1,${held}`, network, [held]);
+    expect(errors).toEqual([]);
+    expect(transfers[0].assetId).toBe(held);
+  });
+
+  it('resolves contact names to their address on the network', () => {
+    const content = `recipient,amount\nAlice,1\nbob,2\ncarol,3`;
+    const { errors } = readTransfersCsv(content, network, [], 'decimal', contacts);
+    expect(errors).toEqual([
+      { row: 3, message: 'Contact "bob" has no address on testnet' },
+      expect.objectContaining({ row: 4, message: expect.stringContaining('Unknown recipient "carol"') }),
+    ]);
+
+    const { transfers } = readTransfersCsv('alice,1', network, [], 'decimal', contacts);
+    expect(transfers).toEqual([{ to: ALICE, amount: '1', assetId: undefined }]);
+  });
+
+  it('fails on a header without an amount column', () => {
+    expect(readTransfersCsv(`recipient,value\n${ALICE},1`, network).errors).toEqual([
+      { row: 1, message: 'header is missing the "amount" column' },
+    ]);
+  });
+
+  it('fails on a file without transfers', () => {
+    expect(readTransfersCsv('recipient,amount\n', network).errors).toEqual([
+      { row: 1, message: 'no transfers found' },
+    ]);
+  });
+});
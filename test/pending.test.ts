@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { selectPending, normalizeTxId, shortTxId } from '../src/utils/pending.js';
+import type { PendingTransaction } from '../src/types.js';
+
+/**
+ * Builds a pending transaction with the given hash
+ * @param {string} hashTxId - Transaction hash
+ * @returns {PendingTransaction} Pending transaction
+ */
+function pendingTx(hashTxId: string): PendingTransaction {
+  return { hashTxId } as PendingTransaction;
+}
+
+const first = pendingTx(`9dc380dcea${'1'.repeat(54)}`);
+const second = pendingTx(`9dc380ff00${'2'.repeat(54)}`);
+const third = pendingTx(`0xABCDEF0123${'3'.repeat(54)}`);
+const all = [first, second, third];
+
+describe('normalizeTxId', () => {
+  it('drops 0x, case and whitespace', () => {
+    expect(normalizeTxId(' 0xABcd ')).toBe('abcd');
+    expect(shortTxId(third.hashTxId)).toBe('abcdef0123');
+  });
+});
+
+describe('selectPending', () => {
+  it('selects by unique prefix', () => {
+    expect(selectPending(all, '9dc380d')).toBe(first);
+    expect(selectPending(all, '9dc380f')).toBe(second);
+  });
+
+  it('ignores 0x and case on both sides', () => {
+    expect(selectPending(all, '0xabcdef')).toBe(third);
+    expect(selectPending(all, 'ABCDEF')).toBe(third);
+  });
+
+  it('selects by full hash', () => {
+    expect(selectPending(all, `0x${first.hashTxId.toUpperCase()}`)).toBe(first);
+  });
+
+  it('fails on an ambiguous prefix', () => {
+    expect(() => selectPending(all, '9dc380')).toThrow(
+      expect.objectContaining({
+        code: 'PENDING_AMBIGUOUS',
+        message: '"9dc380" is ambiguous, it matches 2 transactions: 9dc380dcea, 9dc380ff00',
+      })
+    );
+  });
+
+  it('fails when nothing matches', () => {
+    expect(() => selectPending(all, 'ffff')).toThrow(expect.objectContaining({ code: 'PENDING_NOT_FOUND' }));
+  });
+
+  it('fails on an empty selector', () => {
+    expect(() => selectPending(all, '0x')).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect, vi } from 'vitest';
+import { confirmAction, disablePrompts, requireInteractive } from '../src/utils/prompts.js';
+
+// Hoisted above the imports: the pending store pulls in the vault service and the BakoSafe SDK
+vi.mock('../src/utils/client.js', () => ({}));
+
+describe('non-interactive mode', () => {
+  it('fails on missing input and confirmations with --non-interactive', async () => {
+    disablePrompts();
+    expect(() => requireInteractive('--signer')).toThrow('--signer is required (prompts are disabled)');
+    await expect(confirmAction('Remove key "ci"?', false)).rejects.toMatchObject({
+      code: 'INTERACTION_REQUIRED',
+      message: 'Confirmation required: "Remove key "ci"?" (pass --yes to accept)',
+    });
+  });
+
+  it('accepts confirmations with --yes but still fails on missing input', async () => {
+    disablePrompts(true);
+    await expect(confirmAction('Remove key "ci"?', false)).resolves.toBe(true);
+    expect(() => requireInteractive('--signer')).toThrow('--signer is required (prompts are disabled)');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { Wallet, hexlify, randomBytes, arrayify, concat, sha256, toUtf8Bytes } from 'fuels';
+import { secp256r1 } from '@noble/curves/p256';
+import {
+  signWithFuelKey,
+  signWithEvmKey,
+  evmSignerAddress,
+  evmAddressToB256,
+  verifySignature,
+  verifySignatures,
+  countVerifiedSigners,
+  isAccepted,
+  resolveSignerKind,
+} from '../src/services/signature.js';
+import type { PendingTransaction, Signature, WalletConfig } from '../src/types.js';
+
+const HASH = hexlify(randomBytes(32)).slice(2);
+const OTHER_HASH = hexlify(randomBytes(32)).slice(2);
+const ZERO = `0x${'0'.repeat(64)}`;
+
+const fuelKey = Wallet.generate().privateKey;
+const evmKey = Wallet.generate().privateKey;
+const fuelSigner = Wallet.fromPrivateKey(fuelKey).address.toB256().toLowerCase();
+const evmSigner = evmSignerAddress(evmKey);
+const passkeyKey = secp256r1.utils.randomPrivateKey();
+const passkeySigner = sha256(secp256r1.getPublicKey(passkeyKey, false).slice(1)).toLowerCase();
+const signers = [fuelSigner, evmSigner, passkeySigner];
+
+/**
+ * Signs a challenge the way a browser passkey does: P-256 over authData and the client data hash,
+ * with s normalized and the recovery bit stored in its top bit
+ * @param {string} challenge - Challenge embedded in the client data
+ * @returns {Signature} Passkey signature with its assertion data
+ */
+function signWithPasskey(challenge: string): Signature {
+  const prefix = toUtf8Bytes('{"type":"webauthn.get","challenge":"');
+  const suffix = toUtf8Bytes('","origin":"https://safe.bako.global","crossOrigin":false}');
+  const authData = randomBytes(37);
+  const clientData = concat([prefix, toUtf8Bytes(challenge), suffix]);
+  const digest = arrayify(sha256(concat([authData, arrayify(sha256(clientData))])));
+
+  const sig = secp256r1.sign(digest, passkeyKey, { lowS: true });
+  const compact = sig.toCompactRawBytes();
+  compact[32] |= sig.recovery << 7;
+
+  return {
+    signer: passkeySigner,
+    signature: hexlify(compact),
+    kind: 'webauthn',
+    webauthn: { prefix: hexlify(prefix), suffix: hexlify(suffix), authData: hexlify(authData) },
+  };
+}
+
+const passkeySignature = signWithPasskey(HASH);
+
+describe('Fuel signatures', () => {
+  it('verify against the hash they sign', async () => {
+    const sig = await signWithFuelKey(fuelKey, HASH);
+    expect(sig).toMatchObject({ signer: fuelSigner, kind: 'fuel' });
+    expect(verifySignature(HASH, sig, signers)).toEqual({
+      signer: fuelSigner,
+      status: 'verified',
+      recovered: fuelSigner,
+    });
+  });
+
+  it('do not verify against another hash', async () => {
+    const sig = await signWithFuelKey(fuelKey, HASH);
+    const check = verifySignature(OTHER_HASH, sig, signers);
+    expect(check.status).toBe('mismatch');
+    expect(isAccepted(check)).toBe(false);
+  });
+
+  it('are rejected when claimed by another vault member', async () => {
+    const sig = await signWithFuelKey(fuelKey, HASH);
+    const check = verifySignature(HASH, { ...sig, signer: evmSigner, kind: 'fuel' }, signers);
+    expect(check).toMatchObject({ status: 'mismatch', recovered: fuelSigner });
+  });
+
+  it('are rejected from signers outside the vault', async () => {
+    const sig = await signWithFuelKey(Wallet.generate().privateKey, HASH);
+    expect(verifySignature(HASH, sig, signers).status).toBe('not-a-signer');
+  });
+
+  it('are invalid when malformed', () => {
+    const sig = { signer: fuelSigner, signature: '0x1234' };
+    expect(verifySignature(HASH, sig, signers).status).toBe('invalid');
+  });
+});
+
+describe('EVM signatures', () => {
+  it('use the padded EVM address as signer', () => {
+    expect(evmSigner.startsWith('0x000000000000000000000000')).toBe(true);
+    expect(evmAddressToB256(`0x${evmSigner.slice(-40).toUpperCase()}`)).toBe(evmSigner);
+    expect(() => evmAddressToB256('0x1234')).toThrow('Invalid EVM address');
+  });
+
+  it('verify as personal_sign of the hash', () => {
+    const sig = signWithEvmKey(evmKey, HASH);
+    expect(sig).toMatchObject({ signer: evmSigner, kind: 'evm' });
+    expect(sig.signature).toHaveLength(2 + 65 * 2);
+    expect(verifySignature(HASH, sig, signers)).toEqual({
+      signer: evmSigner,
+      status: 'verified',
+      recovered: evmSigner,
+    });
+  });
+
+  it('are recognized by their padded signer when the kind is not recorded', () => {
+    const { signer, signature } = signWithEvmKey(evmKey, HASH);
+    expect(resolveSignerKind({ signer, signature })).toBe('evm');
+    expect(verifySignature(HASH, { signer, signature }, signers).status).toBe('verified');
+  });
+
+  it('do not verify against another hash', () => {
+    expect(verifySignature(OTHER_HASH, signWithEvmKey(evmKey, HASH), signers).status).toBe('mismatch');
+  });
+
+  it('are invalid with a bad length or recovery value', () => {
+    const sig = signWithEvmKey(evmKey, HASH);
+    const short = { ...sig, signature: sig.signature.slice(0, -2) };
+    expect(verifySignature(HASH, short, signers)).toMatchObject({
+      status: 'invalid',
+      reason: 'EVM signature must be 65 bytes, got 64',
+    });
+    const badRecovery = { ...sig, signature: `${sig.signature.slice(0, -2)}1f` };
+    expect(verifySignature(HASH, badRecovery, signers).status).toBe('invalid');
+  });
+});
+
+describe('passkey signatures', () => {
+  it('verify when the challenge is the hash', () => {
+    expect(verifySignature(HASH, passkeySignature, signers)).toEqual({
+      signer: passkeySigner,
+      status: 'verified',
+      recovered: passkeySigner,
+    });
+  });
+
+  it('do not verify against another hash', () => {
+    const check = verifySignature(OTHER_HASH, passkeySignature, signers);
+    expect(check.status).toBe('mismatch');
+    expect(isAccepted(check)).toBe(false);
+  });
+
+  it('do not verify with a challenge that is not the hash', () => {
+    const sig = signWithPasskey(`0x${HASH.toUpperCase()}`);
+    expect(verifySignature(HASH, sig, signers).status).toBe('mismatch');
+  });
+
+  it('are rejected when claimed by another vault member', () => {
+    const check = verifySignature(HASH, { ...passkeySignature, signer: fuelSigner }, signers);
+    expect(check).toMatchObject({ status: 'mismatch', recovered: passkeySigner });
+  });
+
+  it('are invalid without assertion data or with a bad length', () => {
+    const { webauthn: _, ...sig } = passkeySignature;
+    expect(verifySignature(HASH, sig, signers).status).toBe('invalid');
+    const short = { ...passkeySignature, signature: passkeySignature.signature.slice(0, -2) };
+    expect(verifySignature(HASH, short, signers)).toMatchObject({
+      status: 'invalid',
+      reason: 'Passkey signature must be 64 bytes, got 63',
+    });
+  });
+
+  it('are still checked for vault membership', () => {
+    const outsider = { ...passkeySignature, signer: `0x${'12'.repeat(32)}` };
+    expect(verifySignature(HASH, outsider, signers).status).toBe('not-a-signer');
+  });
+});
+
+describe('countVerifiedSigners', () => {
+  it('counts each verified signer once, whatever its kind', async () => {
+    const wallet = {
+      config: { SIGNATURES_COUNT: 2, SIGNERS: [...signers, ZERO] },
+    } as unknown as WalletConfig;
+    const fuelSig = await signWithFuelKey(fuelKey, HASH);
+    const pending = {
+      hashTxId: HASH,
+      signatures: [fuelSig, fuelSig, passkeySignature, signWithEvmKey(evmKey, OTHER_HASH)],
+    } as unknown as PendingTransaction;
+
+    const checks = verifySignatures(pending, wallet);
+    expect(checks.map(c => c.status)).toEqual(['verified', 'verified', 'verified', 'mismatch']);
+    expect(countVerifiedSigners(checks)).toBe(2);
+
+    pending.signatures.push(signWithEvmKey(evmKey, HASH));
+    expect(countVerifiedSigners(verifySignatures(pending, wallet))).toBe(3);
+  });
+});
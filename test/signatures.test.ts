@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readSignatureInputs, readWebAuthnAssertion } from '../src/utils/signatures.js';
+
+const SIGNER_A = `0x${'a'.repeat(64)}`;
+const SIGNER_B = `0x${'b'.repeat(64)}`;
+
+let dir: string;
+
+/**
+ * Writes a file in the temporary directory
+ * @param {string} name - File name
+ * @param {string} content - File content
+ * @returns {string} Path of the file
+ */
+function writeFile(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'bako-vault-signatures-'));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('readSignatureInputs', () => {
+  it('pairs flags and appends the entries of the signatures file', () => {
+    const signaturesFile = writeFile(
+      'signatures.json',
+      JSON.stringify({ signatures: [{ signer: SIGNER_B, signature: '0x02', kind: 'evm' }] })
+    );
+    expect(readSignatureInputs({ signer: [SIGNER_A], signature: ['0x01'], signaturesFile })).toEqual([
+      { signer: SIGNER_A, signature: '0x01' },
+      { signer: SIGNER_B, signature: '0x02', kind: 'evm' },
+    ]);
+  });
+
+  it('fails when flags do not pair up', () => {
+    expect(() => readSignatureInputs({ signer: [SIGNER_A], signature: [] })).toThrow(
+      'Got 1 --signer and 0 --signature values'
+    );
+  });
+
+  it('reports a file that is not JSON as INVALID_INPUT', () => {
+    const signaturesFile = writeFile('broken.json', '[{ "signer": ');
+    expect(() => readSignatureInputs({ signaturesFile })).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_INPUT',
+        message: expect.stringContaining(`${signaturesFile} is not valid JSON: `),
+      })
+    );
+  });
+
+  it('rejects malformed values', () => {
+    const badSigner = { signer: ['0x12'], signature: ['0x01'] };
+    expect(() => readSignatureInputs(badSigner)).toThrow('invalid signer address');
+    const badSignature = { signer: [SIGNER_A], signature: ['zz'] };
+    expect(() => readSignatureInputs(badSignature)).toThrow('invalid signature');
+    const signaturesFile = writeFile(
+      'passkey.json',
+      JSON.stringify([{ signer: SIGNER_A, signature: '0x01', kind: 'webauthn' }])
+    );
+    expect(() => readSignatureInputs({ signaturesFile })).toThrow('passkey signatures need hex webauthn');
+  });
+});
+
+describe('readWebAuthnAssertion', () => {
+  it('reads a passkey assertion', () => {
+    const path = writeFile(
+      'assertion.json',
+      JSON.stringify({
+        signer: SIGNER_A,
+        signature: '0x30',
+        prefix: '0x7b',
+        suffix: '0x7d',
+        authData: '0x49',
+      })
+    );
+    expect(readWebAuthnAssertion(path)).toEqual({
+      signer: SIGNER_A,
+      signature: '0x30',
+      kind: 'webauthn',
+      webauthn: { prefix: '0x7b', suffix: '0x7d', authData: '0x49' },
+    });
+  });
+
+  it('reports a file that is not JSON as INVALID_INPUT', () => {
+    const path = writeFile('assertion-broken.json', 'not json');
+    expect(() => readWebAuthnAssertion(path)).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_INPUT',
+        message: expect.stringContaining('is not valid JSON'),
+      })
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Address, ScriptTransactionRequest, bn } from 'fuels';
+import type { Provider } from 'fuels';
+import { checkStaleness } from '../src/services/staleness.js';
+import { connectProvider } from '../src/services/vault.js';
+import type { PendingTransaction, VaultConfig } from '../src/types.js';
+
+const VAULT = `0x${'5a'.repeat(32)}`;
+const ETH = `0x${'e'.repeat(64)}`;
+const COIN_ID = `0x${'01'.repeat(34)}`;
+
+// Hoisted above the imports: the vault service needs the BakoSafe SDK, the check only the vault
+// address and the provider of the node
+vi.mock('../src/services/vault.js', () => ({
+  connectProvider: vi.fn(),
+  createVaultInstance: async (_config: VaultConfig, provider: Provider) => ({
+    vault: { address: { toB256: () => VAULT } },
+    provider,
+  }),
+}));
+
+const config = {
+  name: 'treasury',
+  network: { name: 'testnet', url: 'http://localhost:4000/v1/graphql' },
+} as unknown as VaultConfig;
+
+/** IDs of the vault's unspent coins on the mocked node */
+let unspent: string[];
+
+const provider = {
+  getCoins: async () => ({ coins: unspent.map(id => ({ id })), pageInfo: { hasNextPage: false } }),
+  getBlockNumber: async () => bn(100),
+} as unknown as Provider;
+
+/**
+ * Builds a pending transaction spending one ETH coin of the vault
+ * @param {number} [expiration] - Block height after which the transaction is invalid
+ * @returns {PendingTransaction} Pending transaction
+ */
+function buildPending(expiration?: number): PendingTransaction {
+  const request = new ScriptTransactionRequest();
+  request.addCoinInput({
+    id: COIN_ID,
+    owner: Address.fromB256(VAULT),
+    amount: bn(1_000),
+    assetId: ETH,
+    blockCreated: bn(1),
+    txCreatedIdx: bn(0),
+  });
+  if (expiration !== undefined) {
+    request.expiration = expiration;
+  }
+  return { hashTxId: 'ab'.repeat(32), txRequest: request.toJSON() } as unknown as PendingTransaction;
+}
+
+describe('checkStaleness', () => {
+  beforeEach(() => {
+    unspent = [COIN_ID];
+    vi.mocked(connectProvider).mockReset().mockResolvedValue(provider);
+  });
+
+  it('reports a transaction whose inputs are unspent as sendable', async () => {
+    expect(await checkStaleness(config, buildPending())).toEqual({
+      stale: false,
+      inputs: 1,
+      spent: [],
+      expiration: undefined,
+      expired: false,
+    });
+  });
+
+  it('reports a vault coin spent elsewhere', async () => {
+    unspent = [];
+    const check = await checkStaleness(config, buildPending());
+    expect(check.stale).toBe(true);
+    expect(check.spent).toEqual([{ index: 0, type: 'coin', id: COIN_ID, assetId: ETH, amount: '1000' }]);
+  });
+
+  it('reports an expired transaction', async () => {
+    expect(await checkStaleness(config, buildPending(50))).toMatchObject({
+      stale: true,
+      expiration: 50,
+      expired: true,
+    });
+    expect(await checkStaleness(config, buildPending(150))).toMatchObject({ stale: false, expired: false });
+  });
+
+  it('connects with the given timeout and retries', async () => {
+    await checkStaleness(config, buildPending(), { timeout: 5_000, retries: 0 });
+    expect(connectProvider).toHaveBeenCalledWith(config.network, { timeout: 5_000, retries: 0 });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { bn, getTransactionsSummaries } from 'fuels';
+import type { TransactionResult } from 'fuels';
+import { getVaultStatement } from '../src/services/statement.js';
+import type { VaultConfig } from '../src/types.js';
+
+const VAULT = `0x${'5a'.repeat(32)}`;
+const ETH = `0x${'e'.repeat(64)}`;
+const ALICE = `0x${'a'.repeat(64)}`;
+
+// Hoisted above the imports: the vault service needs the BakoSafe SDK, the statement only the
+// vault address and a provider; the node's history is served by the mocked summaries query
+vi.mock('../src/services/vault.js', () => ({
+  createVaultInstance: async () => ({
+    vault: { address: { toB256: () => VAULT } },
+    provider: { getBaseAssetId: async () => ETH },
+  }),
+}));
+vi.mock('fuels', async importOriginal => ({
+  ...(await importOriginal<typeof import('fuels')>()),
+  getTransactionsSummaries: vi.fn(),
+}));
+
+const config = {
+  name: 'treasury',
+  network: {
+    name: 'testnet',
+    url: 'http://localhost:4000/v1/graphql',
+    assets: { ETH: { assetId: ETH, decimals: 9 } },
+  },
+} as unknown as VaultConfig;
+
+/**
+ * Builds a successful summary of Alice paying the vault 100 ETH base units on a day of January 2024
+ * @param {number} day - Day of the month
+ * @returns {TransactionResult} Transaction summary
+ */
+function payment(day: number): TransactionResult {
+  return {
+    id: `0x${String(day).padStart(64, '0')}`,
+    date: new Date(Date.UTC(2024, 0, day)),
+    isStatusPending: false,
+    isStatusSuccess: true,
+    fee: bn(1),
+    transaction: { inputs: [] },
+    operations: [
+      { from: { address: ALICE }, to: { address: VAULT }, assetsSent: [{ assetId: ETH, amount: bn(100) }] },
+    ],
+  } as unknown as TransactionResult;
+}
+
+/** History of the vault, oldest first, as the node stores it */
+const history = [1, 2, 3, 4, 5].map(payment);
+
+/**
+ * Serves the history two transactions per page, like the node's connection query:
+ * `last`/`before` walks back from the newest, `first`/`after` forward from the oldest
+ */
+function serveHistory(): void {
+  vi.mocked(getTransactionsSummaries).mockImplementation(async ({ filters }) => {
+    const size = 2;
+    let start: number;
+    let end: number;
+    if (filters.last !== undefined) {
+      end = filters.before ? Number(filters.before) : history.length;
+      start = Math.max(0, end - size);
+    } else {
+      start = filters.after ? Number(filters.after) + 1 : 0;
+      end = Math.min(history.length, start + size);
+    }
+    return {
+      transactions: history.slice(start, end),
+      pageInfo: {
+        hasPreviousPage: start > 0,
+        hasNextPage: end < history.length,
+        startCursor: String(start),
+        endCursor: String(end - 1),
+      },
+    } as unknown as Awaited<ReturnType<typeof getTransactionsSummaries>>;
+  });
+}
+
+/**
+ * Gets the `before` cursor of each page request
+ * @returns {(string | null | undefined)[]} Cursors in request order
+ */
+function requestedCursors(): (string | null | undefined)[] {
+  return vi.mocked(getTransactionsSummaries).mock.calls.map(([{ filters }]) => filters.before);
+}
+
+describe('getVaultStatement', () => {
+  beforeEach(() => {
+    vi.mocked(getTransactionsSummaries).mockReset();
+    serveHistory();
+  });
+
+  it('pages back from the newest transaction through the whole history', async () => {
+    const statement = await getVaultStatement(config);
+
+    expect(requestedCursors()).toEqual([undefined, '3', '1']);
+    expect(statement.transactions.map(t => t.time.slice(0, 10))).toEqual([
+      '2024-01-01',
+      '2024-01-02',
+      '2024-01-03',
+      '2024-01-04',
+      '2024-01-05',
+    ]);
+    expect(statement.totals).toEqual([{ assetId: ETH, asset: 'ETH', received: '500', sent: '0', fees: '0' }]);
+  });
+
+  it('keeps every transaction of a range spread over several pages', async () => {
+    const statement = await getVaultStatement(config, {
+      from: new Date(Date.UTC(2024, 0, 2)),
+      to: new Date(Date.UTC(2024, 0, 4)),
+    });
+
+    expect(statement.transactions.map(t => t.time.slice(0, 10))).toEqual(['2024-01-02', '2024-01-03', '2024-01-04']);
+  });
+
+  it('stops paging after the page that reaches past the start of the range', async () => {
+    const statement = await getVaultStatement(config, { from: new Date(Date.UTC(2024, 0, 4)) });
+
+    expect(requestedCursors()).toEqual([undefined, '3']);
+    expect(statement.transactions.map(t => t.time.slice(0, 10))).toEqual(['2024-01-04', '2024-01-05']);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Address, ScriptTransactionRequest, OutputType, Wallet } from 'fuels';
+import type { CoinTransactionRequestOutput } from 'fuels';
+import { checkTransactionIntegrity, addSignatures, importSignatures } from '../src/services/transaction.js';
+import { signWithFuelKey } from '../src/services/signature.js';
+import type { PendingTransaction, VaultConfig, WalletConfig } from '../src/types.js';
+
+const VAULT = `0x${'5a'.repeat(32)}`;
+
+// Hoisted above the imports: the vault service needs the BakoSafe SDK, the check only the vault address
+vi.mock('../src/services/vault.js', () => ({
+  getVaultAddress: async () => VAULT,
+  withProvider: async () => {
+    throw new Error('the chain ID is configured, no node should be queried');
+  },
+}));
+
+const CHAIN_ID = 0;
+const ETH = `0x${'e'.repeat(64)}`;
+const USDC = `0x${'c'.repeat(64)}`;
+const ALICE = `0x${'a'.repeat(64)}`;
+const BOB = `0x${'b'.repeat(64)}`;
+
+const config = {
+  name: 'treasury',
+  network: {
+    name: 'testnet',
+    url: 'http://localhost:4000/v1/graphql',
+    chainId: CHAIN_ID,
+    assets: {
+      ETH: { assetId: ETH, decimals: 9 },
+      USDC: { assetId: USDC, decimals: 6 },
+    },
+  },
+} as unknown as VaultConfig;
+
+/**
+ * Builds a pending transaction paying 0.25 ETH to Alice and 1.5 + 2 USDC to Bob, change to the vault
+ * @returns {PendingTransaction} Pending transaction whose request matches its transfers
+ */
+function buildPending(): PendingTransaction {
+  const request = new ScriptTransactionRequest();
+  request.addCoinOutput(Address.fromB256(ALICE), 250_000_000, ETH);
+  request.addCoinOutput(Address.fromB256(BOB), 3_500_000, USDC);
+  request.addChangeOutput(Address.fromB256(VAULT), ETH);
+  request.addChangeOutput(Address.fromB256(VAULT), USDC);
+
+  return {
+    walletName: 'treasury',
+    networkName: 'testnet',
+    hashTxId: request.getTransactionId(CHAIN_ID).slice(2),
+    encodedTxId: '',
+    txRequest: request.toJSON(),
+    transaction: {
+      transfers: [
+        { to: ALICE, amount: '0.25' },
+        { to: BOB, amount: '1.5', assetId: USDC },
+        { to: BOB, amount: '2', assetId: USDC },
+      ],
+    },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    signatures: [],
+    requiredSignatures: 2,
+  };
+}
+
+/**
+ * Replaces the stored request of a pending transaction, keeping its hash
+ * @param {PendingTransaction} pending - Pending transaction (updated in place)
+ * @param {(request: ScriptTransactionRequest) => void} tamper - Change to the request
+ */
+function tamperRequest(
+  pending: PendingTransaction,
+  tamper: (request: ScriptTransactionRequest) => void
+): void {
+  const request = ScriptTransactionRequest.from(pending.txRequest);
+  tamper(request);
+  pending.txRequest = request.toJSON();
+}
+
+/**
+ * Finds the coin output paying a recipient
+ * @param {ScriptTransactionRequest} request - Transaction request
+ * @param {string} to - Recipient address
+ * @returns {CoinTransactionRequestOutput} The output
+ */
+function coinOutputTo(request: ScriptTransactionRequest, to: string): CoinTransactionRequestOutput {
+  return request.outputs.find(o => o.type === OutputType.Coin && String(o.to).toLowerCase() === to) as
+    CoinTransactionRequestOutput;
+}
+
+describe('checkTransactionIntegrity', () => {
+  it('accepts a request that matches its transfers', async () => {
+    const pending = buildPending();
+    const check = await checkTransactionIntegrity(config, pending);
+    expect(check).toEqual({
+      hashTxId: pending.hashTxId,
+      chainId: CHAIN_ID,
+      vaultAddress: VAULT,
+      problems: [],
+    });
+  });
+
+  it('rejects a changed output amount', async () => {
+    const pending = buildPending();
+    tamperRequest(pending, request => {
+      coinOutputTo(request, ALICE).amount = 900_000_000;
+    });
+
+    const { problems } = await checkTransactionIntegrity(config, pending);
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^The request hashes to [0-9a-f]{64} on chain 0, not /);
+    expect(problems[1]).toBe(`Output to ${ALICE} sends 0.9 ETH, not 0.25 ETH`);
+  });
+
+  it('rejects a changed recipient', async () => {
+    const pending = buildPending();
+    tamperRequest(pending, request => {
+      coinOutputTo(request, BOB).to = `0x${'d'.repeat(64)}`;
+    });
+
+    const { problems } = await checkTransactionIntegrity(config, pending);
+    expect(problems).toContain(`No output sends 3.5 USDC to ${BOB}`);
+    expect(problems).toContain(`Unlisted output sends 3.5 USDC to 0x${'d'.repeat(64)}`);
+  });
+
+  it('rejects an added output', async () => {
+    const pending = buildPending();
+    tamperRequest(pending, request => {
+      request.addCoinOutput(Address.fromB256(BOB), 1, ETH);
+    });
+
+    const { problems } = await checkTransactionIntegrity(config, pending);
+    expect(problems).toContain(`Unlisted output sends 0.000000001 ETH to ${BOB}`);
+  });
+
+  it('rejects change that does not return to the vault', async () => {
+    const pending = buildPending();
+    tamperRequest(pending, request => {
+      const change = request.outputs.find(o => o.type === OutputType.Change)!;
+      change.to = ALICE;
+    });
+
+    const { problems } = await checkTransactionIntegrity(config, pending);
+    expect(problems).toContain(`Change of asset ${ETH} goes to ${ALICE}, not to the vault`);
+  });
+
+  it('rejects transfers that were edited after signing started', async () => {
+    const pending = buildPending();
+    pending.transaction.transfers[0].amount = '0.5';
+
+    const { problems } = await checkTransactionIntegrity(config, pending);
+    expect(problems).toEqual([`Output to ${ALICE} sends 0.25 ETH, not 0.5 ETH`]);
+  });
+});
+
+describe('addSignatures', () => {
+  const keys = [Wallet.generate().privateKey, Wallet.generate().privateKey];
+  const signers = keys.map(k => Wallet.fromPrivateKey(k).address.toB256());
+  const wallet = { config: { SIGNATURES_COUNT: 2, SIGNERS: signers } } as unknown as WalletConfig;
+
+  it('keeps the first signature of each signer', async () => {
+    const pending = buildPending();
+    const first = await signWithFuelKey(keys[0], pending.hashTxId);
+    const again = await signWithFuelKey(keys[0], pending.hashTxId);
+
+    const result = addSignatures(pending, [first, again]);
+    expect(result).toMatchObject({ added: [first], duplicates: [again], replaced: [], signers: 1 });
+    expect(result.thresholdReached).toBe(false);
+    expect(pending.signatures).toEqual([first]);
+  });
+
+  it('replaces a stored signature that fails verification', async () => {
+    const pending = buildPending();
+    const broken = { ...(await signWithFuelKey(keys[1], pending.hashTxId)), signer: signers[0] };
+    pending.signatures.push(broken);
+
+    const valid = await signWithFuelKey(keys[0], pending.hashTxId);
+    const { checks, result } = importSignatures(pending, wallet, [valid]);
+    expect(checks.map(c => c.status)).toEqual(['verified']);
+    expect(result).toMatchObject({ added: [valid], duplicates: [], replaced: [broken], signers: 1 });
+    expect(pending.signatures).toEqual([valid]);
+  });
+
+  it('counts only verified signers toward the threshold', async () => {
+    const pending = buildPending();
+    const broken = { ...(await signWithFuelKey(keys[0], pending.hashTxId)), signer: signers[1] };
+    pending.signatures.push(broken);
+
+    const valid = await signWithFuelKey(keys[0], pending.hashTxId);
+    const { result } = importSignatures(pending, wallet, [valid]);
+    expect(pending.signatures).toEqual([broken, valid]);
+    expect(result).toMatchObject({ signers: 1, thresholdReached: false });
+  });
+
+  it('does not store signatures that fail verification', async () => {
+    const pending = buildPending();
+    const wrong = await signWithFuelKey(keys[0], '00'.repeat(32));
+
+    const { checks, result } = importSignatures(pending, wallet, [wrong]);
+    expect(checks.map(c => c.status)).toEqual(['mismatch']);
+    expect(result.added).toEqual([]);
+    expect(pending.signatures).toEqual([]);
+  });
+
+  it('reaches the threshold with one signature per signer', async () => {
+    const pending = buildPending();
+    const signatures = await Promise.all(keys.map(k => signWithFuelKey(k, pending.hashTxId)));
+
+    const { result } = importSignatures(pending, wallet, signatures);
+    expect(result).toMatchObject({ signers: 2, thresholdReached: true });
+  });
+});